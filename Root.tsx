@@ -0,0 +1,22 @@
+
+import React from 'react';
+import App from './App';
+import StaffDashboard from './components/StaffDashboard';
+import { useHashRoute } from './hooks/useHashRoute';
+import { I18nContext, useLanguagePreference } from './hooks/useI18n';
+import { callbackQueue, historyStore, metricsStore, recordingStore, scheduler } from './services/appServices';
+import { clinic } from './services/clinicConfig';
+
+const Root: React.FC = () => {
+  const route = useHashRoute();
+  const i18n = useLanguagePreference(clinic.assistant.defaultLanguage);
+  // The staff dashboard stays in English; the language choice is for patients.
+  if (route.startsWith('/staff')) return <StaffDashboard scheduler={scheduler} metricsStore={metricsStore} callbackQueue={callbackQueue} historyStore={historyStore} recordingStore={recordingStore} />;
+  return (
+    <I18nContext.Provider value={i18n}>
+      <App />
+    </I18nContext.Provider>
+  );
+};
+
+export default Root;
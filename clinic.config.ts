@@ -0,0 +1,204 @@
+
+import type { ClinicConfig } from './services/clinicConfig';
+
+// Everything clinic-specific lives here. To run the assistant for another branch or clinic,
+// swap this file; the prompt, greetings, service cards, quick prompts and booking rules follow.
+const clinic: ClinicConfig = {
+  name: 'G.C Mia Dental Clinic',
+  brand: {
+    title: 'G.C MIA',
+    accent: 'DENTAL',
+    tagline: 'Agentic Voice AI'
+  },
+  location: {
+    city: 'Antipolo City',
+    province: 'Rizal',
+    timeZone: 'Asia/Manila'
+  },
+  doctor: {
+    name: 'Dr. Gloryner Mia-Dibaratun',
+    shortName: 'Dr. Mia'
+  },
+  assistant: {
+    name: 'Mia',
+    role: 'expert Voice AI Receptionist',
+    defaultLanguage: 'taglish'
+  },
+  languages: {
+    taglish: {
+      voiceName: 'Kore',
+      greeting: 'Kumusta! Ako si Mia, ang iyong digital assistant dito sa G.C Mia Dental Clinic. Paano kita matutulungan ngayon?',
+      quickPrompts: [
+        { label: 'Book Appointment', text: 'Hi! Pwede po ba mag-book ng dental appointment?' },
+        { label: 'Price Check', text: 'Magkano po ang cleaning or filling?' },
+        { label: 'Clinic Hours', text: 'Anong oras po kayo open dito sa Antipolo?' },
+        { label: 'About Dr. Mia', text: "Can you tell me about Dr. Gloryner Mia's expertise po?" }
+      ]
+    },
+    english: {
+      voiceName: 'Aoede',
+      greeting: "Hello! I'm Mia, the digital assistant of G.C Mia Dental Clinic. How can I help you today?",
+      quickPrompts: [
+        { label: 'Book Appointment', text: "I'd like to book a dental appointment, please." },
+        { label: 'Price Check', text: 'How much is a tooth cleaning or filling?' },
+        { label: 'Clinic Hours', text: 'What are your opening hours in Antipolo?' },
+        { label: 'About Dr. Mia', text: "Tell me about Dr. Gloryner Mia's expertise." }
+      ]
+    },
+    filipino: {
+      voiceName: 'Kore',
+      greeting: 'Magandang araw po! Ako si Mia, ang katuwang ninyo dito sa G.C Mia Dental Clinic. Ano po ang maitutulong ko sa inyo?',
+      quickPrompts: [
+        { label: 'Magpa-appointment', text: 'Gusto ko pong magpa-appointment sa dentista.' },
+        { label: 'Magkano', text: 'Magkano po ang paglilinis o pagpapasta ng ngipin?' },
+        { label: 'Oras ng Klinika', text: 'Anong oras po bukas ang klinika sa Antipolo?' },
+        { label: 'Tungkol kay Dr. Mia', text: 'Ikuwento po ninyo ang tungkol kay Dr. Gloryner Mia.' }
+      ]
+    }
+  },
+  hours: {
+    sunday: { open: '12:00', close: '19:00' },
+    monday: { open: '16:00', close: '19:00' },
+    tuesday: { open: '16:00', close: '19:00' },
+    wednesday: { open: '16:00', close: '19:00' },
+    thursday: { open: '16:00', close: '19:00' },
+    friday: null,
+    saturday: { open: '12:00', close: '19:00' }
+  },
+  scheduling: {
+    slotIntervalMinutes: 30,
+    defaultDurationMinutes: 30,
+    searchHorizonDays: 14,
+    maxSuggestions: 3,
+    referencePrefix: 'GCM'
+  },
+  services: [
+    {
+      id: '1',
+      title: 'Oral Prophylaxis',
+      description: 'Professional teeth cleaning and scaling to prevent gum disease.',
+      icon: 'fa-tooth',
+      durationMinutes: 45,
+      price: { min: 800, max: 1500, currency: 'PHP' },
+      preparation: [
+        'Brush and floss as usual before your visit.',
+        'Tell us if your gums bleed easily or if you take blood thinners.'
+      ],
+      aftercare: [
+        'Mild gum sensitivity for a day is normal.',
+        'Avoid coffee, tea and dark sauces for a few hours after polishing.',
+        'Come back every 6 months for a regular cleaning.'
+      ],
+      keywords: ['cleaning', 'prophylaxis', 'linis', 'scaling']
+    },
+    {
+      id: '2',
+      title: 'Tooth Extraction',
+      description: 'Expert removal of damaged or problematic teeth with minimal discomfort.',
+      icon: 'fa-kit-medical',
+      durationMinutes: 45,
+      price: { min: 800, max: 2500, currency: 'PHP', unit: 'per tooth' },
+      preparation: [
+        'Eat a light meal before your visit.',
+        'Tell us about any medications, allergies, or heart and blood pressure conditions.',
+        'Surgical or impacted teeth may need an X-ray first and cost more.'
+      ],
+      aftercare: [
+        'Bite on the gauze for 30 to 45 minutes.',
+        'No spitting, rinsing or drinking through a straw for 24 hours.',
+        'Eat soft, cool food and avoid smoking for at least 2 days.'
+      ],
+      keywords: ['extraction', 'extract', 'bunot']
+    },
+    {
+      id: '3',
+      title: 'Cosmetic Filling',
+      description: 'High-quality tooth-colored composite restoration for a natural look.',
+      icon: 'fa-fill-drip',
+      durationMinutes: 60,
+      price: { min: 800, max: 2000, currency: 'PHP', unit: 'per surface' },
+      preparation: [
+        'No special preparation needed.',
+        'Let us know if the tooth is sensitive to hot or cold.'
+      ],
+      aftercare: [
+        'You can eat once the anesthesia wears off.',
+        'Slight sensitivity for a few days is normal.',
+        'Avoid biting very hard food on the new filling for 24 hours.'
+      ],
+      keywords: ['filling', 'pasta', 'composite']
+    },
+    {
+      id: '4',
+      title: 'Braces / Ortho',
+      description: 'Customized treatment plans for perfect alignment and bite correction.',
+      icon: 'fa-teeth',
+      durationMinutes: 60,
+      price: { min: 35000, max: 80000, currency: 'PHP', unit: 'full treatment' },
+      preparation: [
+        'An initial consultation with X-rays and impressions is needed before the braces are placed.',
+        "Have a cleaning done first if you haven't had one in 6 months."
+      ],
+      aftercare: [
+        'Soreness for the first few days after each adjustment is normal.',
+        'Avoid hard and sticky food like nuts, chicharon and chewing gum.',
+        'Come back for adjustments as scheduled, usually monthly.'
+      ],
+      keywords: ['braces', 'ortho', 'brace']
+    },
+    {
+      id: '5',
+      title: 'Root Canal Therapy',
+      description: 'Saving your natural teeth from infection with advanced techniques.',
+      icon: 'fa-vial-virus',
+      durationMinutes: 90,
+      price: { min: 5000, max: 12000, currency: 'PHP', unit: 'per tooth, crown not included' },
+      preparation: [
+        'Eat before your visit; the treatment can take more than an hour.',
+        'An X-ray of the tooth is needed.',
+        'Bring any antibiotics or pain medication you are currently taking.'
+      ],
+      aftercare: [
+        'Avoid chewing on the treated tooth until it has its final crown or filling.',
+        'Mild tenderness for a few days is normal.',
+        'Return for the crown or final restoration to protect the tooth.'
+      ],
+      keywords: ['root canal', 'rct', 'endo']
+    },
+    {
+      id: '6',
+      title: 'Professional Whitening',
+      description: 'Instantly brighten your smile with our safe laser whitening system.',
+      icon: 'fa-wand-magic-sparkles',
+      durationMinutes: 60,
+      price: { min: 8000, max: 15000, currency: 'PHP', unit: 'per session' },
+      preparation: [
+        'A cleaning before whitening gives the best result.',
+        'Whitening is not recommended during pregnancy or with untreated cavities.'
+      ],
+      aftercare: [
+        'Avoid coffee, tea, red wine and dark sauces for 48 hours.',
+        'Some sensitivity for a day or two is normal.',
+        'Results last longer if you avoid smoking.'
+      ],
+      keywords: ['whitening', 'bleaching', 'pampaputi']
+    }
+  ],
+  pricingNote: 'Prices are estimates. The dentist confirms the final cost after a check-up.',
+  // Replace the phone number with the clinic's real emergency line before going live.
+  emergency: {
+    phone: '0917 000 0000',
+    hotline: '911',
+    afterHours: 'If you have swelling that is spreading toward your eye or neck, trouble breathing or swallowing, bleeding that does not stop after 30 minutes of firm pressure, or a face or jaw injury, go to the nearest hospital emergency room or call 911 now. For other dental pain, take your usual pain reliever as directed, use a cold compress, and message us; we will call you back when the clinic opens.'
+  },
+  rules: [
+    'Be proactive. If a user asks for prices, offer to book them.',
+    'If they are unsure about a service, explain it simply.'
+  ],
+  social: {
+    facebook: '#',
+    instagram: '#'
+  }
+};
+
+export default clinic;
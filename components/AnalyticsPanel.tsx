@@ -0,0 +1,179 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { MetricsStore, SessionMetrics } from '../services/metricsStore';
+import { LatencyStats, RankedCount, summarizeSessions } from '../services/sessionAnalytics';
+
+interface AnalyticsPanelProps {
+  store: MetricsStore;
+}
+
+type Range = '7' | '30' | 'all';
+
+const RANGES: { id: Range; label: string }[] = [
+  { id: '7', label: '7 days' },
+  { id: '30', label: '30 days' },
+  { id: 'all', label: 'All time' }
+];
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function duration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  return minutes ? `${minutes}m ${Math.round((ms % 60_000) / 1000)}s` : seconds(ms);
+}
+
+const Stat: React.FC<{ label: string; value: string; hint?: string; icon: string; color: string }> = ({ label, value, hint, icon, color }) => (
+  <div className="glass-card rounded-2xl p-5 flex items-center gap-4">
+    <i className={`fas ${icon} text-2xl ${color}`} aria-hidden="true"></i>
+    <div>
+      <p className="text-2xl font-black text-slate-900">{value}</p>
+      <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{label}</p>
+      {hint && <p className="text-[10px] text-slate-400 mt-0.5">{hint}</p>}
+    </div>
+  </div>
+);
+
+const LatencyRow: React.FC<{ label: string; stats: LatencyStats | null }> = ({ label, stats }) => (
+  <div className="flex items-baseline justify-between py-2 border-b border-slate-50 last:border-0">
+    <span className="text-xs font-bold text-slate-600">{label}</span>
+    {stats ? (
+      <span className="text-xs text-slate-500">
+        <span className="text-lg font-black text-slate-900 mr-2">{seconds(stats.averageMs)}</span>
+        avg · p90 {seconds(stats.p90Ms)} · {stats.samples} replies
+      </span>
+    ) : (
+      <span className="text-xs text-slate-300">No replies yet</span>
+    )}
+  </div>
+);
+
+const RankedList: React.FC<{ title: string; items: RankedCount[]; empty: string }> = ({ title, items, empty }) => {
+  const max = Math.max(1, ...items.map(i => i.count));
+  return (
+    <div className="glass-card rounded-[2rem] p-6">
+      <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-4">{title}</h3>
+      {items.length === 0 && <p className="text-xs text-slate-300">{empty}</p>}
+      <div className="space-y-3">
+        {items.map(item => (
+          <div key={item.label}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="font-bold text-slate-600 truncate pr-4">{item.label}</span>
+              <span className="text-slate-400">{item.count}</span>
+            </div>
+            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 rounded-full" style={{ width: `${(item.count / max) * 100}%` }}></div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/** Staff view of how the assistant performs, from the sessions recorded on this device. */
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ store }) => {
+  const [metrics, setMetrics] = useState<SessionMetrics[]>([]);
+  const [range, setRange] = useState<Range>('7');
+
+  useEffect(() => {
+    const load = () => { store.list().then(setMetrics).catch(err => console.error(err)); };
+    load();
+    // Sessions from the patient view in another tab.
+    window.addEventListener('storage', load);
+    return () => window.removeEventListener('storage', load);
+  }, [store]);
+
+  const summary = useMemo(() => {
+    const since = range === 'all' ? 0 : Date.now() - Number(range) * 86_400_000;
+    return summarizeSessions(metrics, since);
+  }, [metrics, range]);
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all recorded session metrics on this device?')) return;
+    await store.clear();
+    setMetrics([]);
+  };
+
+  const booked = summary.funnel[summary.funnel.length - 1];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex bg-white border border-slate-100 rounded-xl p-1">
+          {RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRange(r.id)}
+              className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${range === r.id ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-blue-600'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+        <button onClick={handleClear} disabled={!metrics.length} className="px-3 py-2 text-[10px] font-bold text-slate-300 hover:text-rose-500 uppercase transition-colors disabled:opacity-50 disabled:hover:text-slate-300">
+          <i className="fas fa-trash-alt mr-2" aria-hidden="true"></i>Clear Metrics
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Stat label="Sessions" value={String(summary.sessions)} hint={`${summary.byMode.voice} voice · ${summary.byMode.text} text`} icon="fa-comments" color="text-blue-500" />
+        <Stat label="Booking Rate" value={percent(booked.rate)} hint={`${booked.count} booked`} icon="fa-calendar-check" color="text-emerald-500" />
+        <Stat label="Avg Duration" value={summary.averageDurationMs === null ? '–' : duration(summary.averageDurationMs)} icon="fa-stopwatch" color="text-indigo-500" />
+        <Stat label="Failed Sessions" value={percent(summary.failureRate)} hint={`${percent(summary.errorRate)} saw an error`} icon="fa-triangle-exclamation" color="text-rose-500" />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="glass-card rounded-[2rem] p-6">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-4">Conversation Funnel</h3>
+          <div className="space-y-3">
+            {summary.funnel.map(step => (
+              <div key={step.label}>
+                <div className="flex justify-between text-xs mb-1">
+                  <span className="font-bold text-slate-600">{step.label}</span>
+                  <span className="text-slate-400">{step.count} · {percent(step.rate)}</span>
+                </div>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-blue-500 to-indigo-500 rounded-full" style={{ width: percent(step.rate) }}></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="glass-card rounded-[2rem] p-6">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Response Latency</h3>
+          <LatencyRow label="Voice (end of turn → first audio)" stats={summary.latency.voice} />
+          <LatencyRow label="Text (message → reply)" stats={summary.latency.text} />
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-6 mb-2">Reliability</h3>
+          <div className="grid grid-cols-3 gap-3 text-center">
+            {[
+              { label: 'Tool errors', value: percent(summary.toolErrorRate) },
+              { label: 'Reconnects / session', value: summary.reconnectsPerSession.toFixed(1) },
+              { label: 'Interruptions / session', value: summary.interruptionsPerSession.toFixed(1) }
+            ].map(item => (
+              <div key={item.label} className="bg-slate-50 rounded-2xl p-3">
+                <p className="text-lg font-black text-slate-900">{item.value}</p>
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{item.label}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <RankedList title="Popular Services" items={summary.popularServices} empty="No services asked about yet." />
+        <RankedList title="Common Errors" items={summary.commonErrors} empty="No errors recorded." />
+      </div>
+
+      <p className="text-[10px] text-slate-400 text-center">Metrics are recorded in this browser only and contain no conversation text.</p>
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
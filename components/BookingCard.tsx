@@ -0,0 +1,92 @@
+
+import React from 'react';
+import { Appointment } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { languageProfile } from '../services/i18n';
+import { formatTime, serviceNameOf } from '../services/scheduling';
+import { exportAppointmentIcs, exportBookingSummaryHtml, icsFilename } from '../utils/bookingExport';
+import { downloadFile, printHtml } from '../utils/transcriptExport';
+
+export interface BookingCardState {
+  /** 'proposed' while the patient has not said yes yet; nothing is saved until then. */
+  stage: 'proposed' | 'booked';
+  appointment: Appointment;
+}
+
+interface BookingCardProps {
+  card: BookingCardState;
+  assistantName: string;
+  /** Sends the patient's yes to the assistant; omitted when no conversation is running. */
+  onConfirm?: () => void;
+  onDismiss: () => void;
+}
+
+const BookingCard: React.FC<BookingCardProps> = ({ card, assistantName, onConfirm, onDismiss }) => {
+  const { language, t } = useI18n();
+  const { appointment } = card;
+  const proposed = card.stage === 'proposed';
+
+  const details = [
+    { label: t('summaryPatient'), value: appointment.clientName },
+    { label: t('summaryService'), value: serviceNameOf(appointment) },
+    { label: t('summaryDate'), value: appointment.date },
+    { label: t('summaryTime'), value: formatTime(appointment.startMinutes) }
+  ];
+
+  return (
+    <div className={`border p-6 rounded-[2rem] shadow-sm animate-in zoom-in-95 ${proposed ? 'bg-amber-50 border-amber-100 text-amber-900' : 'bg-emerald-50 border-emerald-100 text-emerald-900'}`}>
+      <div className="flex items-center gap-5">
+        <div className={`w-12 h-12 rounded-full flex items-center justify-center text-white shadow-md shrink-0 ${proposed ? 'bg-amber-500' : 'bg-emerald-500'}`}>
+          <i className={`fas ${proposed ? 'fa-clipboard-question' : 'fa-calendar-check'} text-xl`} aria-hidden="true"></i>
+        </div>
+        <div className="flex-1">
+          <h4 className="font-bold text-sm">{proposed ? t('bookingConfirmTitle') : t('appointmentRequested')}</h4>
+          <p className="text-[11px] opacity-75">{proposed ? t('bookingConfirmHint', { name: assistantName }) : t('bookingKeepReference')}</p>
+        </div>
+        <button onClick={onDismiss} aria-label={t('dismiss')} className={`p-2 rounded-full transition-colors ${proposed ? 'hover:bg-amber-100' : 'hover:bg-emerald-100'}`}><i className="fas fa-times" aria-hidden="true"></i></button>
+      </div>
+
+      {!proposed && appointment.reference && (
+        <div className="mt-5 bg-white border-2 border-dashed border-emerald-200 rounded-2xl p-4 text-center">
+          <p className="text-[9px] font-black uppercase tracking-widest text-emerald-500">{t('referenceCode')}</p>
+          <p className="text-2xl font-black tracking-[0.2em] text-emerald-700 mt-1 select-all">{appointment.reference}</p>
+        </div>
+      )}
+
+      <dl className="mt-5 grid grid-cols-2 md:grid-cols-4 gap-3">
+        {details.map(d => (
+          <div key={d.label} className="bg-white/70 rounded-2xl p-3">
+            <dt className="text-[9px] font-black uppercase tracking-widest opacity-60">{d.label}</dt>
+            <dd className="text-xs font-bold mt-1">{d.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="mt-5 flex flex-wrap justify-end gap-3">
+        {proposed && onConfirm && (
+          <button onClick={onConfirm} className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-white hover:bg-amber-600 transition-all">
+            <i className="fas fa-check mr-2" aria-hidden="true"></i>{t('bookingConfirmAction')}
+          </button>
+        )}
+        {!proposed && (
+          <>
+            <button
+              onClick={() => downloadFile(icsFilename(appointment), exportAppointmentIcs(appointment), 'text/calendar')}
+              className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white border border-emerald-100 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all"
+            >
+              <i className="fas fa-calendar-plus mr-2" aria-hidden="true"></i>{t('addToCalendar')}
+            </button>
+            <button
+              onClick={() => printHtml(exportBookingSummaryHtml(appointment, t, languageProfile(language).htmlLang))}
+              className="px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white border border-emerald-100 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all"
+            >
+              <i className="fas fa-print mr-2" aria-hidden="true"></i>{t('printSummary')}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingCard;
@@ -0,0 +1,30 @@
+
+import React from 'react';
+import { CallbackRequest } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface CallbackCardProps {
+  request: CallbackRequest;
+  onDismiss: () => void;
+}
+
+const CallbackCard: React.FC<CallbackCardProps> = ({ request, onDismiss }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-100 text-indigo-900 p-6 rounded-[2rem] shadow-sm animate-in zoom-in-95">
+      <div className="flex items-center gap-5">
+        <div className="w-12 h-12 rounded-full bg-indigo-500 flex items-center justify-center text-white shadow-md shrink-0">
+          <i className="fas fa-headset text-xl" aria-hidden="true"></i>
+        </div>
+        <div className="flex-1">
+          <h4 className="font-bold text-sm">{t('callbackTitle')}</h4>
+          <p className="text-[11px] opacity-75">{t('callbackQueued', { number: request.contactNumber })}</p>
+        </div>
+        <button onClick={onDismiss} aria-label={t('dismiss')} className="p-2 rounded-full transition-colors hover:bg-indigo-100"><i className="fas fa-times" aria-hidden="true"></i></button>
+      </div>
+    </div>
+  );
+};
+
+export default CallbackCard;
@@ -0,0 +1,99 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CallbackRequest, CallbackStatus, Urgency } from '../types';
+import { CallbackQueue, sortCallbacks } from '../services/handoff';
+
+interface CallbackQueuePanelProps {
+  queue: CallbackQueue;
+}
+
+const URGENCY_STYLES: Record<Urgency, string> = {
+  emergency: 'bg-rose-50 text-rose-600 border-rose-100',
+  urgent: 'bg-amber-50 text-amber-600 border-amber-100',
+  routine: 'bg-sky-50 text-sky-600 border-sky-100'
+};
+
+function formatRequestedAt(ms: number): string {
+  return new Date(ms).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+const CallbackQueuePanel: React.FC<CallbackQueuePanelProps> = ({ queue }) => {
+  const [requests, setRequests] = useState<CallbackRequest[]>([]);
+  const [showDone, setShowDone] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const off = queue.onChange(setRequests);
+    queue.reload().catch(err => console.error(err));
+    // Requests queued from the patient view in another tab land in localStorage.
+    const onStorage = () => { queue.reload().catch(err => console.error(err)); };
+    window.addEventListener('storage', onStorage);
+    return () => {
+      off();
+      window.removeEventListener('storage', onStorage);
+    };
+  }, [queue]);
+
+  const visible = useMemo(
+    () => sortCallbacks(requests).filter(r => showDone || r.status === CallbackStatus.OPEN),
+    [requests, showDone]
+  );
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <input type="checkbox" checked={showDone} onChange={e => setShowDone(e.target.checked)} />
+        Show completed
+      </label>
+
+      <div className="glass-card rounded-[2rem] overflow-hidden">
+        {visible.length === 0 && (
+          <p className="p-10 text-center text-xs text-slate-400">No patients are waiting for a call.</p>
+        )}
+        {visible.map(request => (
+          <div key={request.id} className={`p-5 border-b border-slate-50 last:border-0 ${request.status === CallbackStatus.DONE ? 'opacity-50' : ''}`}>
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="w-28 shrink-0">
+                <p className="text-xs font-bold text-slate-700">{formatRequestedAt(request.createdAt)}</p>
+                {request.preferredTime && <p className="text-[11px] text-slate-400">Call {request.preferredTime}</p>}
+              </div>
+              <div className="flex-1 min-w-[160px]">
+                <p className="text-sm font-bold text-slate-800">
+                  <a href={`tel:${request.contactNumber.replace(/[^\d+]/g, '')}`} className="hover:text-blue-600">{request.contactNumber}</a>
+                  {request.patientName && <span className="ml-2 text-[11px] font-normal text-slate-400">{request.patientName}</span>}
+                </p>
+                <p className="text-[11px] text-slate-500">{request.reason}</p>
+              </div>
+              {request.urgency && (
+                <span className={`px-3 py-1 rounded-full border text-[9px] font-black uppercase tracking-widest ${URGENCY_STYLES[request.urgency]}`}>{request.urgency}</span>
+              )}
+              <div className="flex gap-2">
+                {request.transcript.length > 0 && (
+                  <button onClick={() => setExpanded(expanded === request.id ? null : request.id)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-50 text-slate-500 hover:bg-blue-600 hover:text-white transition-all">
+                    {expanded === request.id ? 'Hide' : 'Transcript'}
+                  </button>
+                )}
+                {request.status === CallbackStatus.OPEN && (
+                  <button onClick={() => queue.resolve(request.id)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-emerald-50 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all">Mark done</button>
+                )}
+              </div>
+            </div>
+
+            {expanded === request.id && (
+              <div className="mt-4 ml-32 max-h-72 overflow-y-auto space-y-2 bg-slate-50 rounded-2xl p-4">
+                {request.transcript.map((entry, i) => (
+                  <p key={i} className="text-[11px] text-slate-600">
+                    <span className={`font-black uppercase tracking-widest text-[9px] mr-2 ${entry.role === 'user' ? 'text-emerald-600' : 'text-blue-600'}`}>{entry.role === 'user' ? 'Patient' : 'Assistant'}</span>
+                    {entry.text}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CallbackQueuePanel;
@@ -0,0 +1,133 @@
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ConversationSession, TranscriptionEntry } from '../types';
+import { HistoryStore } from '../services/historyStore';
+import { RecordingStore } from '../services/recordingStore';
+import { useDialog } from '../hooks/useDialog';
+import {
+  downloadFile,
+  exportTranscriptHtml,
+  exportTranscriptJson,
+  exportTranscriptText,
+  printHtml,
+  transcriptFilename
+} from '../utils/transcriptExport';
+
+interface HistoryBrowserProps {
+  store: HistoryStore;
+  /** Recordings go with the conversation they belong to when it is deleted. */
+  recordings: RecordingStore;
+  onClose: () => void;
+}
+
+function formatDuration(session: ConversationSession): string {
+  if (!session.endedAt) return 'In progress';
+  const seconds = Math.max(0, Math.round((session.endedAt - session.startedAt) / 1000));
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+const HistoryBrowser: React.FC<HistoryBrowserProps> = ({ store, recordings, onClose }) => {
+  const [sessions, setSessions] = useState<ConversationSession[]>([]);
+  const [selected, setSelected] = useState<ConversationSession | null>(null);
+  const [entries, setEntries] = useState<TranscriptionEntry[]>([]);
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+
+  const refresh = useCallback(() => {
+    store.listSessions().then(setSessions).catch(err => console.error(err));
+  }, [store]);
+
+  useEffect(refresh, [refresh]);
+
+  useEffect(() => {
+    if (!selected) { setEntries([]); return; }
+    store.getEntries(selected.id).then(setEntries).catch(err => console.error(err));
+  }, [store, selected]);
+
+  const handleDelete = async (session: ConversationSession) => {
+    if (!window.confirm('Delete this conversation from this device?')) return;
+    await Promise.all([store.deleteSession(session.id), recordings.delete(session.id)]);
+    if (selected?.id === session.id) setSelected(null);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Conversation History"
+        tabIndex={-1}
+        className="glass-card bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl h-[80vh] flex overflow-hidden focus:outline-none"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="w-80 border-r border-slate-100 flex flex-col">
+          <div className="p-6 border-b border-slate-50 flex items-center justify-between">
+            <span className="font-black text-[10px] text-slate-400 uppercase tracking-widest">Conversation History</span>
+            <button onClick={onClose} aria-label="Close" className="p-2 hover:bg-slate-100 rounded-full transition-colors"><i className="fas fa-times" aria-hidden="true"></i></button>
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scrollbar">
+            {sessions.length === 0 && (
+              <p className="p-6 text-xs text-slate-400 text-center">No saved conversations yet.</p>
+            )}
+            {sessions.map(session => (
+              <button
+                key={session.id}
+                onClick={() => setSelected(session)}
+                className={`w-full text-left p-5 border-b border-slate-50 hover:bg-blue-50/50 transition-colors ${selected?.id === session.id ? 'bg-blue-50' : ''}`}
+              >
+                <p className="text-[11px] font-bold text-slate-700">{new Date(session.startedAt).toLocaleString()}</p>
+                <p className="text-[11px] text-slate-400 mt-1 truncate">{session.preview || 'No patient speech captured'}</p>
+                <div className="flex gap-3 mt-2 text-[9px] font-black uppercase tracking-widest text-slate-300">
+                  <span>{formatDuration(session)}</span>
+                  <span>{session.entryCount} turns</span>
+                  {session.bookingCount > 0 && <span className="text-emerald-500">{session.bookingCount} booking</span>}
+                  {session.flagged && <span className="text-indigo-500"><i className="fas fa-headset mr-1" aria-hidden="true"></i>Callback</span>}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col">
+          {selected ? (
+            <>
+              <div className="p-6 border-b border-slate-50 flex flex-wrap items-center gap-2">
+                <button onClick={() => downloadFile(transcriptFilename(selected, 'json'), exportTranscriptJson(selected, entries), 'application/json')} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-50 text-slate-500 hover:bg-blue-600 hover:text-white transition-all">JSON</button>
+                <button onClick={() => downloadFile(transcriptFilename(selected, 'txt'), exportTranscriptText(selected, entries), 'text/plain')} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-50 text-slate-500 hover:bg-blue-600 hover:text-white transition-all">Text</button>
+                <button onClick={() => downloadFile(transcriptFilename(selected, 'html'), exportTranscriptHtml(selected, entries), 'text/html')} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-50 text-slate-500 hover:bg-blue-600 hover:text-white transition-all">HTML</button>
+                <button onClick={() => printHtml(exportTranscriptHtml(selected, entries))} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-50 text-slate-500 hover:bg-blue-600 hover:text-white transition-all"><i className="fas fa-print mr-2" aria-hidden="true"></i>Print / PDF</button>
+                <div className="flex-1"></div>
+                <button onClick={() => handleDelete(selected)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-rose-400 hover:bg-rose-50 transition-all"><i className="fas fa-trash mr-2" aria-hidden="true"></i>Delete</button>
+              </div>
+              <div className="flex-1 overflow-y-auto p-6 space-y-4 custom-scrollbar bg-slate-50/30">
+                {entries.map((t, i) => (
+                  <div key={i} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'}`}>
+                    <div className={`max-w-[80%] p-4 rounded-3xl text-[12px] leading-relaxed shadow-sm ${
+                      t.role === 'user' ? 'bg-blue-600 text-white rounded-tr-none' : 'bg-white border border-slate-100 text-slate-600 rounded-tl-none'
+                    }`}>
+                      {t.text}
+                    </div>
+                    {t.bookings?.map(b => (
+                      <span key={b.appointmentId + b.tool} className="mt-1 text-[9px] font-black uppercase tracking-widest text-emerald-500">
+                        <i className="fas fa-calendar-check mr-1" aria-hidden="true"></i>{b.tool} {b.date} {b.time}
+                      </span>
+                    ))}
+                    <span className="mt-1 text-[9px] text-slate-300">{new Date(t.timestamp).toLocaleTimeString()}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center text-center opacity-20">
+              <i className="fas fa-clock-rotate-left text-4xl mb-4" aria-hidden="true"></i>
+              <p className="text-xs font-bold">Select a conversation to review or export it.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryBrowser;
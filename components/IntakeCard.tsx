@@ -0,0 +1,157 @@
+
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18n';
+import { formatTime } from '../services/scheduling';
+import { INTAKE_FIELDS, IntakeAnswers, IntakeDraft, IntakeDraftState, IntakeField, missingIntakeFields, parseIntakeAnswers } from '../services/intakeForm';
+
+interface IntakeCardProps {
+  draft: IntakeDraft;
+}
+
+type FormValues = Record<IntakeField, string>;
+
+const FIELD_LABELS: Record<IntakeField, MessageKey> = {
+  contactNumber: 'intakeContactNumber',
+  age: 'intakeAge',
+  patientType: 'intakePatientType',
+  medicalConditions: 'intakeMedicalConditions',
+  allergies: 'intakeAllergies'
+};
+
+const EMPTY_VALUES: FormValues = { contactNumber: '', age: '', patientType: '', medicalConditions: '', allergies: '' };
+
+function toFormValue(answers: Partial<IntakeAnswers>, field: IntakeField): string {
+  const value = answers[field];
+  if (value === undefined) return '';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : 'None';
+  return String(value);
+}
+
+const IntakeCard: React.FC<IntakeCardProps> = ({ draft }) => {
+  const { t } = useI18n();
+  const [state, setState] = useState<IntakeDraftState>(draft.current);
+  const [values, setValues] = useState<FormValues>(EMPTY_VALUES);
+  // Fields the patient typed in are not overwritten when Mia records a later answer.
+  const [edited, setEdited] = useState<Set<IntakeField>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => draft.on('change', next => {
+    setState(next);
+    if (!next.appointment && !Object.keys(next.answers).length) {
+      setValues(EMPTY_VALUES);
+      setEdited(new Set());
+    }
+  }), [draft]);
+
+  useEffect(() => {
+    setValues(prev => {
+      const next = { ...prev };
+      for (const field of INTAKE_FIELDS) {
+        if (!edited.has(field) && state.answers[field] !== undefined) next[field] = toFormValue(state.answers, field);
+      }
+      return next;
+    });
+  }, [state.answers, edited]);
+
+  if (!state.appointment && !Object.keys(state.answers).length) return null;
+
+  const handleChange = (field: IntakeField, value: string) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    setEdited(prev => new Set(prev).add(field));
+    setError(null);
+  };
+
+  const handleConfirm = async () => {
+    const raw = Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim()));
+    let answers: Partial<IntakeAnswers>;
+    try {
+      answers = parseIntakeAnswers(raw);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+    const missing = missingIntakeFields(answers);
+    if (missing.length) {
+      setError(t('intakeMissing', { fields: missing.map(field => t(FIELD_LABELS[field])).join(', ') }));
+      return;
+    }
+    setSaving(true);
+    try {
+      const result = await draft.confirm(answers as IntakeAnswers);
+      if (result.ok) setEdited(new Set());
+      else setError(result.error.reason);
+    } catch (err) {
+      console.error('Could not save the intake form', err);
+      setError(t('intakeSaveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-white border border-slate-100 rounded-xl px-3 py-2 text-xs focus:outline-none focus:ring-4 focus:ring-blue-500/10 transition-all';
+  const unsaved = !state.confirmed || edited.size > 0;
+
+  return (
+    <section className="glass-card rounded-[2rem] p-8 animate-in fade-in slide-in-from-top-4">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="w-12 h-12 bg-blue-50 rounded-2xl flex items-center justify-center text-blue-600 shrink-0">
+          <i className="fas fa-clipboard-list text-xl" aria-hidden="true"></i>
+        </div>
+        <div className="flex-1">
+          <h3 className="font-bold text-slate-900 text-sm">{t('intakeTitle')}</h3>
+          <p className="text-[11px] text-slate-400">
+            {state.appointment
+              ? t('intakeFor', { name: state.appointment.clientName, date: state.appointment.date, time: formatTime(state.appointment.startMinutes) })
+              : t('intakePending')}
+          </p>
+        </div>
+        {state.confirmed && !edited.size && (
+          <span className="px-3 py-1 rounded-full border text-[9px] font-black uppercase tracking-widest bg-emerald-50 text-emerald-600 border-emerald-100">{t('intakeSaved')}</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {INTAKE_FIELDS.map(field => (
+          <label key={field} className={field === 'medicalConditions' || field === 'allergies' ? 'md:col-span-2' : ''}>
+            <span className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1">
+              {t(FIELD_LABELS[field])}
+              {state.answers[field] !== undefined && <i className="fas fa-check text-emerald-500" aria-hidden="true"></i>}
+            </span>
+            {field === 'patientType' ? (
+              <select value={values.patientType} onChange={e => handleChange(field, e.target.value)} className={inputClass}>
+                <option value="">{t('intakeSelect')}</option>
+                <option value="new">{t('intakeNewPatient')}</option>
+                <option value="returning">{t('intakeReturningPatient')}</option>
+              </select>
+            ) : (
+              <input
+                type={field === 'age' ? 'number' : field === 'contactNumber' ? 'tel' : 'text'}
+                value={values[field]}
+                onChange={e => handleChange(field, e.target.value)}
+                placeholder={field === 'medicalConditions' || field === 'allergies' ? t('intakeListPlaceholder') : ''}
+                className={inputClass}
+              />
+            )}
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="mt-4 text-[11px] font-bold text-rose-500">{error}</p>}
+
+      <div className="mt-6 flex items-center justify-end gap-3">
+        {!state.appointment && <span className="text-[10px] text-slate-400">{t('intakeWaitingForBooking')}</span>}
+        <button
+          onClick={handleConfirm}
+          disabled={!state.appointment || saving || !unsaved}
+          className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-200 transition-all"
+        >
+          {saving ? t('intakeSaving') : state.confirmed && !edited.size ? t('intakeConfirmed') : t('intakeConfirm')}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default IntakeCard;
@@ -0,0 +1,156 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CallRecording, TranscriptionEntry } from '../types';
+import { HistoryStore } from '../services/historyStore';
+import { RecordingStore } from '../services/recordingStore';
+import { clinic } from '../services/clinicConfig';
+import { downloadFile } from '../utils/transcriptExport';
+
+interface RecordingsPanelProps {
+  recordings: RecordingStore;
+  history: HistoryStore;
+}
+
+function clock(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function markKey(turnId: string, role: TranscriptionEntry['role']): string {
+  return `${turnId}:${role}`;
+}
+
+function recordingFilename(recording: CallRecording): string {
+  const stamp = new Date(recording.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  return `mia-call-${stamp}.wav`;
+}
+
+const RecordingsPanel: React.FC<RecordingsPanelProps> = ({ recordings, history }) => {
+  const [list, setList] = useState<CallRecording[]>([]);
+  const [selected, setSelected] = useState<CallRecording | null>(null);
+  const [entries, setEntries] = useState<TranscriptionEntry[]>([]);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [positionMs, setPositionMs] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const refresh = () => {
+    recordings.list().then(setList).catch(err => console.error(err));
+  };
+
+  useEffect(refresh, [recordings]);
+
+  useEffect(() => {
+    setPositionMs(0);
+    if (!selected) {
+      setEntries([]);
+      setAudioUrl(null);
+      return;
+    }
+    history.getEntries(selected.sessionId).then(setEntries).catch(err => console.error(err));
+    const url = URL.createObjectURL(selected.audio);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [history, selected]);
+
+  const offsets = useMemo(
+    () => new Map(selected?.marks.map(mark => [markKey(mark.turnId, mark.role), mark.offsetMs]) ?? []),
+    [selected]
+  );
+
+  // The turn being played is the last one that started before the playhead.
+  const playing = useMemo(() => {
+    let current: TranscriptionEntry | null = null;
+    let start = -1;
+    for (const entry of entries) {
+      const offset = offsets.get(markKey(entry.turnId, entry.role));
+      if (offset !== undefined && offset <= positionMs && offset >= start) {
+        current = entry;
+        start = offset;
+      }
+    }
+    return current;
+  }, [entries, offsets, positionMs]);
+
+  const seekTo = (offsetMs: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = offsetMs / 1000;
+    audio.play().catch(() => undefined);
+  };
+
+  const handleDelete = async (recording: CallRecording) => {
+    if (!window.confirm('Delete this call recording? The transcript is kept.')) return;
+    await recordings.delete(recording.sessionId);
+    if (selected?.sessionId === recording.sessionId) setSelected(null);
+    refresh();
+  };
+
+  return (
+    <div className="glass-card rounded-[2rem] overflow-hidden flex min-h-[480px]">
+      <div className="w-72 border-r border-slate-100 flex flex-col">
+        {list.length === 0 && (
+          <p className="p-6 text-xs text-slate-400 text-center">No recorded calls yet. Calls are only recorded when the patient agrees.</p>
+        )}
+        {list.map(recording => (
+          <button
+            key={recording.sessionId}
+            onClick={() => setSelected(recording)}
+            className={`w-full text-left p-5 border-b border-slate-50 hover:bg-blue-50/50 transition-colors ${selected?.sessionId === recording.sessionId ? 'bg-blue-50' : ''}`}
+          >
+            <p className="text-[11px] font-bold text-slate-700">{new Date(recording.startedAt).toLocaleString()}</p>
+            <div className="flex gap-3 mt-2 text-[9px] font-black uppercase tracking-widest text-slate-300">
+              <span>{clock(recording.durationMs)}</span>
+              <span>{recording.marks.length} turns</span>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 flex flex-col">
+        {selected && audioUrl ? (
+          <>
+            <div className="p-6 border-b border-slate-50 space-y-3">
+              <audio
+                ref={audioRef}
+                src={audioUrl}
+                controls
+                className="w-full"
+                onTimeUpdate={e => setPositionMs(e.currentTarget.currentTime * 1000)}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="text-[10px] text-slate-400">Left channel: patient · Right channel: {clinic.assistant.name}</p>
+                <div className="flex-1"></div>
+                <button onClick={() => downloadFile(recordingFilename(selected), selected.audio, 'audio/wav')} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-50 text-slate-500 hover:bg-blue-600 hover:text-white transition-all">WAV</button>
+                <button onClick={() => handleDelete(selected)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-rose-400 hover:bg-rose-50 transition-all"><i className="fas fa-trash mr-2" aria-hidden="true"></i>Delete</button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6 space-y-3 custom-scrollbar bg-slate-50/30 max-h-[60vh]">
+              {entries.length === 0 && <p className="text-xs text-slate-400 text-center">No transcript was saved for this call.</p>}
+              {entries.map((entry, i) => {
+                const offset = offsets.get(markKey(entry.turnId, entry.role));
+                return (
+                  <button
+                    key={i}
+                    disabled={offset === undefined}
+                    onClick={() => offset !== undefined && seekTo(offset)}
+                    className={`w-full flex gap-3 text-left p-3 rounded-2xl transition-colors disabled:cursor-default ${playing === entry ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-white'}`}
+                  >
+                    <span className="w-12 shrink-0 text-[10px] font-bold text-slate-300">{offset !== undefined ? clock(offset) : '--:--'}</span>
+                    <span className="text-[12px] leading-relaxed text-slate-600">
+                      <span className={`font-black uppercase tracking-widest text-[9px] mr-2 ${entry.role === 'user' ? 'text-emerald-600' : 'text-blue-600'}`}>{entry.role === 'user' ? 'Patient' : clinic.assistant.name}</span>
+                      {entry.text}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        ) : (
+          <p className="m-auto text-xs text-slate-400">Select a call to play it. Click a line of the transcript to jump to it.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecordingsPanel;
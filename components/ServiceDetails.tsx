@@ -0,0 +1,77 @@
+
+import React, { useId } from 'react';
+import { DentalService } from '../types';
+import { formatPriceRange } from '../services/serviceCatalog';
+import { useI18n } from '../hooks/useI18n';
+import { useDialog } from '../hooks/useDialog';
+
+interface ServiceDetailsProps {
+  service: DentalService;
+  pricingNote: string;
+  onClose: () => void;
+}
+
+const ServiceDetails: React.FC<ServiceDetailsProps> = ({ service, pricingNote, onClose }) => {
+  const { t } = useI18n();
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const titleId = useId();
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="glass-card bg-white rounded-[2.5rem] shadow-2xl w-full max-w-xl max-h-[85vh] flex flex-col overflow-hidden focus:outline-none"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-8 border-b border-slate-50 flex items-start gap-5">
+          <div className="w-14 h-14 rounded-2xl bg-blue-500 flex items-center justify-center text-white shrink-0 shadow-sm">
+            <i className={`fas ${service.icon} text-2xl`} aria-hidden="true"></i>
+          </div>
+          <div className="flex-1">
+            <h3 id={titleId} className="font-bold text-slate-900 text-lg leading-tight">{service.title}</h3>
+            <p className="text-[11px] text-slate-500 mt-2 leading-relaxed">{service.description}</p>
+          </div>
+          <button onClick={onClose} aria-label={t('dismiss')} className="p-2 hover:bg-slate-100 rounded-full transition-colors"><i className="fas fa-times" aria-hidden="true"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-blue-50 rounded-2xl p-4">
+              <p className="text-[9px] font-black uppercase tracking-widest text-blue-400">{t('priceRange')}</p>
+              <p className="text-sm font-bold text-blue-900 mt-1">{formatPriceRange(service.price)}</p>
+            </div>
+            <div className="bg-slate-50 rounded-2xl p-4">
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{t('typicalDuration')}</p>
+              <p className="text-sm font-bold text-slate-800 mt-1">{t('minutes', { count: service.durationMinutes })}</p>
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-400 italic">{pricingNote}</p>
+
+          {[
+            { title: t('beforeYourVisit'), icon: 'fa-clipboard-list', notes: service.preparation },
+            { title: t('aftercare'), icon: 'fa-heart-pulse', notes: service.aftercare }
+          ].map(section => section.notes.length > 0 && (
+            <div key={section.title}>
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">
+                <i className={`fas ${section.icon} mr-2`} aria-hidden="true"></i>{section.title}
+              </p>
+              <ul className="space-y-2">
+                {section.notes.map((note, i) => (
+                  <li key={i} className="text-[12px] text-slate-600 leading-relaxed flex gap-3">
+                    <i className="fas fa-check text-emerald-500 text-[10px] mt-1" aria-hidden="true"></i>
+                    <span>{note}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ServiceDetails;
@@ -0,0 +1,334 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Appointment, AppointmentStatus } from '../types';
+import {
+  CLINIC_HOURS,
+  SERVICE_DURATIONS,
+  SLOT_INTERVAL_MINUTES,
+  BookingResult,
+  Scheduler,
+  SchedulingError,
+  formatDate,
+  formatTime,
+  parseDate,
+  parseTime
+} from '../services/scheduling';
+import { clinic } from '../services/clinicConfig';
+import { MetricsStore } from '../services/metricsStore';
+import { CallbackQueue } from '../services/handoff';
+import { HistoryStore } from '../services/historyStore';
+import { RecordingStore } from '../services/recordingStore';
+import AnalyticsPanel from './AnalyticsPanel';
+import CallbackQueuePanel from './CallbackQueuePanel';
+import RecordingsPanel from './RecordingsPanel';
+
+interface StaffDashboardProps {
+  scheduler: Scheduler;
+  metricsStore: MetricsStore;
+  callbackQueue: CallbackQueue;
+  historyStore: HistoryStore;
+  recordingStore: RecordingStore;
+}
+
+type View = 'list' | 'calendar' | 'callbacks' | 'recordings' | 'analytics';
+
+const STATUS_STYLES: Record<AppointmentStatus, string> = {
+  [AppointmentStatus.PENDING]: 'bg-amber-50 text-amber-600 border-amber-100',
+  [AppointmentStatus.CONFIRMED]: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  [AppointmentStatus.DECLINED]: 'bg-rose-50 text-rose-500 border-rose-100',
+  [AppointmentStatus.CANCELLED]: 'bg-slate-50 text-slate-400 border-slate-100'
+};
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function serviceName(appt: Appointment): string {
+  return SERVICE_DURATIONS.find(s => s.id === appt.serviceId)?.name ?? appt.purpose;
+}
+
+function startOfWeek(date: Date): Date {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+}
+
+function toTimeInput(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+const StaffDashboard: React.FC<StaffDashboardProps> = ({ scheduler, metricsStore, callbackQueue, historyStore, recordingStore }) => {
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [view, setView] = useState<View>('list');
+  const [dateFilter, setDateFilter] = useState('');
+  const [serviceFilter, setServiceFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<AppointmentStatus | ''>('');
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [editing, setEditing] = useState<{ id: string; date: string; time: string } | null>(null);
+  const [actionError, setActionError] = useState<{ id: string; error: Pick<SchedulingError, 'reason' | 'suggestedSlots'> } | null>(null);
+
+  useEffect(() => {
+    const off = scheduler.onChange(setAppointments);
+    scheduler.reload().catch(err => console.error(err));
+    // Bookings made by the patient view in another tab land in localStorage.
+    const onStorage = () => { scheduler.reload().catch(err => console.error(err)); };
+    window.addEventListener('storage', onStorage);
+    return () => {
+      off();
+      window.removeEventListener('storage', onStorage);
+    };
+  }, [scheduler]);
+
+  const filtered = useMemo(() => appointments
+    .filter(a => !dateFilter || a.date === dateFilter)
+    .filter(a => !serviceFilter || (serviceFilter === 'other' ? a.serviceId === null : a.serviceId === serviceFilter))
+    .filter(a => !statusFilter || a.status === statusFilter)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startMinutes - b.startMinutes),
+  [appointments, dateFilter, serviceFilter, statusFilter]);
+
+  const runAction = async (id: string, action: Promise<BookingResult>) => {
+    try {
+      const result = await action;
+      setActionError(result.ok ? null : { id, error: result.error });
+      return result.ok;
+    } catch (err: any) {
+      console.error(err);
+      setActionError({ id, error: { reason: `Could not save the change: ${err?.message || 'unknown error'}`, suggestedSlots: [] } });
+      return false;
+    }
+  };
+
+  const handleReschedule = async () => {
+    if (!editing) return;
+    const ok = await runAction(editing.id, scheduler.moveAppointment(editing.id, editing.date, editing.time));
+    if (ok) setEditing(null);
+  };
+
+  const weekDays = Array.from({ length: 7 }, (_, i) => new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i));
+  const openTimes = CLINIC_HOURS.filter((h): h is NonNullable<typeof h> => h !== null);
+  const dayStart = Math.min(...openTimes.map(h => h.open));
+  const dayEnd = Math.max(...openTimes.map(h => h.close));
+  const slotStarts: number[] = [];
+  for (let t = dayStart; t < dayEnd; t += SLOT_INTERVAL_MINUTES) slotStarts.push(t);
+
+  const counts = {
+    pending: appointments.filter(a => a.status === AppointmentStatus.PENDING).length,
+    confirmed: appointments.filter(a => a.status === AppointmentStatus.CONFIRMED).length,
+    today: appointments.filter(a => a.date === formatDate(new Date()) && a.status !== AppointmentStatus.CANCELLED).length
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="bg-white/90 backdrop-blur-xl border-b border-slate-100 sticky top-0 z-20 shadow-sm">
+        <div className="max-w-6xl mx-auto px-6 h-20 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-gradient-to-br from-slate-700 to-slate-900 rounded-2xl flex items-center justify-center text-white shadow-lg">
+              <i className="fas fa-clipboard-list text-2xl" aria-hidden="true"></i>
+            </div>
+            <div>
+              <h1 className="font-bold text-slate-900 text-xl tracking-tight">{clinic.brand.title} <span className="text-blue-600">STAFF</span></h1>
+              <p className="text-[9px] uppercase tracking-[0.2em] text-slate-400 font-black">Booking Requests</p>
+            </div>
+          </div>
+          <a href="#/" className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-100 hover:text-blue-600 transition-all">
+            <i className="fas fa-arrow-left mr-2" aria-hidden="true"></i>Patient View
+          </a>
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-6xl mx-auto w-full px-6 py-10 space-y-8">
+        <div className="grid grid-cols-3 gap-4">
+          {[
+            { label: 'Pending', value: counts.pending, icon: 'fa-hourglass-half', color: 'text-amber-500' },
+            { label: 'Confirmed', value: counts.confirmed, icon: 'fa-calendar-check', color: 'text-emerald-500' },
+            { label: 'Today', value: counts.today, icon: 'fa-sun', color: 'text-blue-500' }
+          ].map(card => (
+            <div key={card.label} className="glass-card rounded-2xl p-5 flex items-center gap-4">
+              <i className={`fas ${card.icon} text-2xl ${card.color}`} aria-hidden="true"></i>
+              <div>
+                <p className="text-2xl font-black text-slate-900">{card.value}</p>
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{card.label}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex bg-white border border-slate-100 rounded-xl p-1">
+            {(['list', 'calendar', 'callbacks', 'recordings', 'analytics'] as View[]).map(v => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${view === v ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-blue-600'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+          {(view === 'list' || view === 'calendar') && (
+            <>
+              <label className="flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                Date
+                <input type="date" value={dateFilter} onChange={e => setDateFilter(e.target.value)} className="bg-white border border-slate-100 rounded-xl px-3 py-2 text-xs text-slate-700 normal-case tracking-normal font-normal" />
+              </label>
+              <label className="flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                Service
+                <select value={serviceFilter} onChange={e => setServiceFilter(e.target.value)} className="bg-white border border-slate-100 rounded-xl px-3 py-2 text-xs text-slate-700 normal-case tracking-normal font-normal">
+                  <option value="">All services</option>
+                  {SERVICE_DURATIONS.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  <option value="other">Other / consultation</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                Status
+                <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as AppointmentStatus | '')} className="bg-white border border-slate-100 rounded-xl px-3 py-2 text-xs text-slate-700 normal-case tracking-normal font-normal">
+                  <option value="">All statuses</option>
+                  {Object.values(AppointmentStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </label>
+              {(dateFilter || serviceFilter || statusFilter) && (
+                <button onClick={() => { setDateFilter(''); setServiceFilter(''); setStatusFilter(''); }} className="px-3 py-2 text-[10px] font-bold text-slate-300 hover:text-rose-500 uppercase transition-colors">Reset</button>
+              )}
+            </>
+          )}
+        </div>
+
+        {view === 'analytics' ? (
+          <AnalyticsPanel store={metricsStore} />
+        ) : view === 'callbacks' ? (
+          <CallbackQueuePanel queue={callbackQueue} />
+        ) : view === 'recordings' ? (
+          <RecordingsPanel recordings={recordingStore} history={historyStore} />
+        ) : view === 'list' ? (
+          <div className="glass-card rounded-[2rem] overflow-hidden">
+            {filtered.length === 0 && (
+              <p className="p-10 text-center text-xs text-slate-400">No booking requests match these filters.</p>
+            )}
+            {filtered.map(appt => (
+              <div key={appt.id} className="p-5 border-b border-slate-50 last:border-0">
+                <div className="flex flex-wrap items-center gap-4">
+                  <div className="w-28 shrink-0">
+                    <p className="text-xs font-bold text-slate-700">{appt.date}</p>
+                    <p className="text-[11px] text-slate-400">{formatTime(appt.startMinutes)} · {appt.durationMinutes}m</p>
+                  </div>
+                  <div className="flex-1 min-w-[160px]">
+                    <p className="text-sm font-bold text-slate-800">
+                      {appt.clientName}
+                      {appt.reference && <span className="ml-2 text-[10px] font-black tracking-widest text-blue-500">{appt.reference}</span>}
+                    </p>
+                    <p className="text-[11px] text-slate-400">{serviceName(appt)}</p>
+                    {appt.intake && (
+                      <p className="text-[11px] text-slate-500 mt-1">
+                        <i className="fas fa-clipboard-check text-emerald-500 mr-1" aria-hidden="true"></i>
+                        {appt.intake.contactNumber} · {appt.intake.age} yrs · {appt.intake.patientType === 'new' ? 'New' : 'Returning'}
+                        {' · '}Conditions: {appt.intake.medicalConditions.join(', ') || 'None'}
+                        {' · '}Allergies: {appt.intake.allergies.join(', ') || 'None'}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`px-3 py-1 rounded-full border text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[appt.status]}`}>{appt.status}</span>
+                  {appt.status !== AppointmentStatus.CANCELLED && (
+                    <div className="flex gap-2">
+                      {appt.status !== AppointmentStatus.CONFIRMED && (
+                        <button onClick={() => runAction(appt.id, scheduler.setStatus(appt.id, AppointmentStatus.CONFIRMED))} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-emerald-50 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all">Confirm</button>
+                      )}
+                      {appt.status !== AppointmentStatus.DECLINED && (
+                        <button onClick={() => runAction(appt.id, scheduler.setStatus(appt.id, AppointmentStatus.DECLINED))} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-rose-50 text-rose-500 hover:bg-rose-500 hover:text-white transition-all">Decline</button>
+                      )}
+                      <button onClick={() => setEditing({ id: appt.id, date: appt.date, time: toTimeInput(appt.startMinutes) })} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-50 text-slate-500 hover:bg-blue-600 hover:text-white transition-all">Reschedule</button>
+                    </div>
+                  )}
+                </div>
+
+                {editing?.id === appt.id && (
+                  <div className="mt-4 flex flex-wrap items-center gap-3 pl-32">
+                    <input type="date" value={editing.date} onChange={e => setEditing({ ...editing, date: e.target.value })} className="bg-white border border-slate-100 rounded-xl px-3 py-2 text-xs" />
+                    <input type="time" step={SLOT_INTERVAL_MINUTES * 60} value={editing.time} onChange={e => setEditing({ ...editing, time: e.target.value })} className="bg-white border border-slate-100 rounded-xl px-3 py-2 text-xs" />
+                    <button onClick={handleReschedule} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-700 transition-all">Save</button>
+                    <button onClick={() => { setEditing(null); setActionError(null); }} className="px-3 py-2 text-[10px] font-bold text-slate-300 hover:text-rose-500 uppercase transition-colors">Cancel</button>
+                  </div>
+                )}
+
+                {actionError?.id === appt.id && (
+                  <div className="mt-3 pl-32 text-[11px] text-rose-500">
+                    <p className="font-bold">{actionError.error.reason}</p>
+                    {actionError.error.suggestedSlots.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {actionError.error.suggestedSlots.map(slot => (
+                          <button
+                            key={slot.date + slot.time}
+                            onClick={() => setEditing({ id: appt.id, date: slot.date, time: toTimeInput(parseTime(slot.time) ?? appt.startMinutes) })}
+                            className="px-3 py-1 rounded-full bg-white border border-rose-100 text-rose-500 hover:border-blue-400 hover:text-blue-600 transition-all"
+                          >
+                            {slot.date} {slot.time}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="glass-card rounded-[2rem] p-6 overflow-x-auto">
+            <div className="flex items-center justify-between mb-4">
+              <button onClick={() => setWeekStart(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() - 7))} aria-label="Previous week" className="p-2 hover:bg-slate-100 rounded-full transition-colors"><i className="fas fa-chevron-left" aria-hidden="true"></i></button>
+              <span className="font-black text-[10px] text-slate-400 uppercase tracking-widest">Week of {formatDate(weekStart)}</span>
+              <button onClick={() => setWeekStart(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 7))} aria-label="Next week" className="p-2 hover:bg-slate-100 rounded-full transition-colors"><i className="fas fa-chevron-right" aria-hidden="true"></i></button>
+            </div>
+            <div
+              className="grid min-w-[720px] text-[10px]"
+              style={{ gridTemplateColumns: '64px repeat(7, minmax(0, 1fr))', gridTemplateRows: `32px repeat(${slotStarts.length}, 28px)` }}
+            >
+              <div></div>
+              {weekDays.map((day, col) => (
+                <div key={col} className="text-center font-black uppercase tracking-widest text-slate-400" style={{ gridColumn: col + 2, gridRow: 1 }}>
+                  {DAY_LABELS[day.getDay()]} {day.getDate()}
+                </div>
+              ))}
+              {slotStarts.map((start, row) => (
+                <React.Fragment key={start}>
+                  <div className="text-right pr-2 text-slate-300" style={{ gridColumn: 1, gridRow: row + 2 }}>{start % 60 === 0 ? formatTime(start) : ''}</div>
+                  {weekDays.map((day, col) => {
+                    const hours = CLINIC_HOURS[day.getDay()];
+                    const open = hours !== null && start >= hours.open && start < hours.close;
+                    return (
+                      <div
+                        key={col}
+                        className={`border-t border-l border-slate-100 ${open ? 'bg-white' : 'bg-slate-100/60'}`}
+                        style={{ gridColumn: col + 2, gridRow: row + 2 }}
+                      />
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+              {filtered
+                .filter(a => a.status !== AppointmentStatus.CANCELLED)
+                .map(appt => {
+                  const day = parseDate(appt.date);
+                  if (!day) return null;
+                  const col = Math.round((day.getTime() - weekStart.getTime()) / 86400000);
+                  if (col < 0 || col > 6) return null;
+                  const row = Math.floor((appt.startMinutes - dayStart) / SLOT_INTERVAL_MINUTES);
+                  const span = Math.max(1, Math.ceil(appt.durationMinutes / SLOT_INTERVAL_MINUTES));
+                  return (
+                    <button
+                      key={appt.id}
+                      onClick={() => { setView('list'); setDateFilter(appt.date); }}
+                      className={`m-0.5 rounded-lg border px-2 py-1 text-left overflow-hidden z-10 ${STATUS_STYLES[appt.status]}`}
+                      style={{ gridColumn: col + 2, gridRow: `${row + 2} / span ${span}` }}
+                      title={`${appt.clientName} · ${serviceName(appt)}`}
+                    >
+                      <p className="font-bold truncate">{appt.clientName}</p>
+                      <p className="truncate opacity-75">{formatTime(appt.startMinutes)} {serviceName(appt)}</p>
+                    </button>
+                  );
+                })}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default StaffDashboard;
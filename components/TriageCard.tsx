@@ -0,0 +1,72 @@
+
+import React from 'react';
+import { TriageAssessment, Urgency } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { ClinicConfig } from '../services/clinicConfig';
+import { MessageKey } from '../services/i18n';
+
+interface TriageCardProps {
+  assessment: TriageAssessment;
+  emergency: ClinicConfig['emergency'];
+  onDismiss: () => void;
+}
+
+const URGENCY_STYLES: Record<Urgency, { title: MessageKey; icon: string; card: string; badge: string; hover: string }> = {
+  emergency: { title: 'triageEmergency', icon: 'fa-truck-medical', card: 'bg-rose-50 border-rose-200 text-rose-900', badge: 'bg-rose-600', hover: 'hover:bg-rose-100' },
+  urgent: { title: 'triageUrgent', icon: 'fa-triangle-exclamation', card: 'bg-amber-50 border-amber-200 text-amber-900', badge: 'bg-amber-500', hover: 'hover:bg-amber-100' },
+  routine: { title: 'triageRoutine', icon: 'fa-tooth', card: 'bg-sky-50 border-sky-100 text-sky-900', badge: 'bg-sky-500', hover: 'hover:bg-sky-100' }
+};
+
+function telHref(phone: string): string {
+  return `tel:${phone.replace(/[^\d+]/g, '')}`;
+}
+
+const TriageCard: React.FC<TriageCardProps> = ({ assessment, emergency, onDismiss }) => {
+  const { t } = useI18n();
+  const style = URGENCY_STYLES[assessment.urgency];
+
+  return (
+    <div role="alert" className={`border p-6 rounded-[2rem] shadow-sm animate-in zoom-in-95 ${style.card}`}>
+      <div className="flex items-center gap-5">
+        <div className={`w-12 h-12 rounded-full flex items-center justify-center text-white shadow-md shrink-0 ${style.badge}`}>
+          <i className={`fas ${style.icon} text-xl`} aria-hidden="true"></i>
+        </div>
+        <div className="flex-1">
+          <h4 className="font-bold text-sm">{t(style.title)}</h4>
+          {assessment.reasons.length > 0 && <p className="text-[11px] opacity-75">{assessment.reasons.join(' • ')}</p>}
+        </div>
+        <button onClick={onDismiss} aria-label={t('dismiss')} className={`p-2 rounded-full transition-colors ${style.hover}`}><i className="fas fa-times" aria-hidden="true"></i></button>
+      </div>
+
+      {assessment.guidance.length > 0 && (
+        <div className="mt-4">
+          <p className="text-[10px] font-black uppercase tracking-widest opacity-60 mb-2">{t('triageWhatToDo')}</p>
+          <ul className="space-y-1.5 text-xs">
+            {assessment.guidance.map(step => (
+              <li key={step} className="flex gap-2"><i className="fas fa-check mt-0.5 opacity-60" aria-hidden="true"></i><span>{step}</span></li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!assessment.clinicOpen && assessment.urgency !== 'routine' && (
+        <p className="mt-4 text-xs bg-white/70 rounded-2xl p-3"><span className="font-bold">{t('triageAfterHours')}</span> {emergency.afterHours}</p>
+      )}
+
+      {assessment.urgency !== 'routine' && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          <a href={telHref(emergency.phone)} className={`px-4 py-2 rounded-full text-white text-xs font-bold shadow-sm ${style.badge}`}>
+            <i className="fas fa-phone mr-2" aria-hidden="true"></i>{t('triageCallClinic')}: {emergency.phone}
+          </a>
+          {assessment.urgency === 'emergency' && (
+            <a href={telHref(emergency.hotline)} className="px-4 py-2 rounded-full bg-white border border-current text-xs font-bold">
+              <i className="fas fa-kit-medical mr-2" aria-hidden="true"></i>{t('triageHotline')}: {emergency.hotline}
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TriageCard;
@@ -1,27 +1,122 @@
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+
+export type VisualizerVariant = 'bars' | 'waveform' | 'orb';
 
 interface VoiceVisualizerProps {
   isActive: boolean;
+  /** Any CSS color; the canvas can't use Tailwind classes. */
   color: string;
+  /** Polled every animation frame, so the analyser can appear after mount without a re-render. */
+  getAnalyser: () => AnalyserNode | null;
+  variant?: VisualizerVariant;
+  barCount?: number;
+  width?: number;
+  height?: number;
+  /** Draws a steady shape that only shows who is talking, instead of following the voice. */
+  reducedMotion?: boolean;
 }
 
-const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ isActive, color }) => {
-  return (
-    <div className="flex items-center justify-center gap-1 h-12">
-      {[...Array(8)].map((_, i) => (
-        <div
-          key={i}
-          className={`w-1.5 rounded-full ${color} ${isActive ? 'wave-animation' : 'h-2'}`}
-          style={{
-            height: isActive ? `${Math.random() * 40 + 10}px` : '4px',
-            animationDelay: `${i * 0.1}s`,
-            opacity: isActive ? 1 : 0.3
-          }}
-        />
-      ))}
-    </div>
-  );
+// Voice energy lives in the lower part of the spectrum; the top bins are mostly noise.
+const SPEECH_BAND = 0.45;
+
+const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({
+  isActive,
+  color,
+  getAnalyser,
+  variant = 'bars',
+  barCount = 8,
+  width = 96,
+  height = 48,
+  reducedMotion = false
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Props read inside the loop go through a ref so changing them doesn't restart it.
+  const propsRef = useRef({ isActive, color, getAnalyser, variant, barCount, reducedMotion });
+  propsRef.current = { isActive, color, getAnalyser, variant, barCount, reducedMotion };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+
+    let frame = 0;
+    let buffer = new Uint8Array(0);
+
+    const draw = () => {
+      const { isActive, color, getAnalyser, variant, barCount, reducedMotion } = propsRef.current;
+      const analyser = isActive && !reducedMotion ? getAnalyser() : null;
+      ctx.clearRect(0, 0, width, height);
+      ctx.fillStyle = color;
+      ctx.strokeStyle = color;
+      ctx.globalAlpha = analyser || (isActive && reducedMotion) ? 1 : 0.3;
+
+      if (analyser && buffer.length !== analyser.fftSize) buffer = new Uint8Array(analyser.fftSize);
+
+      if (variant === 'waveform') {
+        if (analyser) analyser.getByteTimeDomainData(buffer);
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        const points = analyser ? buffer.length : 2;
+        for (let i = 0; i < points; i++) {
+          const x = (i / (points - 1)) * width;
+          const y = analyser ? (buffer[i] / 255) * height : height / 2;
+          if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      } else if (variant === 'orb') {
+        let level = 0;
+        if (analyser) {
+          analyser.getByteTimeDomainData(buffer);
+          let sum = 0;
+          for (let i = 0; i < buffer.length; i++) {
+            const v = (buffer[i] - 128) / 128;
+            sum += v * v;
+          }
+          level = Math.min(1, Math.sqrt(sum / buffer.length) * 4);
+        }
+        const maxRadius = Math.min(width, height) / 2;
+        const radius = maxRadius * (0.35 + 0.65 * level);
+        ctx.shadowColor = color;
+        ctx.shadowBlur = 12 * level;
+        ctx.beginPath();
+        ctx.arc(width / 2, height / 2, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.shadowBlur = 0;
+      } else {
+        if (analyser) analyser.getByteFrequencyData(buffer.subarray(0, analyser.frequencyBinCount));
+        const bins = analyser ? Math.floor(analyser.frequencyBinCount * SPEECH_BAND) : 0;
+        const gap = 4;
+        const barWidth = (width - gap * (barCount - 1)) / barCount;
+        for (let i = 0; i < barCount; i++) {
+          let value = 0;
+          if (bins > 0) {
+            const start = Math.floor((i / barCount) * bins);
+            const end = Math.max(start + 1, Math.floor(((i + 1) / barCount) * bins));
+            for (let b = start; b < end; b++) value = Math.max(value, buffer[b]);
+          }
+          const barHeight = Math.max(4, (value / 255) * height);
+          const x = i * (barWidth + gap);
+          const y = (height - barHeight) / 2;
+          const r = Math.min(barWidth / 2, barHeight / 2);
+          ctx.beginPath();
+          ctx.roundRect(x, y, barWidth, barHeight, r);
+          ctx.fill();
+        }
+      }
+      frame = requestAnimationFrame(draw);
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [width, height]);
+
+  return <canvas ref={canvasRef} style={{ width, height }} className="block" aria-hidden="true" />;
 };
 
 export default VoiceVisualizer;
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { useAccessibilityPrefs, usePushToTalkHotkey } from './useAccessibility';
+
+function press(type: 'keydown' | 'keyup', target: EventTarget = window, init: KeyboardEventInit = {}) {
+  target.dispatchEvent(new KeyboardEvent(type, { code: 'Space', key: ' ', bubbles: true, cancelable: true, ...init }));
+}
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  cleanup();
+  document.body.innerHTML = '';
+  document.documentElement.className = '';
+});
+
+describe('usePushToTalkHotkey', () => {
+  it('talks while Space is held and ignores key repeat', () => {
+    const setTalking = vi.fn();
+    renderHook(() => usePushToTalkHotkey(true, setTalking));
+
+    press('keydown');
+    press('keydown', window, { repeat: true });
+    expect(setTalking.mock.calls).toEqual([[true]]);
+    press('keyup');
+    expect(setTalking.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('leaves Space alone in text fields and when push-to-talk is off', () => {
+    const setTalking = vi.fn();
+    const { rerender } = renderHook(({ enabled }) => usePushToTalkHotkey(enabled, setTalking), { initialProps: { enabled: true } });
+    const input = document.body.appendChild(document.createElement('input'));
+    press('keydown', input);
+    expect(setTalking).not.toHaveBeenCalled();
+
+    rerender({ enabled: false });
+    press('keydown');
+    expect(setTalking).not.toHaveBeenCalled();
+  });
+
+  it('stops talking when the window loses focus mid-press', () => {
+    const setTalking = vi.fn();
+    renderHook(() => usePushToTalkHotkey(true, setTalking));
+    press('keydown');
+    window.dispatchEvent(new Event('blur'));
+    expect(setTalking).toHaveBeenLastCalledWith(false);
+  });
+});
+
+describe('useAccessibilityPrefs', () => {
+  it('remembers the choice and mirrors it to classes on <html>', () => {
+    const { result } = renderHook(() => useAccessibilityPrefs());
+    expect(result.current[0]).toEqual({ highContrast: false, reduceMotion: false });
+
+    act(() => result.current[1]({ highContrast: true }));
+    expect(document.documentElement.classList.contains('high-contrast')).toBe(true);
+    expect(JSON.parse(localStorage.getItem('gcmia.accessibility')!)).toEqual({ highContrast: true, reduceMotion: false });
+
+    cleanup();
+    const { result: reloaded } = renderHook(() => useAccessibilityPrefs());
+    expect(reloaded.current[0].highContrast).toBe(true);
+  });
+
+  it('starts from the system reduced-motion setting', () => {
+    vi.stubGlobal('matchMedia', (query: string) => ({ matches: query === '(prefers-reduced-motion: reduce)' }));
+    const { result } = renderHook(() => useAccessibilityPrefs());
+    expect(result.current[0]).toEqual({ highContrast: false, reduceMotion: true });
+    expect(document.documentElement.classList.contains('reduce-motion')).toBe(true);
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,99 @@
+
+import { useCallback, useEffect, useState } from 'react';
+
+export interface AccessibilityPrefs {
+  highContrast: boolean;
+  /** Stops the visualiser moving with the voice and turns off CSS animations. */
+  reduceMotion: boolean;
+}
+
+const STORAGE_KEY = 'gcmia.accessibility';
+
+function systemPrefers(query: string): boolean {
+  return typeof matchMedia === 'function' && matchMedia(query).matches;
+}
+
+function readPrefs(): AccessibilityPrefs {
+  const defaults: AccessibilityPrefs = {
+    highContrast: systemPrefers('(prefers-contrast: more)'),
+    reduceMotion: systemPrefers('(prefers-reduced-motion: reduce)')
+  };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {
+      highContrast: typeof stored.highContrast === 'boolean' ? stored.highContrast : defaults.highContrast,
+      reduceMotion: typeof stored.reduceMotion === 'boolean' ? stored.reduceMotion : defaults.reduceMotion
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+/**
+ * High contrast and reduced motion, starting from the operating system's settings and remembered
+ * once the patient changes them. Mirrored to classes on <html> for the stylesheet in index.html.
+ */
+export function useAccessibilityPrefs(): [AccessibilityPrefs, (changes: Partial<AccessibilityPrefs>) => void] {
+  const [prefs, setPrefs] = useState<AccessibilityPrefs>(readPrefs);
+
+  const update = useCallback((changes: Partial<AccessibilityPrefs>) => {
+    setPrefs(prev => {
+      const next = { ...prev, ...changes };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage access throws in sandboxed iframes with cookies disabled.
+      }
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const classes = document.documentElement.classList;
+    classes.toggle('high-contrast', prefs.highContrast);
+    classes.toggle('reduce-motion', prefs.reduceMotion);
+  }, [prefs]);
+
+  return [prefs, update];
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON', 'A'].includes(target.tagName);
+}
+
+/**
+ * Hold Space anywhere on the page to talk in push-to-talk mode. Ignored while a field or button has
+ * focus, where Space already types or clicks.
+ */
+export function usePushToTalkHotkey(enabled: boolean, setTalking: (talking: boolean) => void): void {
+  useEffect(() => {
+    if (!enabled) return;
+    let held = false;
+    const release = () => {
+      if (!held) return;
+      held = false;
+      setTalking(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (held || e.repeat) return;
+      held = true;
+      setTalking(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') release();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    // Switching windows mid-press never delivers the keyup.
+    window.addEventListener('blur', release);
+    return () => {
+      release();
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', release);
+    };
+  }, [enabled, setTalking]);
+}
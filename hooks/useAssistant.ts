@@ -0,0 +1,178 @@
+
+import { useMemo, useRef, useState } from 'react';
+import { Appointment, CallbackRequest, ConnectionStatus, TranscriptionEntry, TriageAssessment } from '../types';
+import { clinic, clinicOverrides } from '../services/clinicConfig';
+import { endpoints } from '../services/endpoints';
+import { buildGreeting, buildSystemInstruction } from '../services/clinicPrompt';
+import { scheduler, historyStore, metricsStore, callbackQueue, recordingStore } from '../services/appServices';
+import { createAssistantTools } from '../services/assistantTools';
+import { IntakeDraft } from '../services/intakeForm';
+import { LIVE_MODEL, TokenLiveTransport } from '../services/liveTransport';
+import { MockLiveTransport } from '../services/mockTransport';
+import { BrowserAudioPipeline } from '../services/audioPipeline';
+import { AssistantSession, InputMode, LiveSession } from '../services/liveSession';
+import { TextSession } from '../services/textSession';
+import { FallbackBackend, RemoteTextBackend } from '../services/conversationBackend';
+import { LocalFaqBackend } from '../services/faqResponder';
+import { attachHistory } from '../services/historyRecorder';
+import { attachMetrics } from '../services/metricsRecorder';
+import { CallRecorder, attachRecording } from '../services/callRecorder';
+import { Language } from '../services/i18n';
+import { useLiveSession, SessionAttachment, UseLiveSessionResult } from './useLiveSession';
+import { BookingCardState } from '../components/BookingCard';
+
+export type ChatMode = 'voice' | 'text';
+
+// Only sessions the patient agreed to record get a recorder, set by the session factory.
+const callRecorders = new WeakMap<AssistantSession, CallRecorder>();
+
+const sessionAttachments: SessionAttachment[] = [
+  session => attachHistory(session, historyStore),
+  session => attachMetrics(session, metricsStore),
+  session => {
+    const recorder = callRecorders.get(session);
+    return recorder ? attachRecording(session, recorder, recordingStore) : () => {};
+  }
+];
+
+export interface UseAssistantResult extends Omit<UseLiveSessionResult, 'start' | 'sendText'> {
+  chatMode: ChatMode;
+  /** Connecting, connected or reconnecting. */
+  isLive: boolean;
+  isTextMode: boolean;
+  intakeDraft: IntakeDraft;
+  bookingCard: BookingCardState | null;
+  dismissBooking(): void;
+  triage: TriageAssessment | null;
+  dismissTriage(): void;
+  callback: CallbackRequest | null;
+  dismissCallback(): void;
+  recordConsent: boolean;
+  setRecordConsent(consent: boolean): void;
+  isRecording: boolean;
+  startConversation(mode: ChatMode): void;
+  /** Sends a message, starting a text chat first when no conversation is running. */
+  send(text: string): void;
+}
+
+/**
+ * Everything a patient-facing view needs to talk to Mia: the tool registry, the text/voice session
+ * factory and the cards the tools raise. Shared by the full page and the embeddable widget.
+ */
+export function useAssistant(language: Language): UseAssistantResult {
+  const [bookingCard, setBookingCard] = useState<BookingCardState | null>(null);
+  const [triage, setTriage] = useState<TriageAssessment | null>(null);
+  const [callback, setCallback] = useState<CallbackRequest | null>(null);
+  // The handoff tool attaches these when it runs, long after the registry was built.
+  const transcriptRef = useRef<TranscriptionEntry[]>([]);
+  // The page keeps every conversation's entries; this picks out the running one's.
+  const sessionRef = useRef<AssistantSession | null>(null);
+  const triageRef = useRef<TriageAssessment | null>(null);
+  const [chatMode, setChatMode] = useState<ChatMode>('voice');
+  // Read by the session factory at start time, before the state update has rendered.
+  const chatModeRef = useRef<ChatMode>('voice');
+  const [recordConsent, setRecordConsent] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const languageConfig = clinic.languages[language];
+
+  const intakeDraft = useMemo(() => new IntakeDraft(scheduler), []);
+
+  const toolRegistry = useMemo(() => {
+    const showBooking = (appointment: Appointment) => setBookingCard({ stage: 'booked', appointment });
+    return createAssistantTools(clinic, {
+      scheduler,
+      intakeDraft,
+      callbackQueue,
+      scheduling: {
+        onProposed: appointment => setBookingCard({ stage: 'proposed', appointment }),
+        onBooked: appointment => {
+          showBooking(appointment);
+          intakeDraft.linkAppointment(appointment);
+        },
+        onRescheduled: showBooking
+      },
+      onAssessed: assessment => {
+        triageRef.current = assessment;
+        setTriage(assessment);
+      },
+      handoff: {
+        sessionId: () => sessionRef.current?.id || null,
+        transcript: () => transcriptRef.current,
+        urgency: () => triageRef.current?.urgency ?? null,
+        onQueued: setCallback
+      }
+    });
+  }, [intakeDraft]);
+
+  const createSession = (inputMode: InputMode): AssistantSession => {
+    if (chatModeRef.current === 'text') {
+      setIsRecording(false);
+      return new TextSession({
+        // Gemini through the session server first; the rule-based responder when that is unreachable or mocked.
+        backend: new FallbackBackend([
+          new RemoteTextBackend(endpoints.chat, language, clinicOverrides),
+          new LocalFaqBackend(clinic, language)
+        ]),
+        tools: toolRegistry,
+        greeting: languageConfig.greeting
+      });
+    }
+    const recorder = recordConsent ? new CallRecorder() : null;
+    const liveSession = new LiveSession({
+      transport: new TokenLiveTransport(endpoints.session, new MockLiveTransport(), LIVE_MODEL, endpoints.liveBaseUrl),
+      audio: new BrowserAudioPipeline(recorder),
+      tools: toolRegistry,
+      inputMode,
+      greeting: buildGreeting(clinic, language),
+      voiceName: languageConfig.voiceName,
+      systemInstruction: buildSystemInstruction(clinic, language)
+    });
+    if (recorder) callRecorders.set(liveSession, recorder);
+    setIsRecording(!!recorder);
+    return liveSession;
+  };
+
+  const { start, sendText, ...session } = useLiveSession(inputMode => {
+    sessionRef.current = createSession(inputMode);
+    return sessionRef.current;
+  }, sessionAttachments);
+  transcriptRef.current = session.transcriptions;
+
+  const { status } = session;
+  const isLive = status === ConnectionStatus.CONNECTED || status === ConnectionStatus.CONNECTING || status === ConnectionStatus.RECONNECTING;
+
+  const startConversation = (mode: ChatMode) => {
+    chatModeRef.current = mode;
+    setChatMode(mode);
+    intakeDraft.reset();
+    triageRef.current = null;
+    setTriage(null);
+    setCallback(null);
+    start();
+  };
+
+  const send = (text: string) => {
+    // Typing without a conversation running starts a text chat, so the page works without a microphone.
+    if (!isLive) startConversation('text');
+    sendText(text);
+  };
+
+  return {
+    ...session,
+    chatMode,
+    isLive,
+    isTextMode: chatMode === 'text',
+    intakeDraft,
+    bookingCard,
+    dismissBooking: () => setBookingCard(null),
+    triage,
+    dismissTriage: () => setTriage(null),
+    callback,
+    dismissCallback: () => setCallback(null),
+    recordConsent,
+    setRecordConsent,
+    isRecording,
+    startConversation,
+    send
+  };
+}
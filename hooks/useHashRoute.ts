@@ -0,0 +1,15 @@
+
+import { useEffect, useState } from 'react';
+
+/** Current location hash without the leading '#', e.g. '/staff'. */
+export function useHashRoute(): string {
+  const [route, setRoute] = useState(() => window.location.hash.replace(/^#/, ''));
+
+  useEffect(() => {
+    const onChange = () => setRoute(window.location.hash.replace(/^#/, ''));
+    window.addEventListener('hashchange', onChange);
+    return () => window.removeEventListener('hashchange', onChange);
+  }, []);
+
+  return route;
+}
@@ -0,0 +1,52 @@
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Language, Translate, createTranslator, isLanguage, languageProfile } from '../services/i18n';
+
+const STORAGE_KEY = 'gcmia.language';
+
+export interface I18n {
+  language: Language;
+  setLanguage(language: Language): void;
+  t: Translate;
+}
+
+export const I18nContext = createContext<I18n>({
+  language: 'english',
+  setLanguage: () => {},
+  t: createTranslator('english')
+});
+
+/** Strings for the language picked in the nearest I18nContext provider. */
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
+
+function readStoredLanguage(): Language | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLanguage(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The patient's language choice, remembered across visits and mirrored to <html lang>. */
+export function useLanguagePreference(defaultLanguage: Language): I18n {
+  const [language, setLanguageState] = useState<Language>(() => readStoredLanguage() ?? defaultLanguage);
+
+  const setLanguage = useCallback((next: Language) => {
+    setLanguageState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Storage access throws in sandboxed iframes with cookies disabled.
+    }
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = languageProfile(language).htmlLang;
+  }, [language]);
+
+  const t = useMemo(() => createTranslator(language), [language]);
+  return useMemo(() => ({ language, setLanguage, t }), [language, setLanguage, t]);
+}
@@ -0,0 +1,125 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ConnectionStatus, TranscriptionEntry } from '../types';
+import { AssistantSession, AudioSource, InputMode, LiveCaptions } from '../services/liveSession';
+
+export interface UseLiveSessionResult {
+  status: ConnectionStatus;
+  transcriptions: TranscriptionEntry[];
+  /** Partial text of the turn being spoken, for live captions; only voice sessions stream it. */
+  captions: LiveCaptions;
+  isUserSpeaking: boolean;
+  isAiSpeaking: boolean;
+  isProcessingTool: boolean;
+  errorMsg: string | null;
+  inputMode: InputMode;
+  setInputMode(mode: InputMode): void;
+  setTalking(talking: boolean): void;
+  /** Reads the live analyser without subscribing to React state; safe to call every frame. */
+  getAnalyser(source: AudioSource): AnalyserNode | null;
+  start(): void;
+  stop(): void;
+  sendText(text: string): void;
+  clearTranscriptions(): void;
+  reportError(message: string): void;
+}
+
+const NO_CAPTIONS: LiveCaptions = { user: '', assistant: '' };
+
+/** Subscribes extra behaviour (history, analytics...) to a freshly created session; returns a detach function. */
+export type SessionAttachment = (session: AssistantSession) => () => void;
+
+/**
+ * Owns one session (voice LiveSession or text-only TextSession) per start() call and mirrors its
+ * events into React state. `createSession` is read at start time, so it may close over the latest props.
+ */
+export function useLiveSession(createSession: (inputMode: InputMode) => AssistantSession, attachments: SessionAttachment[] = []): UseLiveSessionResult {
+  const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.DISCONNECTED);
+  const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
+  const [captions, setCaptions] = useState<LiveCaptions>(NO_CAPTIONS);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  const [isAiSpeaking, setIsAiSpeaking] = useState(false);
+  const [isProcessingTool, setIsProcessingTool] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [inputMode, setInputModeState] = useState<InputMode>('vad');
+
+  const sessionRef = useRef<AssistantSession | null>(null);
+  const createSessionRef = useRef(createSession);
+  createSessionRef.current = createSession;
+  const inputModeRef = useRef(inputMode);
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+  const detachRef = useRef<(() => void)[]>([]);
+
+  const stop = useCallback(() => {
+    sessionRef.current?.stop();
+    sessionRef.current = null;
+    // Also drops our own listeners, so late events from the stopped session don't reach React state.
+    detachRef.current.forEach(detach => detach());
+    detachRef.current = [];
+    setIsUserSpeaking(false);
+    setIsAiSpeaking(false);
+    setIsProcessingTool(false);
+    setCaptions(NO_CAPTIONS);
+  }, []);
+
+  const start = useCallback(() => {
+    sessionRef.current?.stop();
+    detachRef.current.forEach(detach => detach());
+    detachRef.current = [];
+    setErrorMsg(null);
+    setCaptions(NO_CAPTIONS);
+
+    const session = createSessionRef.current(inputModeRef.current);
+    sessionRef.current = session;
+    detachRef.current = [
+      ...attachmentsRef.current.map(attach => attach(session)),
+      session.on('status', setStatus),
+      session.on('transcript', entry => setTranscriptions(prev => [...prev, entry])),
+      session.on('captions', setCaptions),
+      session.on('speaking', ({ source, speaking }) => (source === 'input' ? setIsUserSpeaking : setIsAiSpeaking)(speaking)),
+      session.on('interrupted', () => setIsAiSpeaking(false)),
+      session.on('error', ({ message }) => setErrorMsg(message)),
+      session.on('toolCall', event => {
+        if (event.state === 'pending') setIsProcessingTool(true);
+        else setTimeout(() => setIsProcessingTool(false), 500);
+      })
+    ];
+    void session.start();
+  }, []);
+
+  const setInputMode = useCallback((mode: InputMode) => {
+    inputModeRef.current = mode;
+    setInputModeState(mode);
+    sessionRef.current?.setInputMode(mode);
+  }, []);
+  const setTalking = useCallback((talking: boolean) => sessionRef.current?.setTalking(talking), []);
+  const getAnalyser = useCallback((source: AudioSource) => sessionRef.current?.getAnalyser(source) ?? null, []);
+  const sendText = useCallback((text: string) => sessionRef.current?.sendText(text), []);
+  const clearTranscriptions = useCallback(() => setTranscriptions([]), []);
+  const reportError = useCallback((message: string) => {
+    setErrorMsg(message);
+    setStatus(ConnectionStatus.ERROR);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  return {
+    status,
+    transcriptions,
+    captions,
+    isUserSpeaking,
+    isAiSpeaking,
+    isProcessingTool,
+    errorMsg,
+    inputMode,
+    setInputMode,
+    setTalking,
+    getAnalyser,
+    start,
+    stop,
+    sendText,
+    clearTranscriptions,
+    reportError
+  };
+}
@@ -0,0 +1,90 @@
+
+import { Content, FunctionDeclaration, GoogleGenAI } from '@google/genai';
+import { assistantToolDeclarations } from '../services/assistantTools';
+import { ClinicConfig, ClinicConfigError, ClinicConfigOverrides, resolveClinicConfig } from '../services/clinicConfig';
+import { buildSystemInstruction } from '../services/clinicPrompt';
+import { Language, isLanguage } from '../services/i18n';
+
+export const TEXT_MODEL = 'gemini-2.5-flash';
+
+// The endpoint is public, so requests are bounded to what a clinic conversation needs.
+const MAX_CONTENTS = 80;
+const MAX_CACHED_CLINICS = 20;
+
+export interface ChatRequest {
+  language: Language;
+  /** clinic.config.ts plus the page's overrides, the same clinic the page's voice sessions use. */
+  clinic: ClinicConfig;
+  contents: Content[];
+}
+
+export class ChatRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatRequestError';
+  }
+}
+
+function isContent(value: unknown): value is Content {
+  const content = value as Content | null;
+  return !!content && (content.role === 'user' || content.role === 'model') && Array.isArray(content.parts);
+}
+
+function parseClinic(overrides: unknown): ClinicConfig {
+  if (overrides === undefined) return resolveClinicConfig({});
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) throw new ChatRequestError('clinic must be an object.');
+  try {
+    return resolveClinicConfig(overrides as ClinicConfigOverrides);
+  } catch (err) {
+    if (err instanceof ClinicConfigError) throw new ChatRequestError(err.message);
+    throw err;
+  }
+}
+
+/**
+ * The browser sends the conversation, the language and its clinic overrides. The server builds the prompt
+ * and tools from clinic.config.ts plus those overrides, validated like the widget's, never a prompt of its own.
+ */
+export function parseChatRequest(raw: unknown): ChatRequest {
+  const body = raw as { language?: unknown; clinic?: unknown; contents?: unknown } | null;
+  if (!body || !isLanguage(body.language) || !Array.isArray(body.contents)) {
+    throw new ChatRequestError('Expected { language, clinic, contents }.');
+  }
+  if (body.contents.length === 0 || body.contents.length > MAX_CONTENTS) throw new ChatRequestError(`contents must have 1-${MAX_CONTENTS} items.`);
+  if (!body.contents.every(isContent)) throw new ChatRequestError('Each content needs a user or model role and parts.');
+  return { language: body.language, clinic: parseClinic(body.clinic), contents: body.contents };
+}
+
+/** One generateContent round for the text fallback. Tool calls are returned to the browser, which runs them. */
+export class ChatProxy {
+  private readonly ai: GoogleGenAI;
+  // Most requests come with the same overrides, so their declarations are built once.
+  private readonly tools = new Map<string, FunctionDeclaration[]>();
+
+  constructor(apiKey: string, private readonly model: string = TEXT_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(request: ChatRequest): Promise<Content> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: request.contents,
+      config: {
+        systemInstruction: buildSystemInstruction(request.clinic, request.language),
+        tools: [{ functionDeclarations: this.declarationsFor(request.clinic) }]
+      }
+    });
+    return response.candidates?.[0]?.content ?? { role: 'model', parts: [] };
+  }
+
+  private declarationsFor(clinic: ClinicConfig): FunctionDeclaration[] {
+    const key = JSON.stringify(clinic);
+    let tools = this.tools.get(key);
+    if (!tools) {
+      if (this.tools.size >= MAX_CACHED_CLINICS) this.tools.clear();
+      tools = assistantToolDeclarations(clinic);
+      this.tools.set(key, tools);
+    }
+    return tools;
+  }
+}
@@ -0,0 +1,220 @@
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { ChatProxy, ChatRequest, ChatRequestError, parseChatRequest } from './chatProxy';
+import { readServerConfig } from './config';
+import { DailyCap, RateLimiter, SessionLeases } from './limits';
+import { createNotificationRoutes } from './notificationChannels';
+import { FileOutbox, NotificationRequestError, Notifier, parseBookingEvent } from './notifier';
+import { GenAiTokenIssuer, TokenIssuer } from './tokenIssuer';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: use the real environment, or mock mode when it has no key either.
+}
+
+const config = readServerConfig();
+const issuer: TokenIssuer | null = config.apiKey ? new GenAiTokenIssuer(config.apiKey) : null;
+const chat: ChatProxy | null = config.apiKey ? new ChatProxy(config.apiKey) : null;
+const limiter = new RateLimiter(config.tokensPerMinute, 60_000);
+const chatLimiter = new RateLimiter(config.chatMessagesPerMinute, 60_000);
+const chatDaily = new DailyCap(config.dailyChatCap);
+const leases = new SessionLeases(config.maxSessionsPerIp, config.dailySessionCap);
+const notifyLimiter = new RateLimiter(config.notifications.perMinute, 60_000);
+const notifier = new Notifier(createNotificationRoutes(config.notifications), new FileOutbox(config.notifications.outboxFile), {
+  maxAttempts: config.notifications.maxAttempts
+});
+
+// Text chat requests carry the conversation so far; anything larger is not a real patient.
+const MAX_BODY_BYTES = 256 * 1024;
+
+setInterval(() => {
+  limiter.prune();
+  chatLimiter.prune();
+  notifyLimiter.prune();
+  leases.prune();
+}, 60_000).unref();
+
+function clientIp(req: IncomingMessage): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (config.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function isSameOrigin(origin: string, host: string | undefined): boolean {
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false; // "null" from sandboxed frames and file:// pages
+  }
+}
+
+/** Returns false (and answers the request) when a cross-origin caller isn't on the allow list. */
+function applyCors(req: IncomingMessage, res: ServerResponse): boolean {
+  const origin = req.headers.origin;
+  // Browsers send Origin on same-origin POSTs too; those (and the Vite dev proxy) keep the Host header.
+  if (!origin || isSameOrigin(origin, req.headers.host)) return true;
+  if (!config.allowedOrigins.includes(origin)) {
+    sendJson(res, 403, { error: 'ORIGIN_NOT_ALLOWED', reason: 'This origin may not request sessions.' });
+    return false;
+  }
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  return true;
+}
+
+function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ChatRequestError('Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new ChatRequestError('Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function rateLimited(res: ServerResponse, waitMs: number, reason: string): void {
+  const retryAfterSeconds = Math.ceil(waitMs / 1000);
+  sendJson(res, 429, { error: 'RATE_LIMITED', reason, retryAfterSeconds }, { 'Retry-After': String(retryAfterSeconds) });
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (!issuer) {
+    sendJson(res, 200, { mode: 'mock' });
+    return;
+  }
+
+  const ip = clientIp(req);
+  const waitMs = limiter.take(ip);
+  if (waitMs > 0) {
+    rateLimited(res, waitMs, 'Too many session requests. Please wait a moment.');
+    return;
+  }
+
+  const expiresAt = Date.now() + config.sessionMinutes * 60_000;
+  const denied = leases.acquire(ip, expiresAt);
+  if (denied) {
+    const reason = denied === 'TOO_MANY_SESSIONS'
+      ? 'Too many open consultations from this connection. End one and try again.'
+      : 'The assistant has reached its daily limit. Please call the clinic directly.';
+    sendJson(res, 429, { error: denied, reason });
+    return;
+  }
+
+  try {
+    sendJson(res, 200, { mode: 'token', ...(await issuer.issue(expiresAt)) });
+  } catch (err) {
+    leases.release(ip, expiresAt);
+    console.error('Token request failed', err);
+    sendJson(res, 502, { error: 'TOKEN_FAILED', reason: 'Could not start a session right now. Please try again.' });
+  }
+}
+
+async function handleChat(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (!chat) {
+    sendJson(res, 200, { mode: 'mock' });
+    return;
+  }
+
+  const waitMs = chatLimiter.take(clientIp(req));
+  if (waitMs > 0) {
+    rateLimited(res, waitMs, 'You are sending messages too quickly. Please wait a moment.');
+    return;
+  }
+
+  let request: ChatRequest;
+  try {
+    request = parseChatRequest(await readJson(req));
+  } catch (err) {
+    const reason = err instanceof ChatRequestError ? err.message : 'Could not read the request.';
+    sendJson(res, 400, { error: 'BAD_REQUEST', reason });
+    return;
+  }
+
+  if (!chatDaily.take()) {
+    sendJson(res, 429, { error: 'DAILY_CAP_REACHED', reason: 'The assistant has reached its daily limit. Please call the clinic directly.' });
+    return;
+  }
+
+  try {
+    sendJson(res, 200, { mode: 'text', content: await chat.generate(request) });
+  } catch (err) {
+    console.error('Chat request failed', err);
+    sendJson(res, 502, { error: 'CHAT_FAILED', reason: 'The assistant could not answer right now. Please try again.' });
+  }
+}
+
+async function handleNotify(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  // applyCors has already turned away origins that aren't allowed; scripts without one are turned away here.
+  if (!req.headers.origin) {
+    sendJson(res, 403, { error: 'ORIGIN_NOT_ALLOWED', reason: 'Booking updates are only accepted from the app.' });
+    return;
+  }
+  const waitMs = notifyLimiter.take(clientIp(req));
+  if (waitMs > 0) {
+    rateLimited(res, waitMs, 'Too many booking updates. Please wait a moment.');
+    return;
+  }
+
+  try {
+    const event = parseBookingEvent(await readJson(req));
+    const entries = await notifier.dispatch(event);
+    sendJson(res, 202, { queued: entries.length });
+  } catch (err) {
+    if (err instanceof ChatRequestError || err instanceof NotificationRequestError) {
+      sendJson(res, 400, { error: 'BAD_REQUEST', reason: err.message });
+      return;
+    }
+    console.error('Notification request failed', err);
+    sendJson(res, 500, { error: 'NOTIFY_FAILED', reason: 'Could not queue the notification.' });
+  }
+}
+
+const server = createServer((req, res) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (!applyCors(req, res)) return;
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST', 'Access-Control-Allow-Headers': 'Content-Type' });
+    res.end();
+  } else if (path === '/api/health' && req.method === 'GET') {
+    sendJson(res, 200, { ok: true, mode: issuer ? 'token' : 'mock' });
+  } else if (path === '/api/live-token' && req.method === 'POST') {
+    void handleToken(req, res);
+  } else if (path === '/api/chat' && req.method === 'POST') {
+    void handleChat(req, res);
+  } else if (path === '/api/notify' && req.method === 'POST') {
+    void handleNotify(req, res);
+  } else {
+    sendJson(res, 404, { error: 'NOT_FOUND' });
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`Session server on http://localhost:${config.port} (${issuer ? 'token' : 'mock'} mode)`);
+  if (!notifier.channelCount) console.log('No notification channels configured; booking events will not be sent anywhere.');
+});
+
+notifier.resume().then(
+  count => { if (count) console.log(`Resuming ${count} pending notification(s)`); },
+  err => console.error('Could not resume pending notifications', err)
+);
@@ -0,0 +1,94 @@
+
+/** Sliding-window limiter keyed by client IP. */
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  /** Records a hit and returns 0 when allowed, otherwise the milliseconds until the next hit would be. */
+  take(key: string, now = Date.now()): number {
+    const recent = (this.hits.get(key) ?? []).filter(t => t > now - this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return recent[0] + this.windowMs - now;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  /** Drops keys with no recent hits so the map doesn't grow with every visitor. */
+  prune(now = Date.now()): void {
+    for (const [key, times] of this.hits) {
+      if (times.every(t => t <= now - this.windowMs)) this.hits.delete(key);
+    }
+  }
+}
+
+/** Counts uses per UTC day across all visitors, so a busy or abusive day can't run up an unbounded bill. */
+export class DailyCap {
+  private day = '';
+  private used = 0;
+
+  constructor(private readonly cap: number) {}
+
+  /** Counts one use and returns true, or false once today's cap is reached. */
+  take(now = Date.now()): boolean {
+    const today = new Date(now).toISOString().slice(0, 10);
+    if (today !== this.day) {
+      this.day = today;
+      this.used = 0;
+    }
+    if (this.used >= this.cap) return false;
+    this.used++;
+    return true;
+  }
+
+  /** Gives back a use that never reached the model. */
+  refund(): void {
+    this.used = Math.max(0, this.used - 1);
+  }
+}
+
+export type LeaseDenial = 'TOO_MANY_SESSIONS' | 'DAILY_CAP_REACHED';
+
+/**
+ * Tracks issued tokens until they expire. A token can't be revoked once it leaves the server,
+ * so its expiry is the only reliable end of a session; that is what the caps count.
+ */
+export class SessionLeases {
+  private readonly leases = new Map<string, number[]>();
+  private readonly daily: DailyCap;
+
+  constructor(private readonly maxPerIp: number, dailyCap: number) {
+    this.daily = new DailyCap(dailyCap);
+  }
+
+  acquire(key: string, expiresAt: number, now = Date.now()): LeaseDenial | null {
+    const active = (this.leases.get(key) ?? []).filter(t => t > now);
+    if (active.length >= this.maxPerIp) {
+      this.leases.set(key, active);
+      return 'TOO_MANY_SESSIONS';
+    }
+    if (!this.daily.take(now)) return 'DAILY_CAP_REACHED';
+    active.push(expiresAt);
+    this.leases.set(key, active);
+    return null;
+  }
+
+  /** Gives back a lease whose token was never delivered, e.g. because issuing it failed. */
+  release(key: string, expiresAt: number): void {
+    const active = this.leases.get(key);
+    const index = active?.indexOf(expiresAt) ?? -1;
+    if (active && index >= 0) {
+      active.splice(index, 1);
+      this.daily.refund();
+    }
+  }
+
+  prune(now = Date.now()): void {
+    for (const [key, times] of this.leases) {
+      if (times.every(t => t <= now)) this.leases.delete(key);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+
+import { createHmac } from 'node:crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import { NotificationSettings } from './config';
+import { NotificationChannel, NotificationRoute, OutgoingMessage } from './notifier';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+async function postJson(url: string, body: string, headers: Record<string, string>): Promise<void> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!res.ok) throw new Error(`${new URL(url).host} responded with ${res.status}.`);
+}
+
+/**
+ * POSTs { to, subject, text, event } as JSON. With a secret, the body is signed in
+ * X-Mia-Signature as sha256=<hex HMAC> so the receiver can tell the message came from this server.
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(private readonly url: string, private readonly secret: string | null = null) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const body = JSON.stringify(message);
+    const headers: Record<string, string> = {};
+    if (this.secret) headers['X-Mia-Signature'] = `sha256=${createHmac('sha256', this.secret).update(body).digest('hex')}`;
+    await postJson(this.url, body, headers);
+  }
+}
+
+export class SmtpChannel implements NotificationChannel {
+  readonly name = 'email';
+
+  /** Any nodemailer transport works; tests can pass createTransport({ jsonTransport: true }). */
+  constructor(private readonly transport: Transporter, private readonly from: string) {}
+
+  static fromUrl(url: string, from: string): SmtpChannel {
+    return new SmtpChannel(nodemailer.createTransport(url), from);
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await this.transport.sendMail({ from: this.from, to: message.to, subject: message.subject, text: message.text });
+  }
+}
+
+/** Generic HTTP SMS gateway: POSTs { to, from, message } with a bearer key. */
+export class SmsGatewayChannel implements NotificationChannel {
+  readonly name = 'sms';
+
+  constructor(private readonly url: string, private readonly apiKey: string | null, private readonly sender: string) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    await postJson(this.url, JSON.stringify({ to: message.to, from: this.sender, message: message.text }), headers);
+  }
+}
+
+/** Records messages instead of sending them. failNext() makes the next sends throw, to exercise retries. */
+export class MemoryChannel implements NotificationChannel {
+  readonly sent: OutgoingMessage[] = [];
+  private failures = 0;
+
+  constructor(readonly name = 'memory') {}
+
+  failNext(times = 1): void {
+    this.failures += times;
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error(`${this.name} is failing on purpose.`);
+    }
+    this.sent.push(message);
+  }
+}
+
+/** One route per configured channel; coordinators hear about everything, patients only by SMS when enabled. */
+export function createNotificationRoutes(settings: NotificationSettings): NotificationRoute[] {
+  const routes: NotificationRoute[] = [];
+  if (settings.webhookUrl) {
+    routes.push({ channel: new WebhookChannel(settings.webhookUrl, settings.webhookSecret), audience: 'coordinator', recipients: () => ['coordinators'] });
+  }
+  if (settings.smtpUrl && settings.emailTo.length) {
+    routes.push({ channel: SmtpChannel.fromUrl(settings.smtpUrl, settings.emailFrom), audience: 'coordinator', recipients: () => settings.emailTo });
+  }
+  if (settings.smsGatewayUrl) {
+    const sms = new SmsGatewayChannel(settings.smsGatewayUrl, settings.smsApiKey, settings.smsSender);
+    if (settings.smsTo.length) routes.push({ channel: sms, audience: 'coordinator', recipients: () => settings.smsTo });
+    if (settings.patientSms) {
+      routes.push({ channel: sms, audience: 'patient', recipients: event => (event.appointment.intake ? [event.appointment.intake.contactNumber] : []) });
+    }
+  }
+  return routes;
+}
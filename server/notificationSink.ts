@@ -0,0 +1,68 @@
+
+import { createServer, IncomingMessage } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { pathToFileURL } from 'node:url';
+
+export interface SinkRequest {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+export interface NotificationSink {
+  url: string;
+  received: SinkRequest[];
+  /** The next `times` requests get a 503, to exercise the notifier's retries. */
+  failNext(times?: number): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Local stand-in for a webhook receiver or SMS gateway: records every POST and answers 200.
+ * Point NOTIFY_WEBHOOK_URL or SMS_GATEWAY_URL at it during development (npm run notify-sink).
+ */
+export function startNotificationSink(port = 0, log = false): Promise<NotificationSink> {
+  const received: SinkRequest[] = [];
+  let failures = 0;
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      if (failures > 0) {
+        failures--;
+        res.writeHead(503).end();
+        return;
+      }
+      const raw = Buffer.concat(chunks).toString('utf8');
+      let body: unknown = raw;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        // Keep non-JSON bodies as text.
+      }
+      const request = { path: req.url ?? '/', headers: req.headers, body };
+      received.push(request);
+      if (log) console.log(JSON.stringify({ path: request.path, body }, null, 2));
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}');
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const { port: bound } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${bound}`,
+        received,
+        failNext: (times = 1) => { failures += times; },
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const sink = await startNotificationSink(Number(process.env.SINK_PORT) || 8790, true);
+  console.log(`Notification sink on ${sink.url}; every POST is printed below.`);
+}
@@ -0,0 +1,89 @@
+
+import { Appointment } from '../types';
+import { BookingEvent, BookingEventType } from '../services/bookingEvents';
+import { ClinicConfig, clinic as defaultClinic } from '../services/clinicConfig';
+import { formatTime, parseDate, serviceNameOf } from '../services/scheduling';
+
+export type Audience = 'coordinator' | 'patient';
+
+export interface RenderedMessage {
+  subject: string;
+  text: string;
+}
+
+type Template = (appointment: Appointment, when: string, clinic: ClinicConfig) => RenderedMessage;
+
+function longDate(appointment: Appointment): string {
+  const date = parseDate(appointment.date)!.toLocaleDateString('en-PH', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+  return `${date}, ${formatTime(appointment.startMinutes)}`;
+}
+
+function label(appointment: Appointment): string {
+  return appointment.reference ?? appointment.id;
+}
+
+function coordinatorDetails(appointment: Appointment, when: string): string {
+  const intake = appointment.intake;
+  return [
+    `Reference: ${label(appointment)}`,
+    `Patient: ${appointment.clientName}`,
+    `Service: ${serviceNameOf(appointment)}`,
+    `When: ${when} (${appointment.durationMinutes} min)`,
+    `Status: ${appointment.status}`,
+    intake ? `Contact: ${intake.contactNumber}` : null,
+    intake ? `Age: ${intake.age} (${intake.patientType} patient)` : null,
+    intake?.medicalConditions.length ? `Medical conditions: ${intake.medicalConditions.join(', ')}` : null,
+    intake?.allergies.length ? `Allergies: ${intake.allergies.join(', ')}` : null
+  ].filter(Boolean).join('\n');
+}
+
+const COORDINATOR: Record<BookingEventType, Template> = {
+  'booking.created': (a, when) => ({
+    subject: `New booking request ${label(a)}: ${a.clientName}, ${when}`,
+    text: `A patient booked through the assistant. Please confirm or decline it in the staff dashboard.\n\n${coordinatorDetails(a, when)}`
+  }),
+  'booking.rescheduled': (a, when) => ({
+    subject: `Booking ${label(a)} moved to ${when}`,
+    text: `This booking was rescheduled and needs confirming again.\n\n${coordinatorDetails(a, when)}`
+  }),
+  'booking.cancelled': (a, when) => ({
+    subject: `Booking ${label(a)} cancelled: ${a.clientName}, ${when}`,
+    text: `The slot is free again.\n\n${coordinatorDetails(a, when)}`
+  }),
+  'booking.confirmed': (a, when) => ({
+    subject: `Booking ${label(a)} confirmed`,
+    text: coordinatorDetails(a, when)
+  }),
+  'booking.declined': (a, when) => ({
+    subject: `Booking ${label(a)} declined`,
+    text: coordinatorDetails(a, when)
+  })
+};
+
+// SMS-length; patients get nothing for their own new booking because the assistant already read it back.
+const PATIENT: Partial<Record<BookingEventType, Template>> = {
+  'booking.confirmed': (a, when, clinic) => ({
+    subject: 'Appointment confirmed',
+    text: `${clinic.name}: Hi ${a.clientName}, your ${serviceNameOf(a)} on ${when} is confirmed. Ref ${label(a)}.`
+  }),
+  'booking.declined': (a, when, clinic) => ({
+    subject: 'Appointment not available',
+    text: `${clinic.name}: Hi ${a.clientName}, sorry, we can't take your ${when} request (ref ${label(a)}). Please book another time with ${clinic.assistant.name}.`
+  }),
+  'booking.rescheduled': (a, when, clinic) => ({
+    subject: 'Appointment moved',
+    text: `${clinic.name}: Hi ${a.clientName}, your appointment (ref ${label(a)}) is now ${when}. We'll confirm it shortly.`
+  }),
+  'booking.cancelled': (a, when, clinic) => ({
+    subject: 'Appointment cancelled',
+    text: `${clinic.name}: Your ${when} appointment (ref ${label(a)}) is cancelled. Book again anytime with ${clinic.assistant.name}.`
+  })
+};
+
+/** Null when this audience isn't told about this kind of event. */
+export function renderNotification(event: BookingEvent, audience: Audience, clinic: ClinicConfig = defaultClinic): RenderedMessage | null {
+  const template = audience === 'coordinator' ? COORDINATOR[event.type] : PATIENT[event.type];
+  if (!template) return null;
+  const rendered = template(event.appointment, longDate(event.appointment), clinic);
+  return audience === 'coordinator' ? { ...rendered, subject: `[${clinic.name}] ${rendered.subject}` } : rendered;
+}
@@ -0,0 +1,100 @@
+// @vitest-environment node
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AppointmentStatus } from '../types';
+import { BookingEvent, createBookingEvent } from '../services/bookingEvents';
+import { FileOutbox, MemoryOutbox, NotificationChannel, NotificationRoute, Notifier, OutgoingMessage } from './notifier';
+
+function bookingCreated(): BookingEvent {
+  return createBookingEvent('booking.created', 'patient', {
+    id: 'appt-1',
+    reference: 'GCM-7K3Q9P',
+    clientName: 'Juan Dela Cruz',
+    date: '2030-01-02',
+    startMinutes: 17 * 60,
+    durationMinutes: 60,
+    serviceId: null,
+    purpose: 'cleaning',
+    status: AppointmentStatus.PENDING,
+    createdAt: 0
+  }, 0);
+}
+
+/** Fails the first `failures` sends, then accepts. */
+function channel(failures = 0): NotificationChannel & { sent: OutgoingMessage[]; calls: number } {
+  return {
+    name: 'email',
+    sent: [],
+    calls: 0,
+    async send(message) {
+      this.calls++;
+      if (this.calls <= failures) throw new Error('SMTP unavailable');
+      this.sent.push(message);
+    }
+  };
+}
+
+const route = (ch: NotificationChannel): NotificationRoute => ({ channel: ch, audience: 'coordinator', recipients: () => ['frontdesk@clinic.example'] });
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir) await rm(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+describe('Notifier', () => {
+  it('sends each event once, however often it is posted', async () => {
+    const email = channel();
+    const notifier = new Notifier([route(email)], new MemoryOutbox());
+    const event = bookingCreated();
+
+    const [first, second] = await Promise.all([notifier.dispatch(event), notifier.dispatch(event)]);
+    expect(await notifier.dispatch(event)).toEqual([]);
+    await notifier.idle();
+
+    expect([first.length, second.length]).toEqual([1, 0]);
+    expect(email.sent).toHaveLength(1);
+  });
+
+  it('retries with backoff and marks the message failed after the last attempt', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const email = channel(Infinity);
+    const outbox = new MemoryOutbox();
+    const sleeps: number[] = [];
+    const notifier = new Notifier([route(email)], outbox, {
+      maxAttempts: 3,
+      retryDelayMs: 1000,
+      sleep: async ms => { sleeps.push(ms); }
+    });
+
+    await notifier.dispatch(bookingCreated());
+    await notifier.idle();
+
+    expect(email.calls).toBe(3);
+    expect(sleeps).toEqual([1000, 2000]);
+    const [entry] = await outbox.list();
+    expect(entry).toMatchObject({ status: 'failed', attempts: 3, lastError: 'SMTP unavailable' });
+  });
+
+  it('delivers messages still pending in the outbox file after a restart', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'mia-outbox-'));
+    const path = join(tempDir, 'outbox.json');
+    // The first process queued the message, then stopped before it went out.
+    const never = new Promise<void>(() => {});
+    const before = new Notifier([route(channel(Infinity))], new FileOutbox(path), { sleep: () => never });
+    await before.dispatch(bookingCreated());
+    await vi.waitFor(async () => expect((await new FileOutbox(path).list())[0]?.attempts).toBe(1));
+
+    const email = channel();
+    const outbox = new FileOutbox(path);
+    const after = new Notifier([route(email)], outbox, { sleep: async () => {} });
+    expect(await after.resume()).toBe(1);
+    await after.idle();
+
+    expect(email.sent).toHaveLength(1);
+    expect((await new FileOutbox(path).list())[0]).toMatchObject({ status: 'sent', attempts: 2 });
+  });
+});
@@ -0,0 +1,313 @@
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { AppointmentStatus } from '../types';
+import { BOOKING_EVENT_TYPES, BookingEvent, BookingEventType } from '../services/bookingEvents';
+import { Audience, renderNotification } from './notificationTemplates';
+
+export interface OutgoingMessage {
+  /** Email address, phone number or, for webhooks, the audience name. */
+  to: string;
+  subject: string;
+  text: string;
+  event: BookingEvent;
+}
+
+export interface NotificationChannel {
+  /** Stored in the outbox so pending entries find their channel again after a restart. */
+  readonly name: string;
+  /** Resolves once the provider accepted the message; throws to have it retried. */
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+export interface NotificationRoute {
+  channel: NotificationChannel;
+  audience: Audience;
+  recipients(event: BookingEvent): string[];
+}
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  eventId: string;
+  eventType: BookingEventType;
+  channel: string;
+  recipient: string;
+  subject: string;
+  text: string;
+  event: BookingEvent;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OutboxStore {
+  list(): Promise<OutboxEntry[]>;
+  /** Inserts or replaces by id. */
+  save(entry: OutboxEntry): Promise<void>;
+}
+
+export class MemoryOutbox implements OutboxStore {
+  private readonly entries = new Map<string, OutboxEntry>();
+
+  async list(): Promise<OutboxEntry[]> {
+    return [...this.entries.values()];
+  }
+
+  async save(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+}
+
+/** JSON file outbox. Keeps the newest entries once it grows past the limit, but never drops a pending one. */
+export class FileOutbox implements OutboxStore {
+  private entries: OutboxEntry[] | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string, private readonly limit = 1000) {}
+
+  async list(): Promise<OutboxEntry[]> {
+    return [...(await this.load())];
+  }
+
+  async save(entry: OutboxEntry): Promise<void> {
+    const entries = await this.load();
+    const index = entries.findIndex(e => e.id === entry.id);
+    if (index >= 0) entries[index] = { ...entry };
+    else entries.push({ ...entry });
+
+    let excess = entries.length - this.limit;
+    for (let i = 0; i < entries.length && excess > 0;) {
+      if (entries[i].status !== 'pending') {
+        entries.splice(i, 1);
+        excess--;
+      } else {
+        i++;
+      }
+    }
+
+    const snapshot = JSON.stringify(entries, null, 2);
+    // Write to a temp file and rename, so a crash mid-write can't leave half a JSON file behind.
+    this.writes = this.writes.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(`${this.path}.tmp`, snapshot, 'utf8');
+      await rename(`${this.path}.tmp`, this.path);
+    });
+    await this.writes;
+  }
+
+  private async load(): Promise<OutboxEntry[]> {
+    if (this.entries) return this.entries;
+    try {
+      const parsed: unknown = JSON.parse(await readFile(this.path, 'utf8'));
+      this.entries = Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Could not read ${this.path}; starting a new outbox`, err);
+      this.entries = [];
+    }
+    return this.entries;
+  }
+}
+
+export interface NotifierOptions {
+  /** Attempts per message, including the first. */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles after each failure. */
+  retryDelayMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** Renders each booking event for every route, records it in the outbox and delivers it with retries. */
+export class Notifier {
+  private readonly channels = new Map<string, NotificationChannel>();
+  private readonly inFlight = new Set<Promise<void>>();
+  // Event ids being written to the outbox right now.
+  private readonly claimed = new Set<string>();
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(private readonly routes: NotificationRoute[], private readonly outbox: OutboxStore, options: NotifierOptions = {}) {
+    routes.forEach(route => this.channels.set(route.channel.name, route.channel));
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelayMs = options.retryDelayMs ?? 5_000;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? wait;
+  }
+
+  get channelCount(): number {
+    return this.channels.size;
+  }
+
+  /**
+   * Queues the event's messages and starts delivering them in the background.
+   * Returns the new outbox entries; none when the event was already dispatched.
+   */
+  async dispatch(event: BookingEvent): Promise<OutboxEntry[]> {
+    // Claimed before the first await, so two posts of the same event can't both get past the outbox check.
+    if (this.claimed.has(event.id)) return [];
+    this.claimed.add(event.id);
+    try {
+      return await this.enqueue(event);
+    } finally {
+      // From here on the outbox entries themselves mark the event as dispatched.
+      this.claimed.delete(event.id);
+    }
+  }
+
+  /** Picks up messages still pending from before a restart. */
+  async resume(): Promise<number> {
+    const pending = (await this.outbox.list()).filter(e => e.status === 'pending');
+    pending.forEach(entry => this.track(this.deliver(entry)));
+    return pending.length;
+  }
+
+  /** Resolves once every delivery started so far has been sent or given up on. */
+  async idle(): Promise<void> {
+    while (this.inFlight.size) await Promise.all([...this.inFlight]);
+  }
+
+  private async enqueue(event: BookingEvent): Promise<OutboxEntry[]> {
+    if ((await this.outbox.list()).some(e => e.eventId === event.id)) return [];
+
+    const created = this.now();
+    const entries: OutboxEntry[] = [];
+    for (const route of this.routes) {
+      const message = renderNotification(event, route.audience);
+      if (!message) continue;
+      for (const recipient of route.recipients(event)) {
+        entries.push({
+          id: randomUUID(),
+          eventId: event.id,
+          eventType: event.type,
+          channel: route.channel.name,
+          recipient,
+          subject: message.subject,
+          text: message.text,
+          event,
+          status: 'pending',
+          attempts: 0,
+          lastError: null,
+          createdAt: created,
+          updatedAt: created
+        });
+      }
+    }
+
+    for (const entry of entries) await this.outbox.save(entry);
+    entries.forEach(entry => this.track(this.deliver(entry)));
+    return entries;
+  }
+
+  private track(delivery: Promise<void>): void {
+    this.inFlight.add(delivery);
+    void delivery.finally(() => this.inFlight.delete(delivery));
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<void> {
+    const channel = this.channels.get(entry.channel);
+    if (!channel) {
+      await this.outbox.save({ ...entry, status: 'failed', lastError: `Channel "${entry.channel}" is no longer configured.`, updatedAt: this.now() });
+      return;
+    }
+
+    let current = entry;
+    while (current.attempts < this.maxAttempts) {
+      try {
+        await channel.send({ to: current.recipient, subject: current.subject, text: current.text, event: current.event });
+        await this.outbox.save({ ...current, status: 'sent', attempts: current.attempts + 1, lastError: null, updatedAt: this.now() });
+        return;
+      } catch (err) {
+        const attempts = current.attempts + 1;
+        const status: OutboxStatus = attempts >= this.maxAttempts ? 'failed' : 'pending';
+        current = { ...current, status, attempts, lastError: err instanceof Error ? err.message : String(err), updatedAt: this.now() };
+        await this.outbox.save(current);
+        if (status === 'failed') {
+          console.error(`Giving up on ${current.eventType} via ${current.channel} to ${current.recipient}: ${current.lastError}`);
+          return;
+        }
+        await this.sleep(this.retryDelayMs * 2 ** (attempts - 1));
+      }
+    }
+  }
+}
+
+export class NotificationRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationRequestError';
+  }
+}
+
+const STATUSES = Object.values(AppointmentStatus) as string[];
+
+function text(value: unknown, field: string, max: number): string {
+  if (typeof value !== 'string' || !value.trim() || value.length > max) {
+    throw new NotificationRequestError(`${field} must be a non-empty string of at most ${max} characters.`);
+  }
+  return value;
+}
+
+function count(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) throw new NotificationRequestError(`${field} must be a whole number.`);
+  return value;
+}
+
+/**
+ * Validates an event posted by the browser. Bookings live in the browser, so the server can't check
+ * that the appointment is real; this only bounds what ends up in a message.
+ */
+export function parseBookingEvent(raw: unknown): BookingEvent {
+  const body = raw as Partial<BookingEvent> | null;
+  if (!body || typeof body !== 'object' || !body.appointment || typeof body.appointment !== 'object') {
+    throw new NotificationRequestError('Expected { id, type, actor, appointment, occurredAt }.');
+  }
+  if (!BOOKING_EVENT_TYPES.includes(body.type as BookingEventType)) throw new NotificationRequestError(`Unknown event type "${String(body.type)}".`);
+  if (body.actor !== 'patient' && body.actor !== 'staff') throw new NotificationRequestError('actor must be "patient" or "staff".');
+
+  const a = body.appointment;
+  if (typeof a.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(a.date)) throw new NotificationRequestError('appointment.date must be YYYY-MM-DD.');
+  if (!STATUSES.includes(a.status as string)) throw new NotificationRequestError('appointment.status is not a known status.');
+  if (a.serviceId !== null && typeof a.serviceId !== 'string') throw new NotificationRequestError('appointment.serviceId must be a string or null.');
+  const intake = a.intake;
+  if (intake !== undefined && (typeof intake !== 'object' || !Array.isArray(intake.medicalConditions) || !Array.isArray(intake.allergies))) {
+    throw new NotificationRequestError('appointment.intake is malformed.');
+  }
+
+  return {
+    id: text(body.id, 'id', 100),
+    type: body.type as BookingEventType,
+    actor: body.actor,
+    occurredAt: count(body.occurredAt, 'occurredAt'),
+    appointment: {
+      id: text(a.id, 'appointment.id', 100),
+      clientName: text(a.clientName, 'appointment.clientName', 100),
+      date: a.date,
+      startMinutes: count(a.startMinutes, 'appointment.startMinutes'),
+      durationMinutes: count(a.durationMinutes, 'appointment.durationMinutes'),
+      serviceId: a.serviceId === null ? null : text(a.serviceId, 'appointment.serviceId', 50),
+      purpose: typeof a.purpose === 'string' ? a.purpose.slice(0, 200) : '',
+      status: a.status as AppointmentStatus,
+      createdAt: count(a.createdAt, 'appointment.createdAt'),
+      ...(a.reference !== undefined && { reference: text(a.reference, 'appointment.reference', 20) }),
+      ...(intake && {
+        intake: {
+          contactNumber: text(intake.contactNumber, 'intake.contactNumber', 20),
+          age: count(intake.age, 'intake.age'),
+          patientType: intake.patientType === 'returning' ? 'returning' : 'new',
+          medicalConditions: intake.medicalConditions.slice(0, 20).map((c, i) => text(c, `intake.medicalConditions[${i}]`, 100)),
+          allergies: intake.allergies.slice(0, 20).map((c, i) => text(c, `intake.allergies[${i}]`, 100)),
+          confirmedAt: count(intake.confirmedAt, 'intake.confirmedAt')
+        }
+      })
+    }
+  };
+}
@@ -0,0 +1,38 @@
+
+import { GoogleGenAI } from '@google/genai';
+import { LIVE_API_VERSION, LIVE_MODEL } from '../services/liveTransport';
+
+export interface IssuedToken {
+  token: string;
+  /** Epoch ms after which the Live session is closed. */
+  expiresAt: number;
+}
+
+export interface TokenIssuer {
+  issue(expiresAt: number): Promise<IssuedToken>;
+}
+
+// A fresh token only has to open one socket; reconnects fetch their own.
+const NEW_SESSION_WINDOW_MS = 60_000;
+
+/** Mints single-use ephemeral tokens locked to the Live model, so a leaked token is worth little. */
+export class GenAiTokenIssuer implements TokenIssuer {
+  private readonly ai: GoogleGenAI;
+
+  constructor(apiKey: string, private readonly model: string = LIVE_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: LIVE_API_VERSION } });
+  }
+
+  async issue(expiresAt: number): Promise<IssuedToken> {
+    const token = await this.ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: new Date(expiresAt).toISOString(),
+        newSessionExpireTime: new Date(Date.now() + NEW_SESSION_WINDOW_MS).toISOString(),
+        liveConnectConstraints: { model: this.model }
+      }
+    });
+    if (!token.name) throw new Error('Token service returned no token.');
+    return { token: token.name, expiresAt };
+  }
+}
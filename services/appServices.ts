@@ -0,0 +1,16 @@
+import { Scheduler } from './scheduling';
+import { CallbackQueue } from './handoff';
+import { createDefaultHistoryStore } from './historyStore';
+import { createDefaultMetricsStore } from './metricsStore';
+import { createDefaultRecordingStore } from './recordingStore';
+import { RemoteNotifier, forwardBookingEvents } from './notificationClient';
+import { endpoints } from './endpoints';
+
+// Shared by the patient view and the staff dashboard so both see the same bookings.
+export const scheduler = new Scheduler();
+export const historyStore = createDefaultHistoryStore();
+export const metricsStore = createDefaultMetricsStore();
+export const callbackQueue = new CallbackQueue();
+export const recordingStore = createDefaultRecordingStore();
+
+forwardBookingEvents(scheduler, new RemoteNotifier(endpoints.notify));
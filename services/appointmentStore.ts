@@ -0,0 +1,51 @@
+
+import { Appointment } from '../types';
+
+export interface AppointmentStore {
+  load(): Promise<Appointment[]>;
+  save(appointments: Appointment[]): Promise<void>;
+}
+
+export class MemoryAppointmentStore implements AppointmentStore {
+  private appointments: Appointment[];
+
+  constructor(initial: Appointment[] = []) {
+    this.appointments = [...initial];
+  }
+
+  async load(): Promise<Appointment[]> {
+    return [...this.appointments];
+  }
+
+  async save(appointments: Appointment[]): Promise<void> {
+    this.appointments = [...appointments];
+  }
+}
+
+export class LocalStorageAppointmentStore implements AppointmentStore {
+  constructor(private readonly key: string = 'gcmia.appointments') {}
+
+  async load(): Promise<Appointment[]> {
+    const raw = localStorage.getItem(this.key);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async save(appointments: Appointment[]): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(appointments));
+  }
+}
+
+export function createDefaultAppointmentStore(): AppointmentStore {
+  try {
+    if (typeof localStorage !== 'undefined') return new LocalStorageAppointmentStore();
+  } catch {
+    // Storage access throws in sandboxed iframes with cookies disabled.
+  }
+  return new MemoryAppointmentStore();
+}
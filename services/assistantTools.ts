@@ -0,0 +1,45 @@
+
+import { FunctionDeclaration } from '@google/genai';
+import { TriageAssessment } from '../types';
+import { ClinicConfig } from './clinicConfig';
+import { MemoryAppointmentStore } from './appointmentStore';
+import { Scheduler } from './scheduling';
+import { ToolRegistry } from './toolRegistry';
+import { SchedulingToolEvents, createSchedulingTools } from './schedulingTools';
+import { createServiceTools } from './serviceCatalog';
+import { IntakeDraft, createIntakeTools } from './intakeForm';
+import { createTriageTools } from './triage';
+import { CallbackQueue, HandoffContext, MemoryCallbackStore, createHandoffTools } from './handoff';
+
+export interface AssistantToolDeps {
+  scheduler: Scheduler;
+  intakeDraft: IntakeDraft;
+  callbackQueue: CallbackQueue;
+  handoff: HandoffContext;
+  scheduling?: SchedulingToolEvents;
+  onAssessed?(assessment: TriageAssessment): void;
+}
+
+/** Every tool Mia can call, in voice and text mode alike. */
+export function createAssistantTools(config: ClinicConfig, deps: AssistantToolDeps): ToolRegistry {
+  const registry = new ToolRegistry();
+  [
+    ...createSchedulingTools(deps.scheduler, deps.scheduling),
+    ...createServiceTools(config.services, config.pricingNote),
+    ...createIntakeTools(deps.intakeDraft),
+    ...createTriageTools(config, { onAssessed: deps.onAssessed }),
+    ...createHandoffTools(deps.callbackQueue, deps.handoff)
+  ].forEach(tool => registry.register(tool));
+  return registry;
+}
+
+/** The same declarations without anything behind them, for the session server's text chat. */
+export function assistantToolDeclarations(config: ClinicConfig): FunctionDeclaration[] {
+  const scheduler = new Scheduler(new MemoryAppointmentStore());
+  return createAssistantTools(config, {
+    scheduler,
+    intakeDraft: new IntakeDraft(scheduler),
+    callbackQueue: new CallbackQueue(new MemoryCallbackStore()),
+    handoff: { sessionId: () => null, transcript: () => [], urgency: () => null }
+  }).declarations;
+}
@@ -0,0 +1,182 @@
+
+import { decode, decodeAudioData, encodePcm16 } from '../utils/audioUtils';
+import { loadPcmCaptureWorklet, PCM_CAPTURE_PROCESSOR, PcmCaptureMessage } from '../utils/pcmCaptureWorklet';
+import { AudioFrame } from '../utils/vad';
+
+export interface PcmChunk {
+  data: string;
+  mimeType: string;
+}
+
+export interface AudioPipelineListener {
+  /** Returns whether the chunk was streamed to the model; only streamed audio is recorded. */
+  onCapture(chunk: PcmChunk): boolean;
+  onInputFrame(frame: AudioFrame): void;
+  onOutputActive(active: boolean): void;
+}
+
+/** Receives the call audio for recording: mic samples as captured, model audio as decoded for playback. */
+export interface AudioTap {
+  captureInput(samples: Int16Array, sampleRate: number): void;
+  /** `delaySeconds` is how long until the buffer starts playing. */
+  captureOutput(buffer: AudioBuffer, delaySeconds: number): void;
+  /** Queued model audio was dropped. */
+  interruptOutput(): void;
+}
+
+/** Microphone capture and model playback, kept behind an interface so LiveSession can run without Web Audio. */
+export interface AudioPipeline {
+  /** Acquires the audio contexts and microphone. Called before the transport connects. */
+  open(listener: AudioPipelineListener): Promise<void>;
+  /** Starts streaming captured audio to the listener. Called once the transport is open. */
+  startCapture(): void;
+  play(base64Pcm: string): Promise<void>;
+  /** Drops everything queued for playback. */
+  interrupt(): void;
+  close(): void;
+  /** Analyser tapped off the mic ('input') or the playback bus ('output'), once open. */
+  getAnalyser?(source: 'input' | 'output'): AnalyserNode | null;
+}
+
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+// 1024 samples at 16 kHz is 64 ms per chunk sent to the server.
+const CAPTURE_CHUNK_SIZE = 1024;
+const ANALYSER_FFT_SIZE = 512;
+
+function createAnalyser(ctx: AudioContext): AnalyserNode {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.7;
+  return analyser;
+}
+
+export class BrowserAudioPipeline implements AudioPipeline {
+  private inCtx: AudioContext | null = null;
+  private outCtx: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  private captureNode: AudioWorkletNode | null = null;
+  private inputAnalyser: AnalyserNode | null = null;
+  private outputAnalyser: AnalyserNode | null = null;
+  private listener: AudioPipelineListener | null = null;
+  private nextStartTime = 0;
+  private activeSources = new Set<AudioBufferSourceNode>();
+  private activeCount = 0;
+
+  /** Pass a tap only when the patient agreed to have the call recorded. */
+  constructor(private readonly tap: AudioTap | null = null) {}
+
+  async open(listener: AudioPipelineListener): Promise<void> {
+    this.listener = listener;
+    const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+    this.outCtx = new Ctx({ sampleRate: OUTPUT_SAMPLE_RATE });
+    this.outputAnalyser = createAnalyser(this.outCtx);
+    this.outputAnalyser.connect(this.outCtx.destination);
+    await this.outCtx.resume();
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+    });
+
+    // Chrome honours the 16 kHz request. Firefox refuses to connect a mic to a context
+    // whose rate differs from the device, so fall back to the native rate there; the
+    // worklet resamples to 16 kHz either way.
+    let inCtx = new Ctx({ sampleRate: INPUT_SAMPLE_RATE });
+    let micSource: MediaStreamAudioSourceNode;
+    try {
+      micSource = inCtx.createMediaStreamSource(this.stream);
+    } catch {
+      inCtx.close();
+      inCtx = new Ctx();
+      micSource = inCtx.createMediaStreamSource(this.stream);
+    }
+    this.inCtx = inCtx;
+    this.micSource = micSource;
+    this.inputAnalyser = createAnalyser(inCtx);
+    micSource.connect(this.inputAnalyser);
+    await inCtx.resume();
+    await loadPcmCaptureWorklet(inCtx);
+  }
+
+  startCapture(): void {
+    const inCtx = this.inCtx;
+    if (!inCtx || !this.micSource || this.captureNode) return;
+
+    const node = new AudioWorkletNode(inCtx, PCM_CAPTURE_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      processorOptions: { targetSampleRate: INPUT_SAMPLE_RATE, chunkSize: CAPTURE_CHUNK_SIZE }
+    });
+    node.port.onmessage = (e: MessageEvent<PcmCaptureMessage>) => {
+      const { pcm, peak, rms, zcr } = e.data;
+      const samples = new Int16Array(pcm);
+      this.listener?.onInputFrame({ peak, rms, zcr, durationMs: samples.length / INPUT_SAMPLE_RATE * 1000 });
+      // Nothing is recorded while the patient is muted (push-to-talk not held) or the socket is down.
+      const sent = this.listener?.onCapture(encodePcm16(samples, INPUT_SAMPLE_RATE)) ?? false;
+      if (sent) this.tap?.captureInput(samples, INPUT_SAMPLE_RATE);
+    };
+    this.micSource.connect(node);
+    // The processor never writes its output, so this only keeps the node pulled by the graph.
+    node.connect(inCtx.destination);
+    this.captureNode = node;
+  }
+
+  async play(base64Pcm: string): Promise<void> {
+    const ctx = this.outCtx;
+    if (!ctx) return;
+    this.listener?.onOutputActive(true);
+    this.activeCount++;
+    this.nextStartTime = Math.max(this.nextStartTime, ctx.currentTime);
+    try {
+      const audioBuffer = await decodeAudioData(decode(base64Pcm), ctx, OUTPUT_SAMPLE_RATE, 1);
+      const source = ctx.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(this.outputAnalyser ?? ctx.destination);
+      source.onended = () => {
+        this.activeSources.delete(source);
+        this.activeCount--;
+        if (this.activeCount <= 0) { this.activeCount = 0; this.listener?.onOutputActive(false); }
+      };
+      source.start(this.nextStartTime);
+      this.tap?.captureOutput(audioBuffer, this.nextStartTime - ctx.currentTime);
+      this.nextStartTime += audioBuffer.duration;
+      this.activeSources.add(source);
+    } catch (err) {
+      this.activeCount--;
+    }
+  }
+
+  interrupt(): void {
+    this.activeSources.forEach(s => { try { s.stop(); } catch (e) {} });
+    this.activeSources.clear();
+    this.activeCount = 0;
+    this.nextStartTime = 0;
+    this.tap?.interruptOutput();
+    this.listener?.onOutputActive(false);
+  }
+
+  getAnalyser(source: 'input' | 'output'): AnalyserNode | null {
+    return source === 'input' ? this.inputAnalyser : this.outputAnalyser;
+  }
+
+  close(): void {
+    this.interrupt();
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode.disconnect();
+    }
+    this.captureNode = null;
+    this.micSource?.disconnect();
+    this.micSource = null;
+    this.inputAnalyser = null;
+    this.outputAnalyser = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.inCtx?.close();
+    this.outCtx?.close();
+    this.inCtx = null;
+    this.outCtx = null;
+    this.listener = null;
+  }
+}
@@ -0,0 +1,34 @@
+
+import { Appointment } from '../types';
+
+export type BookingEventType =
+  | 'booking.created'
+  | 'booking.rescheduled'
+  | 'booking.cancelled'
+  | 'booking.confirmed'
+  | 'booking.declined';
+
+export const BOOKING_EVENT_TYPES: BookingEventType[] = [
+  'booking.created',
+  'booking.rescheduled',
+  'booking.cancelled',
+  'booking.confirmed',
+  'booking.declined'
+];
+
+export interface BookingEvent {
+  /** Unique per change, so a resent event is only delivered once. */
+  id: string;
+  type: BookingEventType;
+  /** Who made the change: the patient (through the assistant) or clinic staff. */
+  actor: 'patient' | 'staff';
+  appointment: Appointment;
+  occurredAt: number;
+}
+
+export function createBookingEvent(type: BookingEventType, actor: BookingEvent['actor'], appointment: Appointment, occurredAt: number): BookingEvent {
+  const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `evt-${occurredAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return { id, type, actor, appointment, occurredAt };
+}
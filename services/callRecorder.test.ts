@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CallRecorder, MAX_RECORDING_SECONDS, RECORDING_SAMPLE_RATE } from './callRecorder';
+import { FakeAudioBuffer } from '../test/fakeWebAudio';
+
+// jsdom's Blob has no arrayBuffer().
+function samplesOf(audio: Blob): Promise<Int16Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Int16Array(reader.result as ArrayBuffer, 44));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(audio);
+  });
+}
+
+describe('CallRecorder', () => {
+  it('writes the mic on the left and the model on the right as PCM16', async () => {
+    let now = 0;
+    const recorder = new CallRecorder(() => now);
+    recorder.begin();
+    recorder.captureInput(Int16Array.from([16384]), RECORDING_SAMPLE_RATE);
+    const reply = new FakeAudioBuffer(1, 1, RECORDING_SAMPLE_RATE);
+    reply.getChannelData(0)[0] = -0.5;
+    recorder.captureOutput(reply as unknown as AudioBuffer, 0);
+    // Model audio still queued at the end was never heard, so let it play first.
+    now = 1000;
+
+    const result = recorder.finish()!;
+    expect(Array.from(await samplesOf(result.audio))).toEqual([16383, -16384]);
+  });
+
+  it('stops growing at the maximum length', async () => {
+    let now = 0;
+    const recorder = new CallRecorder(() => now);
+    recorder.begin();
+    now = (MAX_RECORDING_SECONDS + 60) * 1000;
+    recorder.captureInput(new Int16Array(RECORDING_SAMPLE_RATE), RECORDING_SAMPLE_RATE);
+    expect(recorder.finish()).toBeNull();
+
+    now = 0;
+    recorder.begin();
+    // Two seconds of audio arriving one second before the limit.
+    now = (MAX_RECORDING_SECONDS + 1) * 1000;
+    recorder.captureInput(new Int16Array(RECORDING_SAMPLE_RATE * 2), RECORDING_SAMPLE_RATE);
+    expect(recorder.finish()!.durationMs).toBe(MAX_RECORDING_SECONDS * 1000);
+  });
+});
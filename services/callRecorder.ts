@@ -0,0 +1,184 @@
+
+import { CallRecording, ConnectionStatus, RecordingMark } from '../types';
+import { writeWavHeader } from '../utils/audioUtils';
+import { AudioTap } from './audioPipeline';
+import { AssistantSession } from './liveSession';
+import { RecordingStore } from './recordingStore';
+
+/** Both tracks are written at the model's output rate; the mic is upsampled to match. */
+export const RECORDING_SAMPLE_RATE = 24000;
+/** A call runs 15 minutes by default; a longer one keeps its first 15 rather than growing without bound. */
+export const MAX_RECORDING_SECONDS = 15 * 60;
+const MAX_RECORDING_SAMPLES = MAX_RECORDING_SECONDS * RECORDING_SAMPLE_RATE;
+// A longer gap between mic chunks means capture stalled (tab in the background), so the track skips ahead.
+const MAX_INPUT_DRIFT_SECONDS = 0.5;
+
+interface TrackChunk {
+  /** Start, in samples at RECORDING_SAMPLE_RATE from the beginning of the call. */
+  offset: number;
+  /** Stored as PCM16, half the size of the decoded floats. */
+  samples: Int16Array;
+}
+
+function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const length = Math.round(samples.length * toRate / fromRate);
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = i * fromRate / toRate;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    out[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+  }
+  return out;
+}
+
+function toPcm16(samples: Float32Array): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return out;
+}
+
+/** Writes the tracks straight into an interleaved WAV, without rendering each one in full first. */
+function encodeTracks(tracks: TrackChunk[][], length: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + length * tracks.length * 2);
+  const view = new DataView(buffer);
+  writeWavHeader(view, tracks.length, RECORDING_SAMPLE_RATE, length);
+  tracks.forEach((chunks, channel) => {
+    for (const { offset, samples } of chunks) {
+      const count = Math.min(samples.length, length - offset);
+      for (let i = 0; i < count; i++) {
+        view.setInt16(44 + ((offset + i) * tracks.length + channel) * 2, samples[i], true);
+      }
+    }
+  });
+  return buffer;
+}
+
+/**
+ * Collects the mic and the model's decoded audio on one timeline while a consented call runs.
+ * Model audio is placed where it was scheduled to play and cut where playback was interrupted,
+ * so the recording holds what the patient actually heard.
+ */
+export class CallRecorder implements AudioTap {
+  private startedAt = 0;
+  private input: TrackChunk[] = [];
+  private output: TrackChunk[] = [];
+  private inputCursor: number | null = null;
+
+  constructor(private readonly now: () => number = () => Date.now()) {}
+
+  begin(): void {
+    this.startedAt = this.now();
+    this.input = [];
+    this.output = [];
+    this.inputCursor = null;
+  }
+
+  get started(): number {
+    return this.startedAt;
+  }
+
+  elapsedMs(): number {
+    return this.now() - this.startedAt;
+  }
+
+  captureInput(samples: Int16Array, sampleRate: number): void {
+    const floats = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i++) floats[i] = samples[i] / 32768;
+    const chunk = resample(floats, sampleRate, RECORDING_SAMPLE_RATE);
+    // Chunks arrive at their end; the cursor keeps them gapless unless capture stalled.
+    const arrivedAt = this.position(this.elapsedMs() / 1000) - chunk.length;
+    const offset = this.inputCursor === null || Math.abs(arrivedAt - this.inputCursor) > MAX_INPUT_DRIFT_SECONDS * RECORDING_SAMPLE_RATE
+      ? Math.max(0, arrivedAt)
+      : this.inputCursor;
+    this.push(this.input, offset, chunk);
+    this.inputCursor = offset + chunk.length;
+  }
+
+  captureOutput(buffer: AudioBuffer, delaySeconds: number): void {
+    const samples = resample(buffer.getChannelData(0).slice(), buffer.sampleRate, RECORDING_SAMPLE_RATE);
+    this.push(this.output, this.position(this.elapsedMs() / 1000 + delaySeconds), samples);
+  }
+
+  /** Drops model audio that was queued but never played. */
+  interruptOutput(): void {
+    const cut = this.position(this.elapsedMs() / 1000);
+    this.output = this.output
+      .filter(chunk => chunk.offset < cut)
+      .map(chunk => (chunk.offset + chunk.samples.length > cut ? { ...chunk, samples: chunk.samples.subarray(0, cut - chunk.offset) } : chunk));
+  }
+
+  /** Renders both tracks as a stereo WAV; null when nothing was captured. */
+  finish(): { audio: Blob; durationMs: number } | null {
+    this.interruptOutput();
+    const end = (chunks: TrackChunk[]) => chunks.reduce((max, c) => Math.max(max, c.offset + c.samples.length), 0);
+    const length = Math.max(end(this.input), end(this.output));
+    if (!length) return null;
+    const wav = encodeTracks([this.input, this.output], length);
+    this.input = [];
+    this.output = [];
+    return { audio: new Blob([wav], { type: 'audio/wav' }), durationMs: Math.round(length / RECORDING_SAMPLE_RATE * 1000) };
+  }
+
+  private push(track: TrackChunk[], offset: number, samples: Float32Array): void {
+    if (offset >= MAX_RECORDING_SAMPLES) return;
+    track.push({ offset, samples: toPcm16(samples.subarray(0, MAX_RECORDING_SAMPLES - offset)) });
+  }
+
+  private position(seconds: number): number {
+    return Math.max(0, Math.round(seconds * RECORDING_SAMPLE_RATE));
+  }
+}
+
+/**
+ * Saves the call recording when the session ends, with a mark where each transcript turn began.
+ * Turns start when the speaker started talking; typed messages fall back to the entry's timestamp.
+ */
+export function attachRecording(session: AssistantSession, recorder: CallRecorder, store: RecordingStore): () => void {
+  let marks: RecordingMark[] = [];
+  let recording = false;
+  const speechStart: Record<RecordingMark['role'], number | null> = { user: null, assistant: null };
+
+  const finish = () => {
+    if (!recording) return;
+    recording = false;
+    const result = recorder.finish();
+    if (!result) return;
+    const saved: CallRecording = { sessionId: session.id, startedAt: recorder.started, durationMs: result.durationMs, marks, audio: result.audio };
+    store.save(saved).catch(err => console.error('Failed to save call recording', err));
+  };
+
+  const offStatus = session.on('status', status => {
+    if (status === ConnectionStatus.CONNECTING && !recording) {
+      recorder.begin();
+      recording = true;
+      marks = [];
+      speechStart.user = null;
+      speechStart.assistant = null;
+    }
+    if (status === ConnectionStatus.DISCONNECTED || status === ConnectionStatus.ERROR) finish();
+  });
+
+  const offSpeaking = session.on('speaking', ({ source, speaking }) => {
+    const role = source === 'input' ? 'user' : 'assistant';
+    if (speaking && speechStart[role] === null) speechStart[role] = recorder.elapsedMs();
+  });
+
+  const offTranscript = session.on('transcript', entry => {
+    if (!recording) return;
+    const offsetMs = speechStart[entry.role] ?? Math.max(0, entry.timestamp - recorder.started);
+    speechStart[entry.role] = null;
+    marks.push({ turnId: entry.turnId, role: entry.role, offsetMs });
+  });
+
+  return () => {
+    offStatus();
+    offSpeaking();
+    offTranscript();
+  };
+}
@@ -0,0 +1,271 @@
+
+import { DentalService } from '../types';
+import clinicData from '../clinic.config';
+import { LANGUAGES, Language, isLanguage } from './i18n';
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+// Same order as Date#getDay().
+export const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface ClinicDayHours {
+  /** 24-hour "HH:MM". */
+  open: string;
+  close: string;
+}
+
+export interface ClinicService extends DentalService {
+  /** Lower-case words a patient might use for this service, matched against the booking purpose. */
+  keywords: string[];
+}
+
+export interface QuickPrompt {
+  label: string;
+  text: string;
+}
+
+/** What changes when the patient switches language. */
+export interface ClinicLanguage {
+  /** Prebuilt Live API voice, e.g. Kore. */
+  voiceName: string;
+  /** Spoken verbatim (in spirit) when a session opens, and shown first in text chat. */
+  greeting: string;
+  quickPrompts: QuickPrompt[];
+}
+
+export interface ClinicConfig {
+  name: string;
+  brand: {
+    title: string;
+    accent: string;
+    tagline: string;
+  };
+  location: {
+    city: string;
+    province: string;
+    /** IANA zone the clinic hours are in, e.g. Asia/Manila. Used for calendar invites. */
+    timeZone: string;
+  };
+  doctor: {
+    name: string;
+    shortName: string;
+  };
+  assistant: {
+    name: string;
+    role: string;
+    /** Used until the patient picks a language. */
+    defaultLanguage: Language;
+  };
+  languages: Record<Language, ClinicLanguage>;
+  /** A null day is closed. */
+  hours: Record<Weekday, ClinicDayHours | null>;
+  scheduling: {
+    slotIntervalMinutes: number;
+    defaultDurationMinutes: number;
+    /** How many days ahead to look when suggesting alternative slots. */
+    searchHorizonDays: number;
+    maxSuggestions: number;
+    /** Prefix of booking reference codes, e.g. GCM in GCM-7K3Q9P. */
+    referencePrefix: string;
+  };
+  services: ClinicService[];
+  /** Shown by the triage card and read out when a patient reports urgent symptoms. */
+  emergency: {
+    /** Clinic line for urgent cases during opening hours. */
+    phone: string;
+    /** Public emergency number, e.g. 911 in the Philippines. */
+    hotline: string;
+    /** What to do when the clinic is closed. */
+    afterHours: string;
+  };
+  /** Shown with every price, so patients read the ranges as estimates. */
+  pricingNote: string;
+  /** Clinic-specific behaviour rules; the tool-usage rules are added by the prompt builder. */
+  rules: string[];
+  social: {
+    facebook?: string;
+    instagram?: string;
+  };
+}
+
+export class ClinicConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid clinic config:\n- ${issues.join('\n- ')}`);
+    this.name = 'ClinicConfigError';
+  }
+}
+
+/** Parses "HH:MM" to minutes after midnight. */
+export function parseClockTime(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [hour, minute] = [Number(match[1]), Number(match[2])];
+  if (hour > 24 || minute > 59 || (hour === 24 && minute > 0)) return null;
+  return hour * 60 + minute;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks a config loaded from anywhere (TS module, fetched JSON) and returns it typed.
+ * Collects every problem instead of stopping at the first, so a broken file is fixed in one pass.
+ */
+export function validateClinicConfig(raw: unknown): ClinicConfig {
+  const issues: string[] = [];
+  const str = (value: unknown, path: string) => {
+    if (typeof value !== 'string' || !value.trim()) issues.push(`${path} must be a non-empty string`);
+  };
+  const section = (value: unknown, path: string): Record<string, unknown> => {
+    if (isRecord(value)) return value;
+    issues.push(`${path} must be an object`);
+    return {};
+  };
+
+  const config = section(raw, 'config');
+  str(config.name, 'name');
+  str(config.pricingNote, 'pricingNote');
+
+  const brand = section(config.brand, 'brand');
+  ['title', 'accent', 'tagline'].forEach(key => str(brand[key], `brand.${key}`));
+  const location = section(config.location, 'location');
+  ['city', 'province'].forEach(key => str(location[key], `location.${key}`));
+  if (!isTimeZone(location.timeZone)) issues.push('location.timeZone must be an IANA time zone like Asia/Manila');
+  const doctor = section(config.doctor, 'doctor');
+  ['name', 'shortName'].forEach(key => str(doctor[key], `doctor.${key}`));
+  const assistant = section(config.assistant, 'assistant');
+  ['name', 'role'].forEach(key => str(assistant[key], `assistant.${key}`));
+  if (!isLanguage(assistant.defaultLanguage)) {
+    issues.push(`assistant.defaultLanguage must be one of ${LANGUAGES.map(l => l.id).join(', ')}`);
+  }
+  const languages = section(config.languages, 'languages');
+  for (const { id } of LANGUAGES) {
+    const lang = section(languages[id], `languages.${id}`);
+    str(lang.voiceName, `languages.${id}.voiceName`);
+    str(lang.greeting, `languages.${id}.greeting`);
+    if (!Array.isArray(lang.quickPrompts)) {
+      issues.push(`languages.${id}.quickPrompts must be an array`);
+    } else {
+      lang.quickPrompts.forEach((prompt: unknown, i) => {
+        const p = section(prompt, `languages.${id}.quickPrompts[${i}]`);
+        str(p.label, `languages.${id}.quickPrompts[${i}].label`);
+        str(p.text, `languages.${id}.quickPrompts[${i}].text`);
+      });
+    }
+  }
+
+  const scheduling = section(config.scheduling, 'scheduling');
+  ['slotIntervalMinutes', 'defaultDurationMinutes', 'searchHorizonDays', 'maxSuggestions'].forEach(key => {
+    if (!isPositiveInteger(scheduling[key])) issues.push(`scheduling.${key} must be a positive integer`);
+  });
+  if (typeof scheduling.referencePrefix !== 'string' || !/^[A-Z0-9]{2,6}$/.test(scheduling.referencePrefix)) {
+    issues.push('scheduling.referencePrefix must be 2-6 upper-case letters or digits');
+  }
+
+  const hours = section(config.hours, 'hours');
+  let openDays = 0;
+  for (const day of WEEKDAYS) {
+    const value = hours[day];
+    if (value === null) continue;
+    if (!isRecord(value)) {
+      issues.push(`hours.${day} must be { open, close } or null`);
+      continue;
+    }
+    const open = parseClockTime(String(value.open));
+    const close = parseClockTime(String(value.close));
+    if (open === null) issues.push(`hours.${day}.open must be "HH:MM"`);
+    if (close === null) issues.push(`hours.${day}.close must be "HH:MM"`);
+    if (open !== null && close !== null && open >= close) issues.push(`hours.${day} must open before it closes`);
+    openDays++;
+  }
+  if (isRecord(config.hours) && openDays === 0) issues.push('hours must have at least one open day');
+
+  if (!Array.isArray(config.services) || config.services.length === 0) {
+    issues.push('services must be a non-empty array');
+  } else {
+    const ids = new Set<string>();
+    config.services.forEach((service: unknown, i) => {
+      const s = section(service, `services[${i}]`);
+      ['id', 'title', 'description', 'icon'].forEach(key => str(s[key], `services[${i}].${key}`));
+      if (typeof s.id === 'string') {
+        if (ids.has(s.id)) issues.push(`services[${i}].id "${s.id}" is used more than once`);
+        ids.add(s.id);
+      }
+      if (!isPositiveInteger(s.durationMinutes)) issues.push(`services[${i}].durationMinutes must be a positive integer`);
+      const price = section(s.price, `services[${i}].price`);
+      if (typeof price.min !== 'number' || typeof price.max !== 'number' || price.min < 0 || price.min > price.max) {
+        issues.push(`services[${i}].price needs numbers with 0 <= min <= max`);
+      }
+      if (typeof price.currency !== 'string' || !/^[A-Z]{3}$/.test(price.currency)) {
+        issues.push(`services[${i}].price.currency must be an ISO 4217 code like PHP`);
+      }
+      (['preparation', 'aftercare'] as const).forEach(key => {
+        if (!Array.isArray(s[key]) || (s[key] as unknown[]).some(note => typeof note !== 'string')) {
+          issues.push(`services[${i}].${key} must be an array of strings`);
+        }
+      });
+      if (!Array.isArray(s.keywords) || s.keywords.some(k => typeof k !== 'string' || k !== k.toLowerCase())) {
+        issues.push(`services[${i}].keywords must be an array of lower-case strings`);
+      }
+    });
+  }
+
+  const emergency = section(config.emergency, 'emergency');
+  ['phone', 'hotline', 'afterHours'].forEach(key => str(emergency[key], `emergency.${key}`));
+
+  if (!Array.isArray(config.rules) || config.rules.some(r => typeof r !== 'string')) {
+    issues.push('rules must be an array of strings');
+  }
+  section(config.social, 'social');
+
+  if (issues.length) throw new ClinicConfigError(issues);
+  return raw as ClinicConfig;
+}
+
+/** Any part of a clinic config; nested sections merge key by key, arrays replace the default outright. */
+export type ClinicConfigOverrides = {
+  [K in keyof ClinicConfig]?: ClinicConfig[K] extends unknown[] ? ClinicConfig[K] : Partial<ClinicConfig[K]>;
+};
+
+function mergeConfig(base: unknown, override: unknown): unknown {
+  if (override === undefined) return base;
+  if (!isRecord(base) || !isRecord(override)) return override;
+  const merged: Record<string, unknown> = { ...base };
+  Object.entries(override).forEach(([key, value]) => { merged[key] = mergeConfig(base[key], value); });
+  return merged;
+}
+
+/** clinic.config.ts plus `overrides`, validated. Throws ClinicConfigError. */
+export function resolveClinicConfig(overrides: ClinicConfigOverrides): ClinicConfig {
+  return validateClinicConfig(mergeConfig(clinicData, overrides));
+}
+
+// Validated once at startup so a bad edit fails loudly instead of producing a half-working prompt.
+export let clinic: ClinicConfig = validateClinicConfig(clinicData);
+/** What configureClinic was given; text chat sends it so the server prompts for the same clinic as voice. */
+export let clinicOverrides: ClinicConfigOverrides = {};
+
+/**
+ * Replaces the clinic data with clinic.config.ts plus `overrides`, for the embeddable widget.
+ * scheduling.ts derives its hours and durations on import, so this must run before anything imports it.
+ */
+export function configureClinic(overrides: ClinicConfigOverrides): ClinicConfig {
+  clinic = resolveClinicConfig(overrides);
+  clinicOverrides = overrides;
+  return clinic;
+}
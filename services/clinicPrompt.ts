@@ -0,0 +1,63 @@
+
+import { ClinicConfig, ClinicDayHours, WEEKDAYS, parseClockTime } from './clinicConfig';
+import { Language, languageProfile } from './i18n';
+import { clinicClock, formatTime } from './scheduling';
+
+// Monday first reads more naturally than getDay() order ("Mon-Thu", "Sat-Sun").
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const SHORT_DAY = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Tool names are fixed by the code, so these rules are not part of the clinic config.
+const TOOL_RULES = [
+  "When booking, call 'bookAppointment' as soon as you have name, service, date, and time. Read the returned details back and only call it again with patientConfirmed true after the patient says yes. Then tell them their reference code.",
+  "If 'bookAppointment' returns an error, explain the reason and offer the suggestedSlots instead.",
+  "After a booking, collect the intake form one question at a time: contact number, age, new or returning patient, medical conditions, and allergies. Call 'submitIntakeForm' with each answer as soon as you hear it, then ask the patient to check the intake card on screen and press Confirm.",
+  "Use 'checkAvailability' before suggesting a schedule. To move or cancel a booking, find it with 'lookupMyAppointments' first and confirm with the patient.",
+  "For prices, durations, preparation or aftercare, call 'getServiceInfo' (or 'listServices' for an overview). Quote only what it returns, never guess a price, and say the prices are estimates.",
+  "If the patient mentions pain, swelling, bleeding, fever, an injury, or trouble breathing or swallowing, call 'assessUrgency' before anything else and follow its nextStep. Never diagnose; for an emergency, send them to the nearest emergency room first.",
+  "If the patient asks for a person, or you cannot help, ask for the best number to call and call 'requestHumanHandoff'."
+];
+
+function rangeLabel(hours: ClinicDayHours | null): string {
+  if (!hours) return 'closed';
+  return `${formatTime(parseClockTime(hours.open)!)}-${formatTime(parseClockTime(hours.close)!)}`;
+}
+
+/** Groups consecutive days with the same hours: "Mon-Thu (4:00 PM-7:00 PM), Sat-Sun (...). CLOSED on Fri." */
+export function summarizeHours(config: ClinicConfig): string {
+  const groups: { first: number; last: number; label: string }[] = [];
+  for (const day of WEEK_ORDER) {
+    const label = rangeLabel(config.hours[WEEKDAYS[day]]);
+    const previous = groups[groups.length - 1];
+    if (previous && previous.label === label) previous.last = day;
+    else groups.push({ first: day, last: day, label });
+  }
+  const name = (g: { first: number; last: number }) =>
+    g.first === g.last ? SHORT_DAY[g.first] : `${SHORT_DAY[g.first]}-${SHORT_DAY[g.last]}`;
+  const open = groups.filter(g => g.label !== 'closed').map(g => `${name(g)} (${g.label})`);
+  const closed = groups.filter(g => g.label === 'closed').map(name);
+  return `${open.join(', ')}.${closed.length ? ` CLOSED on ${closed.join(', ')}.` : ''}`;
+}
+
+export function buildSystemInstruction(config: ClinicConfig, language: Language, today: Date = new Date()): string {
+  const services = config.services.map(s => `${s.title} (${s.durationMinutes} min)`).join(', ');
+  const rules = [
+    ...config.rules,
+    languageProfile(language).promptRule,
+    ...TOOL_RULES
+  ];
+  return [
+    `You are ${config.assistant.name}, the ${config.assistant.role} for ${config.name}.`,
+    `CLINIC DETAILS: ${config.location.city}, ${config.location.province}. Led by ${config.doctor.name}.`,
+    `OPERATING HOURS: ${summarizeHours(config)}`,
+    `TODAY: ${clinicClock(today, config.location.timeZone).date} (${today.toLocaleDateString('en-US', { weekday: 'long', timeZone: config.location.timeZone })}).`,
+    `SERVICES: ${services}.`,
+    'AGENTIC RULES:',
+    ...rules.map((rule, i) => `${i + 1}. ${rule}`)
+  ].join('\n');
+}
+
+/** The greeting is sent as a prompt, so it tells the model what to say rather than being played back. */
+export function buildGreeting(config: ClinicConfig, language: Language): string {
+  return `Greet the patient warmly in ${languageProfile(language).promptName}. '${config.languages[language].greeting}' Be proactive: if they want an appointment, ask for their name and preferred schedule immediately.`;
+}
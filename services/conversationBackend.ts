@@ -0,0 +1,122 @@
+
+import { Content, FunctionCall, FunctionResponse } from '@google/genai';
+import { TranscriptionEntry } from '../types';
+import { ClinicConfigOverrides } from './clinicConfig';
+import { Language } from './i18n';
+
+export interface ReplyRequest {
+  /** Earlier entries of this conversation, oldest first; the new message is not included. */
+  history: TranscriptionEntry[];
+  message: string;
+  /** Runs a tool call and reports it to the session, so tool calls land in the transcript. */
+  runTool(call: FunctionCall): Promise<FunctionResponse>;
+}
+
+/** Produces the assistant's text reply for one user message. */
+export interface ConversationBackend {
+  reply(request: ReplyRequest): Promise<string>;
+}
+
+/** The backend can't serve this request at all (offline, mock server), as opposed to a model error. */
+export class BackendUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackendUnavailableError';
+  }
+}
+
+// Keeps a confused model from looping on tool calls forever.
+const MAX_TOOL_ROUNDS = 5;
+const MAX_HISTORY_TURNS = 30;
+
+type ChatResponse =
+  | { mode: 'text'; content: Content }
+  | { mode: 'mock' };
+
+/**
+ * Gemini text chat through the session server's /api/chat, with tools run locally like in voice mode.
+ * The server builds the system instruction and tool declarations itself from the language and the
+ * page's clinic overrides, the same ones voice sessions are configured with.
+ */
+export class RemoteTextBackend implements ConversationBackend {
+  constructor(
+    private readonly endpoint: string,
+    private readonly language: Language,
+    private readonly clinicOverrides: ClinicConfigOverrides = {}
+  ) {}
+
+  async reply(request: ReplyRequest): Promise<string> {
+    const contents: Content[] = request.history.slice(-MAX_HISTORY_TURNS).map(entry => ({
+      role: entry.role === 'user' ? 'user' : 'model',
+      parts: [{ text: entry.text }]
+    }));
+    contents.push({ role: 'user', parts: [{ text: request.message }] });
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const content = await this.generate(contents);
+      const calls = (content.parts ?? []).flatMap(part => (part.functionCall ? [part.functionCall] : []));
+      if (!calls.length) {
+        return (content.parts ?? []).map(part => part.text ?? '').join('').trim();
+      }
+      contents.push(content);
+      const responses = await Promise.all(calls.map(call => request.runTool(call)));
+      contents.push({ role: 'user', parts: responses.map(functionResponse => ({ functionResponse })) });
+    }
+    throw new Error('The assistant kept calling tools without answering.');
+  }
+
+  private async generate(contents: Content[]): Promise<Content> {
+    let res: Response;
+    try {
+      res = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language: this.language, clinic: this.clinicOverrides, contents })
+      });
+    } catch {
+      throw new BackendUnavailableError('Could not reach the session server.');
+    }
+    const body = await res.json().catch(() => ({}));
+    // Nothing more will be answered today; the offline responder takes the rest of the conversation.
+    if (body.error === 'DAILY_CAP_REACHED') throw new BackendUnavailableError(body.reason);
+    if (!res.ok) throw new Error(body.reason ?? `Session server responded with ${res.status}.`);
+    const reply = body as ChatResponse;
+    if (reply.mode === 'mock') throw new BackendUnavailableError('The session server is in mock mode.');
+    return reply.content;
+  }
+}
+
+/**
+ * Tries each backend in order and answers with the first that works. A backend that reports
+ * BackendUnavailableError is skipped for the rest of the conversation instead of being retried per message.
+ * A backend that fails after running a tool is not retried on the next one: the message would be handled
+ * again and the tool, e.g. a booking, could run twice.
+ */
+export class FallbackBackend implements ConversationBackend {
+  private readonly unavailable = new Set<ConversationBackend>();
+
+  constructor(private readonly backends: ConversationBackend[]) {}
+
+  async reply(request: ReplyRequest): Promise<string> {
+    let lastError: unknown = new BackendUnavailableError('No conversation backend configured.');
+    for (const backend of this.backends) {
+      if (this.unavailable.has(backend)) continue;
+      let ranTools = false;
+      try {
+        return await backend.reply({
+          ...request,
+          runTool: call => {
+            ranTools = true;
+            return request.runTool(call);
+          }
+        });
+      } catch (err) {
+        if (err instanceof BackendUnavailableError) this.unavailable.add(backend);
+        if (ranTools) throw err;
+        console.warn('Conversation backend failed, trying the next one', err);
+        lastError = err;
+      }
+    }
+    throw lastError;
+  }
+}
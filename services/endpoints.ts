@@ -0,0 +1,29 @@
+
+/** Where the browser reaches the session server. */
+export interface Endpoints {
+  /** Hands out short-lived Live API tokens; the API key stays on the server. */
+  session: string;
+  chat: string;
+  notify: string;
+  /** Unset in production; the end-to-end tests point it at their scripted Live server. */
+  liveBaseUrl?: string;
+}
+
+// Build-time values for the full-page app; same-origin paths work behind the dev proxy or a reverse proxy.
+export const endpoints: Endpoints = {
+  session: process.env.SESSION_ENDPOINT || '/api/live-token',
+  chat: process.env.CHAT_ENDPOINT || '/api/chat',
+  notify: process.env.NOTIFY_ENDPOINT || '/api/notify',
+  liveBaseUrl: process.env.LIVE_BASE_URL || undefined
+};
+
+/**
+ * Lets the embeddable widget point at the clinic's session server from the host page.
+ * Must run before services/appServices is imported: the notifier reads `notify` once.
+ */
+export function configureEndpoints(overrides: Partial<Endpoints>): void {
+  (Object.keys(overrides) as (keyof Endpoints)[]).forEach(key => {
+    const value = overrides[key];
+    if (value) endpoints[key] = value;
+  });
+}
@@ -0,0 +1,297 @@
+
+import { FunctionCall } from '@google/genai';
+import { ClinicConfig } from './clinicConfig';
+import { summarizeHours } from './clinicPrompt';
+import { ConversationBackend, ReplyRequest } from './conversationBackend';
+import { clinicClock, formatDate, parseDate } from './scheduling';
+import { Language, MessageKey, Translate, createTranslator } from './i18n';
+import { parseContactNumber } from './intakeForm';
+import { findService } from './serviceCatalog';
+
+interface BookingDraft {
+  clientName?: string;
+  appointmentDate?: string;
+  appointmentTime?: string;
+  purpose?: string;
+}
+
+type DraftField = keyof BookingDraft;
+
+const BOOKING_QUESTIONS: Record<DraftField, MessageKey> = {
+  clientName: 'offlineAskName',
+  purpose: 'offlineAskPurpose',
+  appointmentDate: 'offlineAskDate',
+  appointmentTime: 'offlineAskTime'
+};
+const FIELD_ORDER: DraftField[] = ['clientName', 'purpose', 'appointmentDate', 'appointmentTime'];
+
+const WEEKDAY_WORDS: [RegExp, number][] = [
+  [/\b(sunday|sun)\b/, 0],
+  [/\b(monday|mon|lunes)\b/, 1],
+  [/\b(tuesday|tue|tues|martes)\b/, 2],
+  [/\b(wednesday|wed|miyerkules)\b/, 3],
+  [/\b(thursday|thu|thurs|huwebes)\b/, 4],
+  [/\b(friday|fri|biyernes)\b/, 5],
+  [/\b(saturday|sat|sabado)\b/, 6]
+];
+
+const SYMPTOMS = /\b(pain|painful|hurts?|aching|toothache|sakit|masakit|swell\w*|swollen|maga|namamaga|bleed\w*|blood|dugo|dumudugo|fever|lagnat|knocked out|accident|can'?t breathe|hirap huminga)\b/;
+const ASKS_FOR_PERSON = /\b(human|real person|a person|staff|receptionist|someone|call me|tawagan|makausap ng tao)\b/;
+
+function has(text: string, pattern: RegExp): boolean {
+  return pattern.test(text);
+}
+
+function list(items: string[]): string {
+  return items.map(item => `- ${item}`).join('\n');
+}
+
+export function extractPhoneNumber(text: string): string | null {
+  const match = text.match(/\+?\d[\d\s().-]{5,}\d/);
+  return match ? parseContactNumber(match[0]) : null;
+}
+
+/** Finds "2025-06-14", "today", "tomorrow" or a weekday (the next one, today included). */
+export function extractDate(text: string, now: Date): string | undefined {
+  const iso = /\b(\d{4}-\d{2}-\d{2})\b/.exec(text);
+  if (iso) return iso[1];
+  // "Today" is the clinic's, not the visitor's.
+  const today = parseDate(clinicClock(now).date)!;
+  if (has(text, /\b(today|ngayon)\b/)) return formatDate(today);
+  if (has(text, /\btomorrow\b/)) return formatDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1));
+  for (const [pattern, day] of WEEKDAY_WORDS) {
+    if (pattern.test(text)) {
+      const offset = (day - today.getDay() + 7) % 7;
+      return formatDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset));
+    }
+  }
+  return undefined;
+}
+
+/** Returns the time as written ("5pm", "5:30 p.m.", "17:00"); the scheduler does the parsing. */
+export function extractTime(text: string): string | undefined {
+  const match = /\b(\d{1,2}(?::\d{2})?\s*[ap]\.?\s*m\.?|\d{1,2}:\d{2}|noon)(?![\w-])/.exec(text);
+  return match?.[1];
+}
+
+export function extractName(original: string): string | undefined {
+  const match = /\b(?:my name is|name's|i am|i'm|ako si|ako po si|this is)\s+([A-Za-zÀ-ÿñÑ][A-Za-zÀ-ÿñÑ.' -]{1,40}?)(?=\s*(?:[,.!?]|\band\b|\bat\b|\bon\b|$))/i.exec(original);
+  return match?.[1].trim();
+}
+
+/**
+ * Rule-based stand-in for the model, built from the clinic config, used when there is no network
+ * or no API key. Answers the common questions and walks the patient through a booking using the
+ * same tools as the model, so bookings and the transcript look the same as in a normal session.
+ */
+export class LocalFaqBackend implements ConversationBackend {
+  private draft: BookingDraft | null = null;
+  private awaiting: DraftField | 'confirmation' | null = null;
+  // Set after offering a callback; the next message is read as the number to call.
+  private callbackReason: string | null = null;
+  private readonly t: Translate;
+
+  constructor(
+    private readonly clinic: ClinicConfig,
+    private readonly language: Language = clinic.assistant.defaultLanguage,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.t = createTranslator(language);
+  }
+
+  async reply(request: ReplyRequest): Promise<string> {
+    const original = request.message.trim();
+    const text = original.toLowerCase();
+    const call = async (name: string, args: Record<string, unknown>) =>
+      (await request.runTool({ name, args } as FunctionCall)).response ?? {};
+
+    if (this.draft && has(text, /\b(never ?mind|cancel that|stop|huwag na)\b/)) {
+      this.draft = null;
+      this.awaiting = null;
+      return this.t('offlineBookingStopped');
+    }
+    if (this.callbackReason) {
+      const reason = this.callbackReason;
+      this.callbackReason = null;
+      const contactNumber = extractPhoneNumber(original);
+      if (contactNumber) return this.requestCallback(reason, contactNumber, call);
+    }
+    if (!this.draft && has(text, SYMPTOMS)) {
+      return this.triage(original, call);
+    }
+    if (has(text, ASKS_FOR_PERSON)) {
+      const reason = 'Patient asked to talk to a person.';
+      const contactNumber = extractPhoneNumber(original);
+      if (contactNumber) return this.requestCallback(reason, contactNumber, call);
+      this.callbackReason = reason;
+      return this.t('offlineAskCallbackNumber');
+    }
+
+    if (this.draft || (has(text, /\b(book|booking|appointment|schedule|reserve|pa-?book|pa-?schedule)\b/) && !has(text, /\bmy (appointments?|bookings?)\b/))) {
+      return this.continueBooking(original, text, call);
+    }
+
+    if (has(text, /\bmy (appointments?|bookings?)\b/)) {
+      const clientName = extractName(original);
+      if (!clientName) return this.t('offlineAskBookingName');
+      const result = await call('lookupMyAppointments', { clientName });
+      const appointments = (result.appointments as Record<string, unknown>[] | undefined) ?? [];
+      if (!appointments.length) return this.t('offlineNoAppointments', { name: clientName });
+      return this.t('offlineAppointments', {
+        name: clientName,
+        list: list(appointments.map(a => `${a.date} ${a.time}: ${a.service} (${String(a.status).toLowerCase()})`))
+      });
+    }
+
+    const service = findService(this.clinic.services, text);
+    if (has(text, /\b(available|availability|open slots?|free slots?|bakante)\b/)) {
+      const date = extractDate(text, this.now());
+      if (!date) return this.t('offlineAskDay');
+      const result = await call('checkAvailability', { date, purpose: service?.title });
+      if (result.status !== 'success') return String(result.reason ?? this.t('offlineCheckFailed'));
+      const slots = (result.openSlots as { time: string }[]).map(s => s.time);
+      if (slots.length) return this.t('offlineOpenSlots', { date, hours: String(result.hours), times: slots.join(', ') });
+      const next = (result.nextOpenSlots as { date: string; time: string }[]).map(s => `${s.date} ${s.time}`);
+      return this.t(result.isOpen ? 'offlineNoSlots' : 'offlineNoSlotsClosed', { date, next: next.join(', ') });
+    }
+
+    if (has(text, /\b(prepare|preparation|before|aftercare|after care|after|recovery|ingat)\b/) && service) {
+      const info = await call('getServiceInfo', { service: service.title });
+      const wantsAftercare = has(text, /\b(aftercare|after care|after|recovery|ingat)\b/);
+      const notes = (wantsAftercare ? info.aftercare : info.preparation) as string[];
+      return this.t(wantsAftercare ? 'offlineAftercare' : 'offlinePreparation', { service: String(info.title), list: list(notes) });
+    }
+
+    if (has(text, /\b(price|prices|cost|how much|magkano|rate|rates|fee|fees)\b/)) {
+      if (service) {
+        const info = await call('getServiceInfo', { service: service.title });
+        return this.t('offlineServicePrice', {
+          service: String(info.title),
+          price: String(info.price),
+          minutes: String(info.durationMinutes),
+          note: String(info.pricingNote)
+        });
+      }
+      const result = await call('listServices', {});
+      const services = result.services as { title: string; price: string }[];
+      return this.t('offlinePriceList', { list: list(services.map(s => `${s.title}: ${s.price}`)), note: String(result.pricingNote) });
+    }
+
+    if (has(text, /\b(hours?|open|close|closed|oras|bukas ba)\b/)) {
+      return this.t('offlineHours', { hours: summarizeHours(this.clinic) });
+    }
+    if (has(text, /\b(where|location|address|located|saan|directions?)\b/)) {
+      return this.t('offlineLocation', { name: this.clinic.name, city: this.clinic.location.city, province: this.clinic.location.province });
+    }
+    if (has(text, /\b(doctor|dentist|dr|doktor|dentista)\b/)) {
+      return this.t('offlineDoctor', { doctor: this.clinic.doctor.name });
+    }
+    if (service) {
+      return this.t('offlineServiceInfo', { service: service.title, description: service.description });
+    }
+    if (has(text, /\b(services?|offer|treatments?|procedures?)\b/)) {
+      return this.t('offlineServiceList', { list: list(this.clinic.services.map(s => s.title)) });
+    }
+    if (has(text, /\b(hi|hello|hey|kumusta|kamusta|good (morning|afternoon|evening))\b/)) {
+      return this.clinic.languages[this.language].greeting;
+    }
+    if (has(text, /\b(thanks|thank you|salamat)\b/)) {
+      return this.t('offlineThanks');
+    }
+    return this.t('offlineFallback');
+  }
+
+  private async continueBooking(
+    original: string,
+    text: string,
+    call: (name: string, args: Record<string, unknown>) => Promise<Record<string, unknown>>
+  ): Promise<string> {
+    const draft = this.draft ?? {};
+    this.draft = draft;
+
+    if (this.awaiting === 'confirmation') {
+      if (has(text, /^(yes|yup|yeah|oo|opo|sige|tama|correct|confirm)\b/)) {
+        const result = await call('bookAppointment', { ...draft, patientConfirmed: true });
+        if (result.status === 'success') {
+          this.draft = null;
+          this.awaiting = null;
+          return this.t('offlineBooked', { reference: String(result.reference), ...this.readBack(result) });
+        }
+        return this.bookingFailed(draft, result);
+      }
+      this.awaiting = null;
+    }
+    const before = JSON.stringify(draft);
+
+    const service = findService(this.clinic.services, text);
+    draft.clientName = extractName(original) ?? draft.clientName;
+    draft.purpose = service?.title ?? draft.purpose;
+    draft.appointmentDate = extractDate(text, this.now()) ?? draft.appointmentDate;
+    draft.appointmentTime = extractTime(text) ?? draft.appointmentTime;
+    // A bare answer to the question just asked, e.g. "Juan Dela Cruz" or "consultation".
+    if (this.awaiting === 'clientName' && !draft.clientName && /^[A-Za-zÀ-ÿñÑ.' -]{2,60}$/.test(original)) {
+      draft.clientName = original;
+    }
+    if (this.awaiting === 'purpose' && !draft.purpose) draft.purpose = original;
+
+    // A plain "no" to the read-back, with no corrected detail in it.
+    if (JSON.stringify(draft) === before && has(text, /^(no|nope|hindi|mali)\b/)) {
+      return this.t('offlineWhatToChange');
+    }
+
+    const missing = FIELD_ORDER.find(field => !draft[field]);
+    if (missing) {
+      this.awaiting = missing;
+      return this.t(BOOKING_QUESTIONS[missing]);
+    }
+
+    const result = await call('bookAppointment', { ...draft });
+    if (result.status === 'needs_confirmation') {
+      this.awaiting = 'confirmation';
+      return this.t('offlineReadBack', this.readBack(result));
+    }
+    return this.bookingFailed(draft, result);
+  }
+
+  private async triage(original: string, call: (name: string, args: Record<string, unknown>) => Promise<Record<string, unknown>>): Promise<string> {
+    const result = await call('assessUrgency', { symptoms: original });
+    if (result.status !== 'success') return this.t('offlineTriageFailed', { phone: this.clinic.emergency.phone });
+    const reasons = (result.reasons as string[]).join(', ').toLowerCase();
+    const guidance = list(result.guidance as string[]);
+    this.callbackReason = `Reported symptoms (${result.urgency}): ${original}`;
+
+    if (result.urgency === 'emergency') {
+      return this.t('offlineEmergency', { reasons, guidance, phone: String(result.clinicPhone) });
+    }
+    if (result.urgency === 'urgent') {
+      const contact = result.clinicOpen
+        ? this.t('offlineCallNow', { phone: String(result.clinicPhone) })
+        : String(result.afterHours);
+      return this.t('offlineUrgent', { reasons, guidance, contact });
+    }
+    return this.t('offlineRoutine');
+  }
+
+  private async requestCallback(
+    reason: string,
+    contactNumber: string,
+    call: (name: string, args: Record<string, unknown>) => Promise<Record<string, unknown>>
+  ): Promise<string> {
+    const result = await call('requestHumanHandoff', { reason, contactNumber });
+    if (result.status !== 'success') return String(result.reason ?? this.t('offlineCallbackFailed'));
+    return this.t('offlineCallbackQueued', { number: String(result.contactNumber) });
+  }
+
+  private bookingFailed(draft: BookingDraft, result: Record<string, unknown>): string {
+    const suggestions = ((result.suggestedSlots as { date: string; time: string }[] | undefined) ?? []).map(s => `${s.date} ${s.time}`);
+    draft.appointmentDate = undefined;
+    draft.appointmentTime = undefined;
+    this.awaiting = 'appointmentDate';
+    const next = suggestions.length ? this.t('offlineNearbySlots', { slots: suggestions.join(', ') }) : this.t('offlineOtherTime');
+    return `${result.reason ?? this.t('offlineTimeUnavailable')} ${next}`;
+  }
+
+  private readBack(result: Record<string, unknown>): Record<string, string> {
+    return { service: String(result.service), date: String(result.date), time: String(result.time), name: String(result.clientName) };
+  }
+}
@@ -0,0 +1,227 @@
+
+import { Type } from '@google/genai';
+import { CallbackRequest, CallbackStatus, TranscriptionEntry, Urgency } from '../types';
+import { parseContactNumber } from './intakeForm';
+import { defineTool, optionalString, requireString, ToolArgumentError, ToolDefinition } from './toolRegistry';
+
+export interface CallbackStore {
+  load(): Promise<CallbackRequest[]>;
+  save(requests: CallbackRequest[]): Promise<void>;
+}
+
+export class MemoryCallbackStore implements CallbackStore {
+  private requests: CallbackRequest[] = [];
+
+  async load(): Promise<CallbackRequest[]> {
+    return [...this.requests];
+  }
+
+  async save(requests: CallbackRequest[]): Promise<void> {
+    this.requests = [...requests];
+  }
+}
+
+export class LocalStorageCallbackStore implements CallbackStore {
+  constructor(private readonly key: string = 'gcmia.callbacks') {}
+
+  async load(): Promise<CallbackRequest[]> {
+    const raw = localStorage.getItem(this.key);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async save(requests: CallbackRequest[]): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(requests));
+  }
+}
+
+export function createDefaultCallbackStore(): CallbackStore {
+  try {
+    if (typeof localStorage !== 'undefined') return new LocalStorageCallbackStore();
+  } catch {
+    // Storage access throws in sandboxed iframes with cookies disabled.
+  }
+  return new MemoryCallbackStore();
+}
+
+export interface CallbackInput {
+  sessionId: string | null;
+  patientName: string | null;
+  contactNumber: string;
+  reason: string;
+  urgency: Urgency | null;
+  preferredTime: string | null;
+  transcript: TranscriptionEntry[];
+}
+
+const URGENCY_ORDER: Record<Urgency, number> = { emergency: 0, urgent: 1, routine: 2 };
+
+/** Open requests first, most urgent first, then oldest first so nobody waits at the bottom. */
+export function sortCallbacks(requests: CallbackRequest[]): CallbackRequest[] {
+  const rank = (r: CallbackRequest) => (r.urgency ? URGENCY_ORDER[r.urgency] : 3);
+  return [...requests].sort((a, b) =>
+    (a.status === CallbackStatus.OPEN ? 0 : 1) - (b.status === CallbackStatus.OPEN ? 0 : 1)
+    || rank(a) - rank(b)
+    || (a.status === CallbackStatus.OPEN ? a.createdAt - b.createdAt : b.createdAt - a.createdAt));
+}
+
+function generateCallbackId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `cb-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Patients waiting for a call from clinic staff. Shared by the patient view and the staff dashboard. */
+export class CallbackQueue {
+  private requests: CallbackRequest[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly listeners = new Set<(requests: CallbackRequest[]) => void>();
+
+  constructor(
+    private readonly store: CallbackStore = createDefaultCallbackStore(),
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /** A second request from the same conversation updates the open one instead of queueing a duplicate call. */
+  enqueue(input: CallbackInput): Promise<CallbackRequest> {
+    return this.exclusive(async () => {
+      const requests = await this.load();
+      const existing = input.sessionId
+        ? requests.find(r => r.sessionId === input.sessionId && r.status === CallbackStatus.OPEN)
+        : undefined;
+      const request: CallbackRequest = existing
+        ? {
+          ...existing,
+          ...input,
+          patientName: input.patientName ?? existing.patientName,
+          urgency: input.urgency ?? existing.urgency,
+          preferredTime: input.preferredTime ?? existing.preferredTime
+        }
+        : { id: generateCallbackId(), ...input, status: CallbackStatus.OPEN, createdAt: this.now().getTime(), resolvedAt: null };
+      await this.persist(existing ? requests.map(r => (r.id === existing.id ? request : r)) : [...requests, request]);
+      return request;
+    });
+  }
+
+  resolve(id: string): Promise<CallbackRequest | null> {
+    return this.exclusive(async () => {
+      const requests = await this.load();
+      const existing = requests.find(r => r.id === id);
+      if (!existing) return null;
+      const updated: CallbackRequest = { ...existing, status: CallbackStatus.DONE, resolvedAt: this.now().getTime() };
+      await this.persist(requests.map(r => (r.id === id ? updated : r)));
+      return updated;
+    });
+  }
+
+  /** Drops the cache so requests written by another tab are picked up. */
+  reload(): Promise<CallbackRequest[]> {
+    return this.exclusive(async () => {
+      this.requests = null;
+      const requests = await this.load();
+      this.notify();
+      return [...requests];
+    });
+  }
+
+  onChange(listener: (requests: CallbackRequest[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private async load(): Promise<CallbackRequest[]> {
+    if (!this.requests) this.requests = await this.store.load();
+    return this.requests;
+  }
+
+  private async persist(requests: CallbackRequest[]): Promise<void> {
+    await this.store.save(requests);
+    this.requests = requests;
+    this.notify();
+  }
+
+  private notify(): void {
+    const snapshot = [...(this.requests ?? [])];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export interface HandoffArgs {
+  reason: string;
+  contactNumber: string;
+  patientName?: string;
+  preferredTime?: string;
+}
+
+/** What the handoff tool reads from the running conversation. */
+export interface HandoffContext {
+  /** The running conversation; null before the first session starts. */
+  sessionId(): string | null;
+  /** Every entry on the page; only the running conversation's are attached to the request. */
+  transcript(): TranscriptionEntry[];
+  /** The latest triage result, so staff see how soon to call. */
+  urgency(): Urgency | null;
+  onQueued?(request: CallbackRequest): void;
+}
+
+export function createHandoffTools(queue: CallbackQueue, context: HandoffContext): ToolDefinition<any>[] {
+  const requestHumanHandoff = defineTool<HandoffArgs>({
+    declaration: {
+      name: 'requestHumanHandoff',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Queue a callback from clinic staff and flag this conversation for them, with the transcript attached. Use it when the patient asks for a person, after an urgent or emergency triage, or when you cannot help. Ask for the best number to call first.',
+        properties: {
+          reason: { type: Type.STRING, description: 'Why the patient needs a person, in one sentence.' },
+          contactNumber: { type: Type.STRING, description: 'Number to call back (e.g., 0917 123 4567).' },
+          patientName: { type: Type.STRING, description: "Patient's name, if given." },
+          preferredTime: { type: Type.STRING, description: 'When the patient would like the call, if they said.' },
+        },
+        required: ['reason', 'contactNumber'],
+      },
+    },
+    parse: raw => {
+      const contactNumber = parseContactNumber(requireString(raw, 'contactNumber'));
+      if (!contactNumber) throw new ToolArgumentError('contactNumber must be a phone number with 7 to 15 digits.');
+      return {
+        reason: requireString(raw, 'reason'),
+        contactNumber,
+        patientName: optionalString(raw, 'patientName'),
+        preferredTime: optionalString(raw, 'preferredTime')
+      };
+    },
+    handle: async args => {
+      const sessionId = context.sessionId();
+      const transcript = sessionId ? context.transcript().filter(entry => entry.sessionId === sessionId) : [];
+      const request = await queue.enqueue({
+        sessionId,
+        patientName: args.patientName ?? null,
+        contactNumber: args.contactNumber,
+        reason: args.reason,
+        urgency: context.urgency(),
+        preferredTime: args.preferredTime ?? null,
+        transcript
+      });
+      context.onQueued?.(request);
+      return {
+        status: 'success',
+        callbackId: request.id,
+        contactNumber: request.contactNumber,
+        urgency: request.urgency,
+        nextStep: 'Tell the patient a staff member will call them at this number, and that they can keep chatting with you meanwhile. If it is an emergency, remind them not to wait for the call.'
+      };
+    }
+  });
+
+  return [requestHumanHandoff];
+}
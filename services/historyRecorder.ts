@@ -0,0 +1,54 @@
+
+import { ConnectionStatus, ConversationSession } from '../types';
+import { HistoryStore } from './historyStore';
+import { AssistantSession } from './liveSession';
+
+const PREVIEW_LENGTH = 120;
+const HANDOFF_TOOL = 'requestHumanHandoff';
+
+/** Mirrors a session's transcript into the history store. Returns a detach function. */
+export function attachHistory(session: AssistantSession, store: HistoryStore): () => void {
+  let record: ConversationSession | null = null;
+  let startedAt = Date.now();
+  let writes = Promise.resolve();
+
+  // Writes are chained so a session row is never saved ahead of the entry it counts.
+  const enqueue = (task: () => Promise<void>) => {
+    writes = writes.then(task).catch(err => console.error('Failed to save conversation history', err));
+  };
+
+  const offStatus = session.on('status', status => {
+    if (status === ConnectionStatus.CONNECTING) {
+      startedAt = Date.now();
+      record = null;
+    }
+    if (record && (status === ConnectionStatus.DISCONNECTED || status === ConnectionStatus.ERROR)) {
+      const snapshot: ConversationSession = { ...record, endedAt: Date.now() };
+      record = snapshot;
+      enqueue(() => store.saveSession(snapshot));
+    }
+  });
+
+  const offTranscript = session.on('transcript', entry => {
+    if (!record || record.id !== entry.sessionId) {
+      record = { id: entry.sessionId, startedAt, endedAt: null, entryCount: 0, bookingCount: 0, preview: '' };
+    }
+    const snapshot: ConversationSession = {
+      ...record,
+      entryCount: record.entryCount + 1,
+      bookingCount: record.bookingCount + (entry.bookings?.length ?? 0),
+      flagged: record.flagged || !!entry.toolCalls?.some(call => call.name === HANDOFF_TOOL && call.response.status === 'success'),
+      preview: record.preview || (entry.role === 'user' ? entry.text.slice(0, PREVIEW_LENGTH) : '')
+    };
+    record = snapshot;
+    enqueue(async () => {
+      await store.appendEntry(entry);
+      await store.saveSession(snapshot);
+    });
+  });
+
+  return () => {
+    offStatus();
+    offTranscript();
+  };
+}
@@ -0,0 +1,127 @@
+
+import { ConversationSession, TranscriptionEntry } from '../types';
+
+export interface HistoryStore {
+  listSessions(): Promise<ConversationSession[]>;
+  getSession(id: string): Promise<ConversationSession | null>;
+  getEntries(sessionId: string): Promise<TranscriptionEntry[]>;
+  saveSession(session: ConversationSession): Promise<void>;
+  appendEntry(entry: TranscriptionEntry): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+}
+
+function newestFirst(a: ConversationSession, b: ConversationSession): number {
+  return b.startedAt - a.startedAt;
+}
+
+export class MemoryHistoryStore implements HistoryStore {
+  private sessions = new Map<string, ConversationSession>();
+  private entries: TranscriptionEntry[] = [];
+
+  async listSessions(): Promise<ConversationSession[]> {
+    return [...this.sessions.values()].sort(newestFirst);
+  }
+
+  async getSession(id: string): Promise<ConversationSession | null> {
+    return this.sessions.get(id) ?? null;
+  }
+
+  async getEntries(sessionId: string): Promise<TranscriptionEntry[]> {
+    return this.entries.filter(e => e.sessionId === sessionId);
+  }
+
+  async saveSession(session: ConversationSession): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async appendEntry(entry: TranscriptionEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+    this.entries = this.entries.filter(e => e.sessionId !== id);
+  }
+}
+
+const DB_NAME = 'gcmia-history';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const ENTRIES = 'entries';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export class IndexedDbHistoryStore implements HistoryStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  async listSessions(): Promise<ConversationSession[]> {
+    const store = await this.store(SESSIONS, 'readonly');
+    return (await request<ConversationSession[]>(store.getAll())).sort(newestFirst);
+  }
+
+  async getSession(id: string): Promise<ConversationSession | null> {
+    const store = await this.store(SESSIONS, 'readonly');
+    return (await request<ConversationSession | undefined>(store.get(id))) ?? null;
+  }
+
+  async getEntries(sessionId: string): Promise<TranscriptionEntry[]> {
+    const store = await this.store(ENTRIES, 'readonly');
+    const entries = await request<TranscriptionEntry[]>(store.index('sessionId').getAll(sessionId));
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async saveSession(session: ConversationSession): Promise<void> {
+    const store = await this.store(SESSIONS, 'readwrite');
+    await request(store.put(session));
+  }
+
+  async appendEntry(entry: TranscriptionEntry): Promise<void> {
+    const store = await this.store(ENTRIES, 'readwrite');
+    await request(store.add(entry));
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS, ENTRIES], 'readwrite');
+    tx.objectStore(SESSIONS).delete(id);
+    const keys = await request(tx.objectStore(ENTRIES).index('sessionId').getAllKeys(id));
+    keys.forEach(key => tx.objectStore(ENTRIES).delete(key));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          if (!db.objectStoreNames.contains(ENTRIES)) {
+            const entries = db.createObjectStore(ENTRIES, { autoIncrement: true });
+            entries.createIndex('sessionId', 'sessionId');
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+export function createDefaultHistoryStore(): HistoryStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDbHistoryStore() : new MemoryHistoryStore();
+}
@@ -0,0 +1,529 @@
+
+export type Language = 'taglish' | 'english' | 'filipino';
+
+export interface LanguageProfile {
+  id: Language;
+  /** Shown in the language selector. */
+  label: string;
+  /** BCP 47 tag for the <html lang> attribute. */
+  htmlLang: string;
+  /** How the prompt names the language, e.g. in the greeting instruction. */
+  promptName: string;
+  /** Added to the system prompt's rules. */
+  promptRule: string;
+}
+
+export const LANGUAGES: LanguageProfile[] = [
+  {
+    id: 'taglish',
+    label: 'Taglish',
+    htmlLang: 'fil',
+    promptName: 'Taglish (Filipino-English mix)',
+    promptRule: 'Speak Taglish, the natural Filipino-English mix, to sound local and friendly.'
+  },
+  {
+    id: 'english',
+    label: 'English',
+    htmlLang: 'en',
+    promptName: 'English',
+    promptRule: 'Speak only English, in clear and simple sentences, even if the patient uses Filipino words. Many of these patients are foreigners.'
+  },
+  {
+    id: 'filipino',
+    label: 'Filipino',
+    htmlLang: 'fil',
+    promptName: 'Filipino (Tagalog)',
+    promptRule: "Speak only Filipino (Tagalog). Be polite with 'po' and 'opo', speak slowly and use everyday words, since many of these patients are elderly. Use English only for a medical term with no common Filipino word."
+  }
+];
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.some(l => l.id === value);
+}
+
+export function languageProfile(language: Language): LanguageProfile {
+  return LANGUAGES.find(l => l.id === language)!;
+}
+
+/** Patient-facing UI strings. {placeholders} are filled in by the translator. */
+export interface Messages {
+  history: string;
+  language: string;
+  languageLocked: string;
+  continueInTextChat: string;
+  reconnecting: string;
+  appointmentRequested: string;
+  bookingConfirmTitle: string;
+  bookingConfirmHint: string;
+  bookingConfirmAction: string;
+  bookingConfirmMessage: string;
+  referenceCode: string;
+  addToCalendar: string;
+  printSummary: string;
+  bookingSummaryTitle: string;
+  bookingKeepReference: string;
+  summaryPatient: string;
+  summaryService: string;
+  summaryDate: string;
+  summaryTime: string;
+  summaryStatus: string;
+  summaryLocation: string;
+  summaryHours: string;
+  statusPending: string;
+  talkTo: string;
+  talkSubtitle: string;
+  typing: string;
+  textChat: string;
+  processingBooking: string;
+  startConsultation: string;
+  endConversation: string;
+  endChat: string;
+  handsFree: string;
+  pushToTalk: string;
+  holdToTalk: string;
+  liveTranscript: string;
+  clear: string;
+  transcriptEmpty: string;
+  typeMessage: string;
+  ourServices: string;
+  viewDetails: string;
+  priceRange: string;
+  typicalDuration: string;
+  minutes: string;
+  beforeYourVisit: string;
+  aftercare: string;
+  intakeTitle: string;
+  intakeFor: string;
+  intakePending: string;
+  intakeSaved: string;
+  intakeContactNumber: string;
+  intakeAge: string;
+  intakePatientType: string;
+  intakeMedicalConditions: string;
+  intakeAllergies: string;
+  intakeSelect: string;
+  intakeNewPatient: string;
+  intakeReturningPatient: string;
+  intakeListPlaceholder: string;
+  intakeMissing: string;
+  intakeWaitingForBooking: string;
+  intakeSaving: string;
+  intakeSaveFailed: string;
+  intakeConfirmed: string;
+  intakeConfirm: string;
+  talkToPerson: string;
+  talkToPersonMessage: string;
+  triageEmergency: string;
+  triageUrgent: string;
+  triageRoutine: string;
+  triageWhatToDo: string;
+  triageCallClinic: string;
+  triageHotline: string;
+  triageAfterHours: string;
+  callbackTitle: string;
+  callbackQueued: string;
+  recordCall: string;
+  recordCallConsent: string;
+  recordingActive: string;
+  openAssistant: string;
+  closeAssistant: string;
+  sendMessage: string;
+  dismiss: string;
+  accessibility: string;
+  highContrast: string;
+  reduceMotion: string;
+  liveCaptions: string;
+  holdSpaceToTalk: string;
+  socialLink: string;
+  skipToChat: string;
+  // Replies of the offline responder, used when the model can't be reached.
+  offlineBookingStopped: string;
+  offlineAskName: string;
+  offlineAskPurpose: string;
+  offlineAskDate: string;
+  offlineAskTime: string;
+  offlineAskCallbackNumber: string;
+  offlineAskBookingName: string;
+  offlineNoAppointments: string;
+  offlineAppointments: string;
+  offlineAskDay: string;
+  offlineCheckFailed: string;
+  offlineOpenSlots: string;
+  offlineNoSlots: string;
+  offlineNoSlotsClosed: string;
+  offlinePreparation: string;
+  offlineAftercare: string;
+  offlineServicePrice: string;
+  offlinePriceList: string;
+  offlineHours: string;
+  offlineLocation: string;
+  offlineDoctor: string;
+  offlineServiceInfo: string;
+  offlineServiceList: string;
+  offlineThanks: string;
+  offlineFallback: string;
+  offlineBooked: string;
+  offlineWhatToChange: string;
+  offlineReadBack: string;
+  offlineTriageFailed: string;
+  offlineEmergency: string;
+  offlineCallNow: string;
+  offlineUrgent: string;
+  offlineRoutine: string;
+  offlineCallbackFailed: string;
+  offlineCallbackQueued: string;
+  offlineTimeUnavailable: string;
+  offlineNearbySlots: string;
+  offlineOtherTime: string;
+}
+
+export type MessageKey = keyof Messages;
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+const english: Messages = {
+  history: 'History',
+  language: 'Language',
+  languageLocked: 'End the conversation to change the language.',
+  continueInTextChat: 'Continue in Text Chat',
+  reconnecting: 'Connection lost. Reconnecting to {name}, your conversation will continue where you left off...',
+  appointmentRequested: 'Appointment Requested',
+  bookingConfirmTitle: 'Please Confirm Your Booking',
+  bookingConfirmHint: '{name} will read these details back. Say "yes" or tap the button if they are correct.',
+  bookingConfirmAction: 'Yes, Book It',
+  bookingConfirmMessage: 'Yes, those details are correct. Please book it.',
+  referenceCode: 'Reference Code',
+  addToCalendar: 'Add to Calendar',
+  printSummary: 'Print Summary',
+  bookingSummaryTitle: 'Booking Summary',
+  bookingKeepReference: 'Keep this reference code. The clinic will contact you to confirm your schedule.',
+  summaryPatient: 'Patient',
+  summaryService: 'Service',
+  summaryDate: 'Date',
+  summaryTime: 'Time',
+  summaryStatus: 'Status',
+  summaryLocation: 'Clinic',
+  summaryHours: 'Clinic Hours',
+  statusPending: 'Waiting for clinic confirmation',
+  talkTo: 'Talk to {name}',
+  talkSubtitle: 'Ask about services, prices, or book an appointment.',
+  typing: 'Typing...',
+  textChat: 'Text Chat',
+  processingBooking: 'Processing Booking...',
+  startConsultation: 'Start Consultation',
+  endConversation: 'End Conversation',
+  endChat: 'End Chat',
+  handsFree: 'Hands-free',
+  pushToTalk: 'Push-to-talk',
+  holdToTalk: 'Hold to Talk',
+  liveTranscript: 'Live Transcript',
+  clear: 'Clear',
+  transcriptEmpty: 'Transcription will appear here during the call.',
+  typeMessage: 'Type a message...',
+  ourServices: 'Our Specializations',
+  viewDetails: 'View Details',
+  priceRange: 'Price Range',
+  typicalDuration: 'Typical Duration',
+  minutes: '{count} minutes',
+  beforeYourVisit: 'Before Your Visit',
+  aftercare: 'Aftercare',
+  intakeTitle: 'Patient Intake Form',
+  intakeFor: 'For {name} • {date} at {time}',
+  intakePending: 'Fills in as you answer. It is saved once your booking is made.',
+  intakeSaved: 'Saved',
+  intakeContactNumber: 'Contact Number',
+  intakeAge: 'Age',
+  intakePatientType: 'New or Returning',
+  intakeMedicalConditions: 'Medical Conditions',
+  intakeAllergies: 'Allergies',
+  intakeSelect: 'Select...',
+  intakeNewPatient: 'New patient',
+  intakeReturningPatient: 'Returning patient',
+  intakeListPlaceholder: 'Separate with commas, or "None"',
+  intakeMissing: 'Please fill in: {fields}.',
+  intakeWaitingForBooking: 'Waiting for a booking...',
+  intakeSaving: 'Saving...',
+  intakeSaveFailed: 'Could not save the form. Please try again.',
+  intakeConfirmed: 'Confirmed',
+  intakeConfirm: 'Confirm Details',
+  talkToPerson: 'Talk to a Person',
+  talkToPersonMessage: 'I would like to talk to a person from the clinic, please.',
+  triageEmergency: 'Needs Care Right Away',
+  triageUrgent: 'See the Dentist Soon',
+  triageRoutine: 'Not an Emergency',
+  triageWhatToDo: 'What to do now',
+  triageCallClinic: 'Call the Clinic',
+  triageHotline: 'Emergency Hotline',
+  triageAfterHours: 'The clinic is closed right now.',
+  callbackTitle: 'Callback Requested',
+  callbackQueued: 'Our staff will call you at {number}. You can keep chatting in the meantime.',
+  recordCall: 'Record this call',
+  recordCallConsent: 'I agree that this voice call, my voice and {name}\'s, is recorded and kept by the clinic for quality review.',
+  recordingActive: 'Recording',
+  openAssistant: 'Chat with {name}',
+  closeAssistant: 'Close',
+  sendMessage: 'Send',
+  dismiss: 'Dismiss',
+  accessibility: 'Accessibility',
+  highContrast: 'High Contrast',
+  reduceMotion: 'Reduce Motion',
+  liveCaptions: 'Live captions',
+  holdSpaceToTalk: 'or hold Space',
+  socialLink: '{name} on {network}',
+  skipToChat: 'Skip to chat',
+  offlineBookingStopped: 'No problem, I stopped the booking. Is there anything else I can help with?',
+  offlineAskName: 'May I have your full name?',
+  offlineAskPurpose: 'What would you like to have done? For example a cleaning, filling or extraction.',
+  offlineAskDate: 'What date would you like to come in? You can say "tomorrow", a day like "Saturday", or a date like 2025-06-14.',
+  offlineAskTime: 'What time works for you? For example 5:00 PM.',
+  offlineAskCallbackNumber: 'Of course. What number should our staff call you on?',
+  offlineAskBookingName: 'Sure. What full name was the appointment booked under? You can say "My name is ...".',
+  offlineNoAppointments: "I couldn't find upcoming appointments for {name}.",
+  offlineAppointments: 'Here are the upcoming appointments for {name}:\n{list}',
+  offlineAskDay: 'Which day would you like me to check? For example "tomorrow" or "Saturday".',
+  offlineCheckFailed: 'I could not check that date.',
+  offlineOpenSlots: 'On {date} ({hours}) these times are open: {times}. Would you like to book one?',
+  offlineNoSlots: 'There are no open slots on {date}. The next openings are {next}.',
+  offlineNoSlotsClosed: 'There are no open slots on {date} (the clinic is closed). The next openings are {next}.',
+  offlinePreparation: 'Before your visit for {service}:\n{list}',
+  offlineAftercare: 'Aftercare for {service}:\n{list}',
+  offlineServicePrice: '{service} costs about {price} and takes around {minutes} minutes. {note}',
+  offlinePriceList: 'Here are our estimated prices:\n{list}\n{note}',
+  offlineHours: "We're open {hours}",
+  offlineLocation: '{name} is in {city}, {province}.',
+  offlineDoctor: 'Our clinic is led by {doctor}.',
+  offlineServiceInfo: '{service}: {description} Would you like the price, what to prepare, or to book it?',
+  offlineServiceList: 'We offer:\n{list}\nAsk me about any of them, or say "book" to make an appointment.',
+  offlineThanks: "You're welcome! Is there anything else I can help with?",
+  offlineFallback: "I'm in offline mode, so I can only help with clinic hours, services, prices, preparation and aftercare, checking availability, and booking. What would you like to know?",
+  offlineBooked: 'Booked! Your reference code is {reference}: {service} on {date} at {time} for {name}. The clinic will confirm it with you.',
+  offlineWhatToChange: 'Okay. What would you like to change: the name, the service, the date or the time?',
+  offlineReadBack: 'Please check: {service} on {date} at {time} for {name}. Shall I book it? (yes / no)',
+  offlineTriageFailed: "I'm sorry you're not feeling well. Please call the clinic at {phone}.",
+  offlineEmergency: "This needs care right away ({reasons}).\n{guidance}\nThe clinic's emergency line is {phone}. If you'd also like our staff to call you, send your number.",
+  offlineCallNow: 'Please call the clinic now at {phone}, or say "book" for the earliest slot.',
+  offlineUrgent: "I'm sorry you're dealing with that ({reasons}).\n{guidance}\n{contact}\nSend your number if you'd like a call back from our staff.",
+  offlineRoutine: 'Sorry to hear that. It doesn\'t sound like an emergency, but the dentist should take a look. Say "book" to make an appointment, or send your number for a call back from our staff.',
+  offlineCallbackFailed: 'I could not request the callback. Please try again.',
+  offlineCallbackQueued: 'Done. A staff member will call you at {number}. You can keep chatting with me in the meantime.',
+  offlineTimeUnavailable: 'That time does not work.',
+  offlineNearbySlots: 'Open times nearby: {slots}. Which one works for you?',
+  offlineOtherTime: 'Which other day and time would work?'
+};
+
+const taglish: Messages = {
+  ...english,
+  languageLocked: 'I-end muna ang conversation bago magpalit ng language.',
+  continueInTextChat: 'Mag-text Chat na lang',
+  reconnecting: 'Nawala ang connection. Nagre-reconnect kay {name}, itutuloy natin kung saan tayo huminto...',
+  bookingConfirmTitle: 'Paki-confirm ang Booking Mo',
+  bookingConfirmHint: 'Babasahin ni {name} ang details. Sabihin ang "yes" o i-tap ang button kung tama.',
+  bookingConfirmAction: 'Yes, I-book Na',
+  bookingConfirmMessage: 'Yes, tama po ang details. Pa-book na po.',
+  bookingKeepReference: 'I-keep ang reference code na ito. Ico-contact ka ng clinic para i-confirm ang schedule mo.',
+  statusPending: 'Hinihintay ang confirmation ng clinic',
+  talkTo: 'Kausapin si {name}',
+  talkSubtitle: 'Magtanong about services, prices, o mag-book ng appointment.',
+  processingBooking: 'Pino-process ang booking...',
+  holdToTalk: 'Pindutin para Magsalita',
+  transcriptEmpty: 'Lalabas dito ang transcript habang nag-uusap tayo.',
+  typeMessage: 'Mag-type ng message...',
+  viewDetails: 'Tingnan ang Details',
+  beforeYourVisit: 'Bago ang Visit Mo',
+  intakePending: 'Napupunan habang sumasagot ka. Ise-save ito pag may booking na.',
+  intakePatientType: 'New o Returning',
+  intakeSelect: 'Pumili...',
+  intakeListPlaceholder: 'Paghiwalayin ng comma, o "Wala"',
+  intakeMissing: 'Pakikumpleto: {fields}.',
+  intakeWaitingForBooking: 'Hinihintay ang booking...',
+  intakeSaveFailed: 'Hindi na-save ang form. Pakisubukan ulit.',
+  intakeConfirm: 'I-confirm ang Details',
+  talkToPerson: 'Makipag-usap sa Staff',
+  talkToPersonMessage: 'Gusto ko po sanang makausap ang staff ng clinic.',
+  triageEmergency: 'Kailangan ng Tulong Agad',
+  triageUrgent: 'Magpatingin Agad sa Dentist',
+  triageWhatToDo: 'Gawin mo muna ito',
+  triageCallClinic: 'Tawagan ang Clinic',
+  triageAfterHours: 'Sarado ang clinic ngayon.',
+  callbackQueued: 'Tatawagan ka ng staff namin sa {number}. Pwede ka pa ring mag-chat habang naghihintay.',
+  recordCall: 'I-record ang call',
+  recordCallConsent: 'Pumapayag ako na i-record ang voice call na ito, boses ko at ni {name}, at itago ng clinic para sa quality review.',
+  openAssistant: 'Chat with {name}',
+  closeAssistant: 'Isara',
+  holdSpaceToTalk: 'o i-hold ang Space',
+  offlineBookingStopped: 'Okay, hindi ko na itutuloy ang booking. May iba pa ba akong maitutulong?',
+  offlineAskName: 'Pwede ko bang malaman ang full name mo?',
+  offlineAskPurpose: 'Ano ang ipapagawa mo? For example cleaning, filling o extraction.',
+  offlineAskDate: 'Anong date mo gustong pumunta? Pwede mong sabihin ang "tomorrow", isang day like "Saturday", o date like 2025-06-14.',
+  offlineAskTime: 'Anong time ang okay sa iyo? For example 5:00 PM.',
+  offlineAskCallbackNumber: 'Sure! Saang number ka tatawagan ng staff namin?',
+  offlineAskBookingName: 'Sure. Anong full name ang ginamit sa booking? Pwede mong sabihin ang "My name is ...".',
+  offlineNoAppointments: 'Wala akong nakitang upcoming appointments para kay {name}.',
+  offlineAppointments: 'Ito ang upcoming appointments ni {name}:\n{list}',
+  offlineAskDay: 'Anong day ang gusto mong i-check ko? For example "tomorrow" o "Saturday".',
+  offlineCheckFailed: 'Hindi ko ma-check ang date na iyon.',
+  offlineOpenSlots: 'Sa {date} ({hours}) open ang mga time na ito: {times}. Gusto mo bang mag-book ng isa?',
+  offlineNoSlots: 'Wala nang open slots sa {date}. Ang next openings ay {next}.',
+  offlineNoSlotsClosed: 'Walang open slots sa {date} (sarado ang clinic). Ang next openings ay {next}.',
+  offlinePreparation: 'Bago ang visit mo para sa {service}:\n{list}',
+  offlineAftercare: 'Aftercare para sa {service}:\n{list}',
+  offlineServicePrice: 'Ang {service} ay nasa {price} at tumatagal ng mga {minutes} minutes. {note}',
+  offlinePriceList: 'Ito ang estimated prices namin:\n{list}\n{note}',
+  offlineHours: 'Open kami {hours}',
+  offlineLocation: 'Ang {name} ay nasa {city}, {province}.',
+  offlineDoctor: 'Ang clinic namin ay pinamumunuan ni {doctor}.',
+  offlineServiceInfo: '{service}: {description} Gusto mo bang malaman ang price, ang dapat i-prepare, o mag-book na?',
+  offlineServiceList: 'Ito ang services namin:\n{list}\nMagtanong about any of them, o sabihin ang "book" para mag-book ng appointment.',
+  offlineThanks: 'Walang anuman! May iba pa ba akong maitutulong?',
+  offlineFallback: 'Naka-offline mode ako ngayon, kaya clinic hours, services, prices, preparation at aftercare, availability at booking lang ang matutulungan ko. Ano ang gusto mong malaman?',
+  offlineBooked: 'Booked na! Ang reference code mo ay {reference}: {service} sa {date} at {time} para kay {name}. Ico-confirm ito ng clinic sa iyo.',
+  offlineWhatToChange: 'Okay. Ano ang gusto mong palitan: ang name, service, date o time?',
+  offlineReadBack: 'Paki-check: {service} sa {date} at {time} para kay {name}. I-book ko na ba? (yes / no)',
+  offlineTriageFailed: 'Sorry to hear na masama ang pakiramdam mo. Paki-call ang clinic sa {phone}.',
+  offlineEmergency: 'Kailangan ito ng care agad ({reasons}).\n{guidance}\nAng emergency line ng clinic ay {phone}. Kung gusto mo ring tawagan ka ng staff namin, i-send ang number mo.',
+  offlineCallNow: 'Paki-call ang clinic ngayon sa {phone}, o sabihin ang "book" para sa earliest slot.',
+  offlineUrgent: 'Sorry na pinagdadaanan mo iyan ({reasons}).\n{guidance}\n{contact}\nI-send ang number mo kung gusto mong tawagan ka ng staff namin.',
+  offlineRoutine: 'Sorry to hear that. Mukhang hindi emergency, pero dapat itong matingnan ng dentist. Sabihin ang "book" para mag-book ng appointment, o i-send ang number mo para tawagan ka ng staff namin.',
+  offlineCallbackFailed: 'Hindi ko na-request ang callback. Pakisubukan ulit.',
+  offlineCallbackQueued: 'Done! Tatawagan ka ng staff namin sa {number}. Pwede ka pa ring mag-chat sa akin habang naghihintay.',
+  offlineTimeUnavailable: 'Hindi available ang time na iyon.',
+  offlineNearbySlots: 'Open times na malapit: {slots}. Alin ang okay sa iyo?',
+  offlineOtherTime: 'Anong ibang day at time ang okay sa iyo?'
+};
+
+const filipino: Messages = {
+  history: 'Kasaysayan',
+  language: 'Wika',
+  languageLocked: 'Tapusin muna ang usapan bago magpalit ng wika.',
+  continueInTextChat: 'Magpatuloy sa Pagsulat',
+  reconnecting: 'Naputol ang koneksyon. Muling kumokonekta kay {name}, itutuloy natin kung saan tayo huminto...',
+  appointmentRequested: 'Naipadala ang Appointment',
+  bookingConfirmTitle: 'Pakikumpirma ang Appointment',
+  bookingConfirmHint: 'Babasahin ni {name} ang mga detalye. Sabihin ang "opo" o pindutin ang button kung tama.',
+  bookingConfirmAction: 'Opo, Ituloy',
+  bookingConfirmMessage: 'Opo, tama po ang mga detalye. Pakituloy po ang appointment.',
+  referenceCode: 'Reference Code',
+  addToCalendar: 'Idagdag sa Kalendaryo',
+  printSummary: 'I-print',
+  bookingSummaryTitle: 'Buod ng Appointment',
+  bookingKeepReference: 'Itabi po ang reference code na ito. Tatawagan kayo ng klinika para kumpirmahin ang inyong iskedyul.',
+  summaryPatient: 'Pasyente',
+  summaryService: 'Serbisyo',
+  summaryDate: 'Petsa',
+  summaryTime: 'Oras',
+  summaryStatus: 'Kalagayan',
+  summaryLocation: 'Klinika',
+  summaryHours: 'Oras ng Klinika',
+  statusPending: 'Hinihintay ang kumpirmasyon ng klinika',
+  talkTo: 'Kausapin si {name}',
+  talkSubtitle: 'Magtanong tungkol sa serbisyo, presyo, o magpa-appointment.',
+  typing: 'Nagsusulat...',
+  textChat: 'Sumulat',
+  processingBooking: 'Inaayos ang appointment...',
+  startConsultation: 'Magsimula',
+  endConversation: 'Tapusin ang Usapan',
+  endChat: 'Tapusin',
+  handsFree: 'Tuloy-tuloy',
+  pushToTalk: 'Pindot-Salita',
+  holdToTalk: 'Pindutin Habang Nagsasalita',
+  liveTranscript: 'Talaan ng Usapan',
+  clear: 'Burahin',
+  transcriptEmpty: 'Dito lalabas ang nakasulat na usapan.',
+  typeMessage: 'Sumulat ng mensahe...',
+  ourServices: 'Aming mga Serbisyo',
+  viewDetails: 'Tingnan ang Detalye',
+  priceRange: 'Halaga',
+  typicalDuration: 'Karaniwang Tagal',
+  minutes: '{count} minuto',
+  beforeYourVisit: 'Bago ang Inyong Pagbisita',
+  aftercare: 'Pag-aalaga Pagkatapos',
+  intakeTitle: 'Impormasyon ng Pasyente',
+  intakeFor: 'Para kay {name} • {date}, {time}',
+  intakePending: 'Napupunan habang kayo ay sumasagot. Itatabi ito kapag may appointment na.',
+  intakeSaved: 'Naitabi',
+  intakeContactNumber: 'Numero ng Telepono',
+  intakeAge: 'Edad',
+  intakePatientType: 'Bago o Dati nang Pasyente',
+  intakeMedicalConditions: 'Mga Karamdaman',
+  intakeAllergies: 'Mga Allergy',
+  intakeSelect: 'Pumili...',
+  intakeNewPatient: 'Bagong pasyente',
+  intakeReturningPatient: 'Dati nang pasyente',
+  intakeListPlaceholder: 'Paghiwalayin ng kuwit, o "Wala"',
+  intakeMissing: 'Pakipunan po: {fields}.',
+  intakeWaitingForBooking: 'Hinihintay ang appointment...',
+  intakeSaving: 'Itinatabi...',
+  intakeSaveFailed: 'Hindi po naitabi ang impormasyon. Pakisubukan muli.',
+  intakeConfirmed: 'Kumpirmado',
+  intakeConfirm: 'Kumpirmahin',
+  talkToPerson: 'Makipag-usap sa Tao',
+  talkToPersonMessage: 'Nais ko po sanang makausap ang isang tauhan ng klinika.',
+  triageEmergency: 'Kailangan ng Agarang Lunas',
+  triageUrgent: 'Magpatingin sa Lalong Madaling Panahon',
+  triageRoutine: 'Hindi Kagipitan',
+  triageWhatToDo: 'Gawin po muna ito',
+  triageCallClinic: 'Tawagan ang Klinika',
+  triageHotline: 'Hotline para sa Kagipitan',
+  triageAfterHours: 'Sarado po ang klinika ngayon.',
+  callbackTitle: 'Hiniling na Tawag',
+  callbackQueued: 'Tatawagan po kayo ng aming tauhan sa {number}. Maaari pa rin po kayong makipag-usap habang naghihintay.',
+  recordCall: 'Irekord ang tawag',
+  recordCallConsent: 'Pumapayag po ako na irekord ang tawag na ito, ang aking boses at ang kay {name}, at itabi ng klinika para sa pagsusuri ng serbisyo.',
+  recordingActive: 'Nagrerekord',
+  openAssistant: 'Makipag-usap kay {name}',
+  closeAssistant: 'Isara',
+  sendMessage: 'Ipadala',
+  dismiss: 'Isara',
+  accessibility: 'Mga Pantulong',
+  highContrast: 'Matingkad na Kulay',
+  reduceMotion: 'Bawasan ang Galaw',
+  liveCaptions: 'Kasalukuyang sinasabi',
+  holdSpaceToTalk: 'o pindutin nang matagal ang Space',
+  socialLink: '{name} sa {network}',
+  skipToChat: 'Lumaktaw sa usapan',
+  offlineBookingStopped: 'Sige po, itinigil ko na ang pagpapa-appointment. May iba pa po ba akong maitutulong?',
+  offlineAskName: 'Ano po ang inyong buong pangalan?',
+  offlineAskPurpose: 'Ano po ang nais ninyong ipagawa? Halimbawa, linis, pasta o bunot.',
+  offlineAskDate: 'Anong petsa po kayo nais pumunta? Maaari ninyong sabihin ang isang araw tulad ng "Sabado", o petsa tulad ng 2025-06-14.',
+  offlineAskTime: 'Anong oras po ang maginhawa sa inyo? Halimbawa, 5:00 PM.',
+  offlineAskCallbackNumber: 'Opo. Saang numero po kayo tatawagan ng aming tauhan?',
+  offlineAskBookingName: 'Sige po. Sa anong buong pangalan po nakapangalan ang appointment? Maaari ninyong sabihin ang "Ako po si ...".',
+  offlineNoAppointments: 'Wala po akong nakitang paparating na appointment para kay {name}.',
+  offlineAppointments: 'Ito po ang mga paparating na appointment ni {name}:\n{list}',
+  offlineAskDay: 'Anong araw po ang nais ninyong tingnan ko? Halimbawa, "ngayon" o "Sabado".',
+  offlineCheckFailed: 'Hindi ko po matingnan ang petsang iyon.',
+  offlineOpenSlots: 'Sa {date} ({hours}), bakante po ang mga oras na ito: {times}. Nais po ba ninyong magpa-appointment sa isa rito?',
+  offlineNoSlots: 'Wala na pong bakanteng oras sa {date}. Ang mga susunod na bakante ay {next}.',
+  offlineNoSlotsClosed: 'Wala pong bakanteng oras sa {date} (sarado po ang klinika). Ang mga susunod na bakante ay {next}.',
+  offlinePreparation: 'Bago ang inyong pagbisita para sa {service}:\n{list}',
+  offlineAftercare: 'Pag-aalaga pagkatapos ng {service}:\n{list}',
+  offlineServicePrice: 'Ang {service} ay nagkakahalaga ng humigit-kumulang {price} at tumatagal nang mga {minutes} minuto. {note}',
+  offlinePriceList: 'Ito po ang tinatayang halaga ng aming mga serbisyo:\n{list}\n{note}',
+  offlineHours: 'Bukas po kami {hours}',
+  offlineLocation: 'Ang {name} ay nasa {city}, {province}.',
+  offlineDoctor: 'Ang aming klinika ay pinamumunuan ni {doctor}.',
+  offlineServiceInfo: '{service}: {description} Nais po ba ninyong malaman ang halaga, ang dapat ihanda, o magpa-appointment?',
+  offlineServiceList: 'Ito po ang aming mga serbisyo:\n{list}\nMagtanong po tungkol sa alinman dito, o sabihin ang "appointment" para magpa-appointment.',
+  offlineThanks: 'Walang anuman po! May iba pa po ba akong maitutulong?',
+  offlineFallback: 'Offline po ako ngayon, kaya ang maitutulong ko lamang ay ang oras ng klinika, mga serbisyo, halaga, paghahanda at pag-aalaga pagkatapos, bakanteng oras, at pagpapa-appointment. Ano po ang nais ninyong malaman?',
+  offlineBooked: 'Naitala na po! Ang inyong reference code ay {reference}: {service} sa {date}, {time}, para kay {name}. Kukumpirmahin ito ng klinika sa inyo.',
+  offlineWhatToChange: 'Sige po. Ano po ang nais ninyong baguhin: ang pangalan, ang serbisyo, ang petsa o ang oras?',
+  offlineReadBack: 'Pakitingnan po: {service} sa {date}, {time}, para kay {name}. Itutuloy ko na po ba? (opo / hindi)',
+  offlineTriageFailed: 'Ikinalulungkot ko pong masama ang inyong pakiramdam. Pakitawagan po ang klinika sa {phone}.',
+  offlineEmergency: 'Kailangan po ito ng agarang lunas ({reasons}).\n{guidance}\nAng emergency line ng klinika ay {phone}. Kung nais din ninyong tawagan kayo ng aming tauhan, ipadala po ang inyong numero.',
+  offlineCallNow: 'Pakitawagan po ang klinika ngayon sa {phone}, o sabihin ang "appointment" para sa pinakamaagang bakanteng oras.',
+  offlineUrgent: 'Ikinalulungkot ko po iyan ({reasons}).\n{guidance}\n{contact}\nIpadala po ang inyong numero kung nais ninyong tawagan kayo ng aming tauhan.',
+  offlineRoutine: 'Ikinalulungkot ko po iyan. Mukhang hindi ito kagipitan, pero mabuting matingnan ng dentista. Sabihin ang "appointment" para magpa-appointment, o ipadala ang inyong numero para tawagan kayo ng aming tauhan.',
+  offlineCallbackFailed: 'Hindi ko po naipadala ang kahilingan. Pakisubukan muli.',
+  offlineCallbackQueued: 'Naipadala na po. Tatawagan kayo ng aming tauhan sa {number}. Maaari pa rin po kayong makipag-usap sa akin habang naghihintay.',
+  offlineTimeUnavailable: 'Hindi po puwede ang oras na iyon.',
+  offlineNearbySlots: 'Mga bakanteng oras na malapit: {slots}. Alin po rito ang maginhawa sa inyo?',
+  offlineOtherTime: 'Anong ibang araw at oras po ang maginhawa sa inyo?'
+};
+
+const CATALOG: Record<Language, Messages> = { taglish, english, filipino };
+
+export function createTranslator(language: Language): Translate {
+  const messages = CATALOG[language];
+  return (key, params = {}) =>
+    messages[key].replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
@@ -0,0 +1,165 @@
+
+import { Type } from '@google/genai';
+import { Appointment, PatientIntake, PatientType } from '../types';
+import { TypedEmitter } from '../utils/typedEmitter';
+import { BookingResult, Scheduler } from './scheduling';
+import { defineTool, optionalString, ToolArgumentError, ToolDefinition } from './toolRegistry';
+
+export type IntakeAnswers = Omit<PatientIntake, 'confirmedAt'>;
+export type IntakeField = keyof IntakeAnswers;
+
+// Also the order the card shows them and the assistant asks for them.
+export const INTAKE_FIELDS: IntakeField[] = ['contactNumber', 'age', 'patientType', 'medicalConditions', 'allergies'];
+
+const PATIENT_TYPES: PatientType[] = ['new', 'returning'];
+const NONE_WORDS = /^(none|no|n\/a|na|wala|wala po|nothing)$/i;
+
+/** Accepts 7-15 digits with optional +, spaces, dashes or parentheses, e.g. "0917 123 4567" or "+63 917 123 4567". */
+export function parseContactNumber(value: string): string | null {
+  const trimmed = value.trim();
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null;
+  const digits = trimmed.replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15) return null;
+  return (trimmed.startsWith('+') ? '+' : '') + digits;
+}
+
+export function parseAge(value: unknown): number | null {
+  const age = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isInteger(age) && age >= 0 && age <= 120 ? age : null;
+}
+
+/** "none" or "wala" means an empty list; a single string is split on commas and semicolons. */
+export function parseList(value: unknown): string[] | null {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;]/) : null;
+  if (!items || items.some(item => typeof item !== 'string')) return null;
+  return (items as string[]).map(item => item.trim()).filter(item => item && !NONE_WORDS.test(item));
+}
+
+/** Parses whatever subset of answers is present; unknown keys are ignored, bad values throw. */
+export function parseIntakeAnswers(raw: Record<string, unknown>): Partial<IntakeAnswers> {
+  const answers: Partial<IntakeAnswers> = {};
+  const contact = optionalString(raw, 'contactNumber');
+  if (contact !== undefined) {
+    const parsed = parseContactNumber(contact);
+    if (!parsed) throw new ToolArgumentError(`"${contact}" is not a valid contact number.`);
+    answers.contactNumber = parsed;
+  }
+  if (raw.age !== undefined && raw.age !== null && raw.age !== '') {
+    const age = parseAge(raw.age);
+    if (age === null) throw new ToolArgumentError(`"${raw.age}" is not a valid age.`);
+    answers.age = age;
+  }
+  const patientType = optionalString(raw, 'patientType')?.toLowerCase();
+  if (patientType !== undefined) {
+    if (!PATIENT_TYPES.includes(patientType as PatientType)) throw new ToolArgumentError('patientType must be "new" or "returning".');
+    answers.patientType = patientType as PatientType;
+  }
+  for (const key of ['medicalConditions', 'allergies'] as const) {
+    if (raw[key] === undefined || raw[key] === null) continue;
+    const list = parseList(raw[key]);
+    if (!list) throw new ToolArgumentError(`${key} must be a list of strings.`);
+    answers[key] = list;
+  }
+  return answers;
+}
+
+export function missingIntakeFields(answers: Partial<IntakeAnswers>): IntakeField[] {
+  return INTAKE_FIELDS.filter(field => answers[field] === undefined);
+}
+
+export interface IntakeDraftState {
+  /** The booking the form will be stored with; null until one is made this session. */
+  appointment: Appointment | null;
+  answers: Partial<IntakeAnswers>;
+  /** The patient reviewed the card and saved it to the booking. */
+  confirmed: boolean;
+}
+
+interface IntakeDraftEvents {
+  change: IntakeDraftState;
+}
+
+const EMPTY_STATE: IntakeDraftState = { appointment: null, answers: {}, confirmed: false };
+
+/**
+ * The intake form being filled in during one conversation. The model fills it through
+ * submitIntakeForm, the patient edits and confirms it on screen, and only then is it stored.
+ */
+export class IntakeDraft extends TypedEmitter<IntakeDraftEvents> {
+  private state: IntakeDraftState = EMPTY_STATE;
+
+  constructor(private readonly scheduler: Scheduler) {
+    super();
+  }
+
+  get current(): IntakeDraftState {
+    return this.state;
+  }
+
+  reset(): void {
+    this.set(EMPTY_STATE);
+  }
+
+  linkAppointment(appointment: Appointment): void {
+    this.set({ ...this.state, appointment, confirmed: false });
+  }
+
+  update(answers: Partial<IntakeAnswers>): void {
+    this.set({ ...this.state, answers: { ...this.state.answers, ...answers }, confirmed: false });
+  }
+
+  /** Stores the patient's reviewed answers with the linked booking. */
+  async confirm(answers: IntakeAnswers): Promise<BookingResult> {
+    const { appointment } = this.state;
+    if (!appointment) {
+      return { ok: false, error: { code: 'NOT_FOUND', reason: 'Book an appointment before confirming the intake form.', suggestedSlots: [] } };
+    }
+    const result = await this.scheduler.attachIntake(appointment.id, { ...answers, confirmedAt: Date.now() });
+    if (result.ok) this.set({ appointment: result.appointment, answers, confirmed: true });
+    return result;
+  }
+
+  private set(state: IntakeDraftState): void {
+    this.state = state;
+    this.emit('change', state);
+  }
+}
+
+export function createIntakeTools(draft: IntakeDraft): ToolDefinition<any>[] {
+  const submitIntakeForm = defineTool<Partial<IntakeAnswers>>({
+    declaration: {
+      name: 'submitIntakeForm',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Record pre-visit intake answers on the on-screen intake card. Call it with each answer as soon as the patient gives it; omitted fields are left as they are.',
+        properties: {
+          contactNumber: { type: Type.STRING, description: 'Mobile or landline number (e.g., 0917 123 4567).' },
+          age: { type: Type.INTEGER, description: 'Patient age in years.' },
+          patientType: { type: Type.STRING, enum: PATIENT_TYPES, description: 'Whether the patient has visited the clinic before.' },
+          medicalConditions: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Conditions such as diabetes, hypertension or pregnancy. Empty list if none.' },
+          allergies: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Allergies to medicine, latex or anesthesia. Empty list if none.' },
+        },
+      },
+    },
+    parse: raw => {
+      const answers = parseIntakeAnswers(raw);
+      if (!Object.keys(answers).length) throw new ToolArgumentError('Provide at least one intake answer.');
+      return answers;
+    },
+    handle: async answers => {
+      draft.update(answers);
+      const missingFields = missingIntakeFields(draft.current.answers);
+      return {
+        status: 'success',
+        recorded: Object.keys(answers),
+        missingFields,
+        linkedAppointmentId: draft.current.appointment?.id ?? null,
+        nextStep: missingFields.length
+          ? 'Ask for the next missing field.'
+          : 'Ask the patient to check the intake card on screen and press Confirm.'
+      };
+    }
+  });
+
+  return [submitIntakeForm];
+}
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { LiveServerMessage, LiveSendClientContentParameters } from '@google/genai';
+import { ConnectionStatus, TranscriptionEntry } from '../types';
+import { useLiveSession } from '../hooks/useLiveSession';
+import { LiveSession, LiveSessionEvents, LiveSessionOptions, RESUME_PROMPT } from './liveSession';
+import { ScriptedLiveTransport, ScriptedTurn } from './scriptedTransport';
+import { ToolRegistry, defineTool } from './toolRegistry';
+
+const GREETING = 'Greet the patient.';
+
+function say(text: string): LiveServerMessage[] {
+  return [
+    { serverContent: { outputTranscription: { text } } } as LiveServerMessage,
+    { serverContent: { turnComplete: true } } as LiveServerMessage
+  ];
+}
+
+function toolCall(id: string, name: string, args: Record<string, unknown>): LiveServerMessage {
+  return { toolCall: { functionCalls: [{ id, name, args }] } } as LiveServerMessage;
+}
+
+function createTools(): ToolRegistry {
+  return new ToolRegistry().register(defineTool<{ service: string }>({
+    declaration: { name: 'checkService' },
+    parse: raw => ({ service: String(raw.service) }),
+    handle: async ({ service }) => ({ status: 'success', service })
+  }));
+}
+
+function createSession(transport: ScriptedLiveTransport, options: Partial<LiveSessionOptions> = {}) {
+  const session = new LiveSession({ transport, tools: createTools(), systemInstruction: 'You are Mia.', greeting: GREETING, ...options });
+  const events = {
+    status: [] as ConnectionStatus[],
+    transcript: [] as TranscriptionEntry[],
+    toolCall: [] as LiveSessionEvents['toolCall'][],
+    reconnecting: [] as LiveSessionEvents['reconnecting'][],
+    error: [] as string[],
+    interrupted: 0
+  };
+  session.on('status', status => events.status.push(status));
+  session.on('transcript', entry => events.transcript.push(entry));
+  session.on('toolCall', event => events.toolCall.push(event));
+  session.on('reconnecting', event => events.reconnecting.push(event));
+  session.on('error', ({ message }) => events.error.push(message));
+  session.on('interrupted', () => events.interrupted++);
+  return { session, events };
+}
+
+function greetings(transport: ScriptedLiveTransport): number {
+  return transport.sent.filter(event => event.type === 'text' && event.params.text === GREETING).length;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+describe('LiveSession', () => {
+  it('greets, transcribes turns, runs tool calls and reports interruptions', async () => {
+    const transport = new ScriptedLiveTransport([
+      { trigger: 'text', messages: say('Hello! How can I help?') },
+      {
+        trigger: 'text',
+        messages: [toolCall('call-1', 'checkService', { service: 'cleaning' })]
+      },
+      { trigger: 'toolResponse', messages: say('Yes, we do cleanings.') },
+      { trigger: 'text', messages: [{ serverContent: { interrupted: true } } as LiveServerMessage] }
+    ]);
+    const { session, events } = createSession(transport);
+
+    await session.start();
+    await vi.waitFor(() => expect(events.transcript).toHaveLength(1));
+    expect(events.status).toEqual([ConnectionStatus.CONNECTING, ConnectionStatus.CONNECTED]);
+    expect(greetings(transport)).toBe(1);
+
+    session.sendText('Do you do cleanings?');
+    await vi.waitFor(() => expect(events.transcript).toHaveLength(3));
+    expect(events.transcript.map(e => [e.role, e.text])).toEqual([
+      ['assistant', 'Hello! How can I help?'],
+      ['user', 'Do you do cleanings?'],
+      ['assistant', 'Yes, we do cleanings.']
+    ]);
+    expect(events.transcript[2].toolCalls).toEqual([
+      { name: 'checkService', args: { service: 'cleaning' }, response: { status: 'success', service: 'cleaning' } }
+    ]);
+    expect(events.toolCall.map(e => e.state)).toEqual(['pending', 'done']);
+    const toolResponse = transport.sent.find(event => event.type === 'toolResponse');
+    expect(toolResponse?.params).toEqual({
+      functionResponses: [{ id: 'call-1', name: 'checkService', response: { status: 'success', service: 'cleaning' } }]
+    });
+
+    session.sendText('Wait');
+    await vi.waitFor(() => expect(events.interrupted).toBe(1));
+
+    session.stop();
+    expect(events.status.at(-1)).toBe(ConnectionStatus.DISCONNECTED);
+  });
+
+  it('reconnects with exponential backoff and replays the conversation instead of greeting again', async () => {
+    vi.useFakeTimers();
+    // No jitter: each delay is exactly the backoff.
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const transport = new ScriptedLiveTransport([
+      { trigger: 'text', messages: say('Hello! How can I help?') },
+      { trigger: 'text', messages: say('Sure, which day?') }
+    ]);
+    const { session, events } = createSession(transport, { reconnect: { baseDelayMs: 1000, maxDelayMs: 8000 } });
+
+    await session.start();
+    await vi.runAllTimersAsync();
+    session.sendText('I need a cleaning.');
+    await vi.runAllTimersAsync();
+    expect(events.transcript).toHaveLength(3);
+
+    transport.drop();
+    expect(events.status.at(-1)).toBe(ConnectionStatus.RECONNECTING);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(transport.connectCount).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(transport.connectCount).toBe(2);
+
+    // The first attempt fails before opening, so the next one waits twice as long.
+    transport.drop();
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(transport.connectCount).toBe(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(transport.connectCount).toBe(3);
+    await vi.runAllTimersAsync();
+
+    expect(events.reconnecting).toEqual([{ attempt: 1, delayMs: 1000 }, { attempt: 2, delayMs: 2000 }]);
+    expect(events.status).toEqual([
+      ConnectionStatus.CONNECTING,
+      ConnectionStatus.CONNECTED,
+      ConnectionStatus.RECONNECTING,
+      ConnectionStatus.CONNECTED
+    ]);
+    expect(greetings(transport)).toBe(1);
+    const replay = transport.sent.find(event => event.type === 'clientContent')?.params as LiveSendClientContentParameters;
+    const turns = replay.turns as { role: string; parts: { text: string }[] }[];
+    expect(turns.map(turn => [turn.role, turn.parts[0].text])).toEqual([
+      ['model', 'Hello! How can I help?'],
+      ['user', 'I need a cleaning.'],
+      ['model', 'Sure, which day?'],
+      ['user', RESUME_PROMPT]
+    ]);
+    session.stop();
+  });
+
+  it('gives up after the last reconnect attempt', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const transport = new ScriptedLiveTransport([]);
+    const { session, events } = createSession(transport, { reconnect: { maxAttempts: 2, baseDelayMs: 1000 } });
+
+    await session.start();
+    await vi.advanceTimersByTimeAsync(0);
+    transport.drop();
+    await vi.advanceTimersByTimeAsync(1000);
+    transport.drop();
+    await vi.advanceTimersByTimeAsync(2000);
+    transport.drop();
+
+    expect(transport.connectCount).toBe(3);
+    expect(events.status.at(-1)).toBe(ConnectionStatus.ERROR);
+    expect(events.error).toEqual(['Lost connection to Mia. Please check your internet and start the consultation again.']);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(transport.connectCount).toBe(3);
+  });
+
+  it('drops every listener useLiveSession added when the conversation stops', async () => {
+    const turns: ScriptedTurn[] = [{ trigger: 'text', messages: say('Hello!') }];
+    const session = new LiveSession({ transport: new ScriptedLiveTransport(turns), tools: createTools(), systemInstruction: 'You are Mia.', greeting: GREETING });
+    const on = vi.spyOn(session, 'on');
+    const off = vi.spyOn(session, 'off');
+    const { result } = renderHook(() => useLiveSession(() => session));
+
+    act(() => result.current.start());
+    await vi.waitFor(() => expect(result.current.transcriptions).toHaveLength(1));
+    expect(on).toHaveBeenCalled();
+
+    act(() => result.current.stop());
+    expect(off).toHaveBeenCalledTimes(on.mock.calls.length);
+  });
+});
@@ -0,0 +1,459 @@
+
+import { Content, FunctionCall, FunctionResponse, LiveConnectConfig, LiveServerMessage, Modality } from '@google/genai';
+import { ConnectionStatus, TranscriptBooking, TranscriptionEntry, TranscriptToolCall } from '../types';
+import { TypedEmitter } from '../utils/typedEmitter';
+import { AudioFrame, VadConfig, VoiceActivityDetector } from '../utils/vad';
+import { AudioPipeline } from './audioPipeline';
+import { LiveTransport, LiveTransportSession } from './liveTransport';
+import { ToolRegistry } from './toolRegistry';
+
+export type AudioSource = 'input' | 'output';
+
+export type SessionMode = 'voice' | 'text';
+
+/** 'vad' streams the mic continuously; 'pushToTalk' only streams while setTalking(true). */
+export type InputMode = 'vad' | 'pushToTalk';
+
+export type ToolCallEvent =
+  | { state: 'pending'; calls: FunctionCall[] }
+  | { state: 'done'; calls: FunctionCall[]; responses: FunctionResponse[] };
+
+/** The turn in progress as the Live API transcribes it; both empty once it lands in the transcript. */
+export interface LiveCaptions {
+  user: string;
+  assistant: string;
+}
+
+export interface LiveSessionEvents {
+  status: ConnectionStatus;
+  transcript: TranscriptionEntry;
+  captions: LiveCaptions;
+  toolCall: ToolCallEvent;
+  audioLevel: { source: AudioSource; level: number };
+  speaking: { source: AudioSource; speaking: boolean };
+  interrupted: undefined;
+  /** The assistant finished its reply. */
+  turnComplete: undefined;
+  /** From the end of the patient's turn to the first audio of the reply (voice) or to the reply itself (text). */
+  responseLatency: { ms: number };
+  /** The patient started talking over Mia and playback was cut locally. */
+  bargeIn: undefined;
+  reconnecting: { attempt: number; delayMs: number };
+  error: { message: string; cause?: unknown };
+}
+
+/** What the UI and attachments rely on, so a voice LiveSession and a text-only TextSession are interchangeable. */
+export interface AssistantSession {
+  readonly id: string;
+  readonly mode: SessionMode;
+  on<K extends keyof LiveSessionEvents>(event: K, listener: (payload: LiveSessionEvents[K]) => void): () => void;
+  start(): Promise<void>;
+  stop(): void;
+  sendText(text: string): void;
+  setInputMode(mode: InputMode): void;
+  setTalking(talking: boolean): void;
+  getAnalyser(source: AudioSource): AnalyserNode | null;
+}
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface LiveSessionOptions {
+  transport: LiveTransport;
+  tools: ToolRegistry;
+  systemInstruction: string;
+  /** Sent as text right after the socket opens so Mia speaks first. */
+  greeting?: string;
+  voiceName?: string;
+  /** Omit to run without microphone or speakers, e.g. against a scripted server. */
+  audio?: AudioPipeline | null;
+  vad?: Partial<VadConfig>;
+  inputMode?: InputMode;
+  /** Sustained speech needed before cutting Mia off locally, so a cough doesn't. */
+  bargeInMs?: number;
+  reconnect?: Partial<ReconnectPolicy>;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = { maxAttempts: 6, baseDelayMs: 1000, maxDelayMs: 16000 };
+
+// Enough turns to carry the booking details without blowing up the resume prompt.
+const MAX_REPLAY_TURNS = 30;
+export const RESUME_PROMPT = '[The connection dropped and has been restored. Continue the conversation exactly where it left off. Do not greet the patient again or repeat details they already gave.]';
+
+export function generateSessionId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function toBooking(call: TranscriptToolCall): TranscriptBooking | null {
+  const { response } = call;
+  if (response.status !== 'success' || typeof response.appointmentId !== 'string') return null;
+  return {
+    appointmentId: response.appointmentId,
+    tool: call.name,
+    date: typeof response.date === 'string' ? response.date : undefined,
+    time: typeof response.time === 'string' ? response.time : undefined
+  };
+}
+
+export class LiveSession extends TypedEmitter<LiveSessionEvents> implements AssistantSession {
+  readonly mode = 'voice';
+  private status = ConnectionStatus.DISCONNECTED;
+  private sessionPromise: Promise<LiveTransportSession> | null = null;
+  private inputTranscription = '';
+  private outputTranscription = '';
+  private userSpeaking = false;
+  private aiSpeaking = false;
+  // Set on local barge-in so the rest of the interrupted turn isn't played while the server catches up.
+  private suppressPlayback = false;
+  private inputMode: InputMode;
+  private talking = false;
+  private readonly vad: VoiceActivityDetector;
+  // Bumped on every connect and release so callbacks from a superseded socket are ignored.
+  private connectionId = 0;
+  private history: TranscriptionEntry[] = [];
+  private sessionId = '';
+  private turnIndex = 1;
+  // Tool calls since the last flushed turn, attached to that turn's entries.
+  private turnToolCalls: TranscriptToolCall[] = [];
+  private hasConnected = false;
+  private resumptionHandle: string | undefined;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // When the patient last stopped talking or sent a message; cleared by the first audio of the reply.
+  private userTurnEndedAt: number | null = null;
+  // From the first audio of a reply until it completes or is interrupted.
+  private modelReplying = false;
+  private readonly policy: ReconnectPolicy;
+
+  constructor(private readonly options: LiveSessionOptions) {
+    super();
+    this.policy = { ...DEFAULT_RECONNECT_POLICY, ...options.reconnect };
+    this.vad = new VoiceActivityDetector(options.vad);
+    this.inputMode = options.inputMode ?? 'vad';
+  }
+
+  get currentStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  /** Stable across reconnects; a new id is issued by each start(). */
+  get id(): string {
+    return this.sessionId;
+  }
+
+  async start(): Promise<void> {
+    if (this.status !== ConnectionStatus.DISCONNECTED && this.status !== ConnectionStatus.ERROR) return;
+    this.sessionId = generateSessionId();
+    this.turnIndex = 1;
+    this.turnToolCalls = [];
+    this.setStatus(ConnectionStatus.CONNECTING);
+    this.history = [];
+    this.hasConnected = false;
+    this.resumptionHandle = undefined;
+    this.reconnectAttempts = 0;
+
+    const { audio } = this.options;
+    const id = ++this.connectionId;
+    try {
+      await audio?.open({
+        onCapture: chunk => {
+          if (!this.sessionPromise || (this.inputMode === 'pushToTalk' && !this.talking)) return false;
+          this.sessionPromise.then(session => session.sendRealtimeInput({ media: chunk }));
+          return true;
+        },
+        onInputFrame: frame => this.handleInputFrame(frame),
+        onOutputActive: active => {
+          this.aiSpeaking = active;
+          this.emit('speaking', { source: 'output', speaking: active });
+        }
+      });
+    } catch (err: any) {
+      if (id === this.connectionId) this.fail(err?.message || 'Microphone unavailable', err);
+      return;
+    }
+    if (id !== this.connectionId) {
+      audio?.close();
+      return;
+    }
+    await this.connect();
+  }
+
+  stop(): void {
+    if (this.sessionPromise) {
+      this.sessionPromise.then(session => session.close(), () => undefined);
+    }
+    this.release(ConnectionStatus.DISCONNECTED);
+  }
+
+  sendText(text: string): void {
+    const message = text.trim();
+    if (!message || !this.sessionPromise) return;
+    this.pushTranscript('user', message, []);
+    this.userTurnEndedAt = Date.now();
+    this.sessionPromise.then(session => session.sendRealtimeInput({ text: message }));
+  }
+
+  getAnalyser(source: AudioSource): AnalyserNode | null {
+    return this.options.audio?.getAnalyser?.(source) ?? null;
+  }
+
+  setInputMode(mode: InputMode): void {
+    this.inputMode = mode;
+    this.setTalking(false);
+  }
+
+  /** Push-to-talk button state. Pressing it while Mia is talking cuts her off immediately. */
+  setTalking(talking: boolean): void {
+    if (talking === this.talking) return;
+    this.talking = talking;
+    if (talking && this.aiSpeaking) this.bargeIn();
+    if (!talking && this.inputMode === 'pushToTalk') {
+      this.sessionPromise?.then(session => session.sendRealtimeInput({ audioStreamEnd: true }));
+      this.setUserSpeaking(false);
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const id = ++this.connectionId;
+    const current = () => id === this.connectionId;
+    let opened = false;
+
+    try {
+      const sessionPromise = this.options.transport.connect({
+        callbacks: {
+          onopen: () => {
+            if (!current()) return;
+            opened = true;
+            this.handleOpen();
+          },
+          onmessage: (message) => { if (current()) void this.handleMessage(message); },
+          onerror: (e) => { if (current()) this.handleDrop(opened, 'Mia encountered a connection issue. Please refresh and try again.', e); },
+          onclose: (e) => { if (current()) this.handleDrop(opened, 'Mia disconnected unexpectedly.', e); }
+        },
+        config: this.buildConfig()
+      });
+      this.sessionPromise = sessionPromise;
+      await sessionPromise;
+    } catch (err: any) {
+      if (current()) this.handleDrop(opened, err?.message || 'Connection failed', err);
+    }
+  }
+
+  private buildConfig(): LiveConnectConfig {
+    const { tools, systemInstruction, voiceName = 'Kore' } = this.options;
+    return {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+      tools: [{ functionDeclarations: tools.declarations }],
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      sessionResumption: { handle: this.resumptionHandle },
+      systemInstruction
+    };
+  }
+
+  private handleOpen(): void {
+    const resuming = this.hasConnected;
+    this.hasConnected = true;
+    this.reconnectAttempts = 0;
+    this.setStatus(ConnectionStatus.CONNECTED);
+    this.options.audio?.startCapture();
+
+    const { greeting } = this.options;
+    if (!resuming) {
+      if (greeting) this.sessionPromise?.then(session => session.sendRealtimeInput({ text: greeting }));
+    } else if (!this.resumptionHandle) {
+      // Without a server-side handle the new socket starts blank, so seed it with what was said.
+      const turns: Content[] = this.history.slice(-MAX_REPLAY_TURNS).map(entry => ({
+        role: entry.role === 'user' ? 'user' : 'model',
+        parts: [{ text: entry.text }]
+      }));
+      turns.push({ role: 'user', parts: [{ text: RESUME_PROMPT }] });
+      this.sessionPromise?.then(session => session.sendClientContent({ turns, turnComplete: true }));
+    }
+  }
+
+  /** Handles a socket that errored or closed without stop() being called. */
+  private handleDrop(opened: boolean, message: string, cause?: unknown): void {
+    if (!this.hasConnected) {
+      this.fail(message, cause);
+      return;
+    }
+    console.warn('Live connection dropped', cause);
+    this.connectionId++;
+    this.sessionPromise = null;
+    // A handle the server refused to open is stale; fall back to replaying the transcript.
+    if (!opened) this.resumptionHandle = undefined;
+    this.flushTranscripts();
+    this.options.audio?.interrupt();
+    this.suppressPlayback = false;
+    this.modelReplying = false;
+
+    if (this.reconnectAttempts >= this.policy.maxAttempts) {
+      this.fail('Lost connection to Mia. Please check your internet and start the consultation again.', cause);
+      return;
+    }
+    const backoff = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** this.reconnectAttempts);
+    const delayMs = Math.round(backoff * (0.8 + Math.random() * 0.4));
+    this.reconnectAttempts++;
+    this.setStatus(ConnectionStatus.RECONNECTING);
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delayMs });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.connect();
+    }, delayMs);
+  }
+
+  private async handleMessage(message: LiveServerMessage): Promise<void> {
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) this.resumptionHandle = resumption.newHandle;
+
+    if (message.toolCall) {
+      const calls = message.toolCall.functionCalls ?? [];
+      const sessionPromise = this.sessionPromise;
+      this.emit('toolCall', { state: 'pending', calls });
+      const responses = await Promise.all(calls.map(call => this.options.tools.dispatch(call)));
+      // Call ids only mean something to the socket that issued them.
+      if (sessionPromise && sessionPromise === this.sessionPromise) {
+        sessionPromise.then(session => session.sendToolResponse({ functionResponses: responses }));
+      }
+      calls.forEach((call, i) => this.turnToolCalls.push({
+        name: call.name ?? '',
+        args: call.args ?? {},
+        response: responses[i].response ?? {}
+      }));
+      this.emit('toolCall', { state: 'done', calls, responses });
+    }
+
+    const content = message.serverContent;
+    for (const part of content?.modelTurn?.parts ?? []) {
+      if (!part.inlineData?.data || this.suppressPlayback) continue;
+      this.modelReplying = true;
+      if (this.userTurnEndedAt !== null) {
+        this.emit('responseLatency', { ms: Date.now() - this.userTurnEndedAt });
+        this.userTurnEndedAt = null;
+      }
+      await this.options.audio?.play(part.inlineData.data);
+    }
+
+    const heard = content?.inputTranscription?.text;
+    const said = content?.outputTranscription?.text;
+    if (heard) this.inputTranscription += heard;
+    if (said) this.outputTranscription += said;
+    if (heard || said) this.emitCaptions();
+
+    if (content?.turnComplete) {
+      this.flushTranscripts();
+      this.suppressPlayback = false;
+      this.modelReplying = false;
+      this.emit('turnComplete', undefined);
+    }
+
+    if (content?.interrupted) {
+      this.options.audio?.interrupt();
+      this.suppressPlayback = false;
+      this.modelReplying = false;
+      this.emit('interrupted', undefined);
+    }
+  }
+
+  private flushTranscripts(): void {
+    const userText = this.inputTranscription.trim();
+    const assistantText = this.outputTranscription.trim();
+    this.inputTranscription = '';
+    this.outputTranscription = '';
+    if (!userText && !assistantText) return;
+    this.emitCaptions();
+
+    const toolCalls = this.turnToolCalls;
+    this.turnToolCalls = [];
+    if (userText) this.pushTranscript('user', userText, assistantText ? [] : toolCalls);
+    if (assistantText) this.pushTranscript('assistant', assistantText, toolCalls);
+    this.turnIndex++;
+  }
+
+  private emitCaptions(): void {
+    this.emit('captions', { user: this.inputTranscription.trim(), assistant: this.outputTranscription.trim() });
+  }
+
+  private pushTranscript(role: TranscriptionEntry['role'], text: string, toolCalls: TranscriptToolCall[]): void {
+    const entry: TranscriptionEntry = {
+      sessionId: this.sessionId,
+      turnId: `${this.sessionId}:${this.turnIndex}`,
+      role,
+      text,
+      timestamp: Date.now()
+    };
+    if (toolCalls.length) {
+      entry.toolCalls = toolCalls;
+      const bookings = toolCalls.map(toBooking).filter((b): b is TranscriptBooking => b !== null);
+      if (bookings.length) entry.bookings = bookings;
+    }
+    this.history.push(entry);
+    this.emit('transcript', entry);
+  }
+
+  private handleInputFrame(frame: AudioFrame): void {
+    this.emit('audioLevel', { source: 'input', level: frame.peak });
+    const result = this.vad.process(frame);
+    const gated = this.inputMode === 'vad' || this.talking;
+    // The detector reports the end of speech only once its hangover has passed; the turn ended before that.
+    const endedAt = result.changed && !result.speaking ? Date.now() - this.vad.hangoverMs : Date.now();
+    this.setUserSpeaking(result.speaking && gated, endedAt);
+    if (this.inputMode === 'vad' && result.speaking && this.aiSpeaking && result.speechMs >= (this.options.bargeInMs ?? 250)) {
+      this.bargeIn();
+    }
+  }
+
+  private bargeIn(): void {
+    this.options.audio?.interrupt();
+    this.suppressPlayback = true;
+    this.emit('bargeIn', undefined);
+  }
+
+  private setUserSpeaking(speaking: boolean, at = Date.now()): void {
+    if (speaking === this.userSpeaking) return;
+    this.userSpeaking = speaking;
+    // A cough while Mia keeps talking is not a new turn; talking over her (barge-in) is.
+    const turnEnded = !speaking && (!this.modelReplying || this.suppressPlayback);
+    this.userTurnEndedAt = turnEnded ? at : null;
+    this.emit('speaking', { source: 'input', speaking });
+  }
+
+  private fail(message: string, cause?: unknown): void {
+    console.error(cause);
+    this.emit('error', { message, cause });
+    this.release(ConnectionStatus.ERROR);
+  }
+
+  private release(status: ConnectionStatus): void {
+    this.connectionId++;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.sessionPromise = null;
+    this.options.audio?.close();
+    if (this.inputTranscription || this.outputTranscription) {
+      this.inputTranscription = '';
+      this.outputTranscription = '';
+      this.emitCaptions();
+    }
+    this.vad.reset();
+    this.aiSpeaking = false;
+    this.suppressPlayback = false;
+    this.talking = false;
+    this.setUserSpeaking(false);
+    this.userTurnEndedAt = null;
+    this.modelReplying = false;
+    this.setStatus(status);
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.emit('status', status);
+  }
+}
@@ -0,0 +1,76 @@
+
+import { GoogleGenAI, LiveCallbacks, LiveConnectConfig, Session } from '@google/genai';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+// Ephemeral tokens are only accepted on the v1alpha endpoint.
+export const LIVE_API_VERSION = 'v1alpha';
+
+export type LiveTransportSession = Pick<Session, 'sendRealtimeInput' | 'sendClientContent' | 'sendToolResponse' | 'close'>;
+
+export interface LiveTransport {
+  connect(options: { config: LiveConnectConfig; callbacks: LiveCallbacks }): Promise<LiveTransportSession>;
+}
+
+/** Connects straight to Gemini. Only safe where the credential isn't a long-lived API key in a public bundle. */
+export class GenAiLiveTransport implements LiveTransport {
+  private readonly ai: GoogleGenAI;
+
+  /** `baseUrl` points the socket somewhere other than Google, e.g. the scripted server in test/. */
+  constructor(apiKey: string, private readonly model: string = LIVE_MODEL, apiVersion?: string, baseUrl?: string) {
+    // Only set what was given: an explicit undefined would replace the SDK's defaults.
+    this.ai = new GoogleGenAI({ apiKey, httpOptions: { ...(apiVersion && { apiVersion }), ...(baseUrl && { baseUrl }) } });
+  }
+
+  connect(options: { config: LiveConnectConfig; callbacks: LiveCallbacks }): Promise<LiveTransportSession> {
+    return this.ai.live.connect({ model: this.model, ...options });
+  }
+}
+
+export class SessionRequestError extends Error {
+  constructor(message: string, readonly code: string, readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'SessionRequestError';
+  }
+}
+
+type TokenResponse =
+  | { mode: 'token'; token: string; expiresAt: number }
+  | { mode: 'mock' };
+
+/**
+ * Asks the session server (server/index.ts) for a single-use ephemeral token on every connect,
+ * reconnects included, so the API key stays on the server. When the server runs in mock mode
+ * the connection is handed to `mock` instead.
+ */
+export class TokenLiveTransport implements LiveTransport {
+  constructor(
+    private readonly endpoint: string,
+    private readonly mock: LiveTransport,
+    private readonly model: string = LIVE_MODEL,
+    private readonly baseUrl?: string
+  ) {}
+
+  async connect(options: { config: LiveConnectConfig; callbacks: LiveCallbacks }): Promise<LiveTransportSession> {
+    const grant = await this.requestToken();
+    if (grant.mode === 'mock') return this.mock.connect(options);
+    return new GenAiLiveTransport(grant.token, this.model, LIVE_API_VERSION, this.baseUrl).connect(options);
+  }
+
+  private async requestToken(): Promise<TokenResponse> {
+    let res: Response;
+    try {
+      res = await fetch(this.endpoint, { method: 'POST' });
+    } catch {
+      throw new SessionRequestError('Could not reach the session server. Please check your internet connection.', 'UNREACHABLE');
+    }
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new SessionRequestError(
+        body.reason ?? `Session server responded with ${res.status}.`,
+        body.error ?? 'HTTP_ERROR',
+        body.retryAfterSeconds
+      );
+    }
+    return body as TokenResponse;
+  }
+}
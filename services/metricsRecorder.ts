@@ -0,0 +1,105 @@
+
+import { ConnectionStatus } from '../types';
+import { clinic } from './clinicConfig';
+import { AssistantSession } from './liveSession';
+import { MetricsStore, SessionMetrics } from './metricsStore';
+import { findService } from './serviceCatalog';
+
+const MAX_ERRORS = 5;
+const MAX_LATENCIES = 200;
+
+// Tool arguments that name a service, so popular services count questions as well as bookings.
+const SERVICE_ARGS = ['service', 'purpose'];
+
+function serviceIdsOf(args: Record<string, unknown>): string[] {
+  return SERVICE_ARGS
+    .map(name => args[name])
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => findService(clinic.services, value)?.id)
+    .filter((id): id is string => !!id);
+}
+
+/** Counts a session's lifecycle, turns, tool calls and errors into the metrics store. Returns a detach function. */
+export function attachMetrics(session: AssistantSession, store: MetricsStore, now: () => number = Date.now): () => void {
+  let record: SessionMetrics | null = null;
+  let writes = Promise.resolve();
+
+  const update = (change: (current: SessionMetrics) => Partial<SessionMetrics>) => {
+    if (!record) return;
+    const snapshot: SessionMetrics = { ...record, ...change(record) };
+    record = snapshot;
+    writes = writes.then(() => store.save(snapshot)).catch(err => console.error('Failed to save session metrics', err));
+  };
+
+  const offStatus = session.on('status', status => {
+    if (status === ConnectionStatus.CONNECTING) {
+      record = {
+        id: session.id,
+        mode: session.mode,
+        startedAt: now(),
+        connectedAt: null,
+        endedAt: null,
+        outcome: null,
+        userTurns: 0,
+        assistantTurns: 0,
+        toolCalls: {},
+        toolErrors: 0,
+        interruptions: 0,
+        reconnects: 0,
+        errors: [],
+        latenciesMs: [],
+        services: [],
+        bookingProposed: false,
+        booked: false
+      };
+      update(() => ({}));
+    } else if (status === ConnectionStatus.CONNECTED) {
+      update(r => ({ connectedAt: r.connectedAt ?? now() }));
+    } else if (status === ConnectionStatus.RECONNECTING) {
+      update(r => ({ reconnects: r.reconnects + 1 }));
+    } else if (status === ConnectionStatus.DISCONNECTED || status === ConnectionStatus.ERROR) {
+      update(r => (r.endedAt ? {} : { endedAt: now(), outcome: status === ConnectionStatus.ERROR ? 'failed' : 'ended' }));
+    }
+  });
+
+  const offTranscript = session.on('transcript', entry => {
+    if (entry.role === 'user') update(r => ({ userTurns: r.userTurns + 1 }));
+  });
+
+  const offTurn = session.on('turnComplete', () => update(r => ({ assistantTurns: r.assistantTurns + 1 })));
+
+  const offLatency = session.on('responseLatency', ({ ms }) => update(r => ({ latenciesMs: [...r.latenciesMs, ms].slice(-MAX_LATENCIES) })));
+
+  const offInterrupted = session.on('interrupted', () => update(r => ({ interruptions: r.interruptions + 1 })));
+
+  const offError = session.on('error', ({ message }) => update(r => ({ errors: [...r.errors, message].slice(-MAX_ERRORS) })));
+
+  const offTool = session.on('toolCall', event => {
+    if (event.state !== 'done') return;
+    update(r => {
+      const toolCalls = { ...r.toolCalls };
+      const services = new Set(r.services);
+      let { toolErrors, bookingProposed, booked } = r;
+      event.calls.forEach((call, i) => {
+        const name = call.name ?? 'unknown';
+        const response = event.responses[i]?.response ?? {};
+        toolCalls[name] = (toolCalls[name] ?? 0) + 1;
+        if (response.status === 'error') toolErrors++;
+        serviceIdsOf(call.args ?? {}).forEach(id => services.add(id));
+        if (name === 'bookAppointment' && response.status === 'needs_confirmation') bookingProposed = true;
+        if (name === 'bookAppointment' && response.status === 'success') booked = true;
+      });
+      return { toolCalls, toolErrors, bookingProposed, booked, services: [...services] };
+    });
+  });
+
+  return () => {
+    offStatus();
+    offTranscript();
+    offTurn();
+    offLatency();
+    offInterrupted();
+    offError();
+    offTool();
+  };
+}
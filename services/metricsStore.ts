@@ -0,0 +1,91 @@
+
+import { SessionMode } from './liveSession';
+
+/** One conversation's counters. Kept on this device only; no transcript text is stored here. */
+export interface SessionMetrics {
+  id: string;
+  mode: SessionMode;
+  startedAt: number;
+  /** Null when the session never connected. */
+  connectedAt: number | null;
+  /** Null while running, or when the tab was closed mid-conversation. */
+  endedAt: number | null;
+  outcome: 'ended' | 'failed' | null;
+  userTurns: number;
+  assistantTurns: number;
+  /** Calls per tool name. */
+  toolCalls: Record<string, number>;
+  toolErrors: number;
+  interruptions: number;
+  reconnects: number;
+  /** Most recent error messages. */
+  errors: string[];
+  latenciesMs: number[];
+  /** Service ids the patient asked about, checked or booked, once per session. */
+  services: string[];
+  bookingProposed: boolean;
+  booked: boolean;
+}
+
+export interface MetricsStore {
+  list(): Promise<SessionMetrics[]>;
+  /** Inserts or replaces by id. */
+  save(metrics: SessionMetrics): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Roughly a few months of sessions for one clinic; older ones are dropped first.
+const MAX_SESSIONS = 1000;
+
+function keepNewest(sessions: SessionMetrics[], metrics: SessionMetrics): SessionMetrics[] {
+  const next = [...sessions.filter(s => s.id !== metrics.id), metrics].sort((a, b) => a.startedAt - b.startedAt);
+  return next.slice(-MAX_SESSIONS);
+}
+
+export class MemoryMetricsStore implements MetricsStore {
+  private sessions: SessionMetrics[] = [];
+
+  async list(): Promise<SessionMetrics[]> {
+    return [...this.sessions];
+  }
+
+  async save(metrics: SessionMetrics): Promise<void> {
+    this.sessions = keepNewest(this.sessions, { ...metrics });
+  }
+
+  async clear(): Promise<void> {
+    this.sessions = [];
+  }
+}
+
+export class LocalStorageMetricsStore implements MetricsStore {
+  constructor(private readonly key: string = 'gcmia.metrics') {}
+
+  async list(): Promise<SessionMetrics[]> {
+    const raw = localStorage.getItem(this.key);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async save(metrics: SessionMetrics): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(keepNewest(await this.list(), metrics)));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.key);
+  }
+}
+
+export function createDefaultMetricsStore(): MetricsStore {
+  try {
+    if (typeof localStorage !== 'undefined') return new LocalStorageMetricsStore();
+  } catch {
+    // Storage access throws in sandboxed iframes with cookies disabled.
+  }
+  return new MemoryMetricsStore();
+}
@@ -0,0 +1,53 @@
+
+import { LiveCallbacks, LiveConnectConfig, LiveServerMessage } from '@google/genai';
+import { LiveTransport, LiveTransportSession } from './liveTransport';
+
+const MOCK_GREETING = 'Kumusta! This is mock mode, so no model is connected. Start the session server with GEMINI_API_KEY set to talk to the real assistant.';
+
+function reply(text: string): LiveServerMessage[] {
+  return [
+    { serverContent: { outputTranscription: { text } } } as LiveServerMessage,
+    { serverContent: { turnComplete: true } } as LiveServerMessage
+  ];
+}
+
+/**
+ * Offline stand-in used when the session server runs without an API key, so the UI, transcript
+ * and reconnect paths can be worked on locally. Answers typed messages; microphone audio is ignored.
+ */
+export class MockLiveTransport implements LiveTransport {
+  constructor(private readonly delayMs = 400) {}
+
+  async connect(options: { config: LiveConnectConfig; callbacks: LiveCallbacks }): Promise<LiveTransportSession> {
+    const { callbacks } = options;
+    let closed = false;
+    let greeted = false;
+
+    const send = (messages: LiveServerMessage[]) => {
+      messages.forEach((message, i) => {
+        setTimeout(() => { if (!closed) callbacks.onmessage(message); }, this.delayMs * (i + 1));
+      });
+    };
+
+    setTimeout(() => { if (!closed) callbacks.onopen?.(); }, this.delayMs);
+
+    return {
+      sendRealtimeInput: (params) => {
+        if (params.text === undefined) return;
+        // The first text is the greeting prompt, not something the patient typed.
+        send(reply(greeted ? `(Mock) You said: "${params.text}"` : MOCK_GREETING));
+        greeted = true;
+      },
+      sendClientContent: () => {
+        greeted = true;
+        send(reply('(Mock) Reconnected. Where were we?'));
+      },
+      sendToolResponse: () => undefined,
+      close: () => {
+        if (closed) return;
+        closed = true;
+        callbacks.onclose?.({ code: 1000, reason: 'client closed' } as CloseEvent);
+      }
+    };
+  }
+}
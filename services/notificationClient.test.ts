@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppointmentStatus } from '../types';
+import { BookingEvent, createBookingEvent } from './bookingEvents';
+import { LocalStoragePendingEventStore, RemoteNotifier, forwardBookingEvents } from './notificationClient';
+
+const ENDPOINT = 'https://mia.example/api/notify';
+
+function bookingCreated(): BookingEvent {
+  return createBookingEvent('booking.created', 'patient', {
+    id: 'appt-1',
+    clientName: 'Juan Dela Cruz',
+    date: '2030-01-02',
+    startMinutes: 17 * 60,
+    durationMinutes: 60,
+    serviceId: null,
+    purpose: 'cleaning',
+    status: AppointmentStatus.PENDING,
+    createdAt: 0
+  }, 0);
+}
+
+/** What the scheduler looks like to the forwarder. */
+function eventSource() {
+  const listeners = new Set<(event: BookingEvent) => void>();
+  return {
+    onEvent(listener: (event: BookingEvent) => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    emit: (event: BookingEvent) => listeners.forEach(listener => listener(event))
+  };
+}
+
+const accepted = () => new Response(JSON.stringify({ queued: 1 }), { status: 202 });
+const unavailable = () => new Response(JSON.stringify({ error: 'NOTIFY_FAILED' }), { status: 503 });
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('forwardBookingEvents', () => {
+  it('keeps an event through a 5xx and a network error and sends it again with backoff', async () => {
+    fetchMock
+      .mockResolvedValueOnce(unavailable())
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(accepted());
+    const store = new LocalStoragePendingEventStore();
+    const source = eventSource();
+    const stop = forwardBookingEvents(source, new RemoteNotifier(ENDPOINT), { store, retryDelayMs: 1000 });
+    const event = bookingCreated();
+
+    source.emit(event);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await store.load()).toEqual([event]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await store.load()).toEqual([event]);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).id)).toEqual([event.id, event.id, event.id]);
+    expect(await store.load()).toEqual([]);
+    stop();
+  });
+
+  it('sends what an earlier page load could not deliver', async () => {
+    const event = bookingCreated();
+    const store = new LocalStoragePendingEventStore();
+    await store.save([event]);
+    fetchMock.mockResolvedValue(accepted());
+
+    const stop = forwardBookingEvents(eventSource(), new RemoteNotifier(ENDPOINT), { store });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await store.load()).toEqual([]);
+    stop();
+  });
+
+  it('drops an event the server rejects instead of retrying it', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ error: 'BAD_REQUEST', reason: 'Unknown event type.' }), { status: 400 }));
+    const store = new LocalStoragePendingEventStore();
+    const source = eventSource();
+    const stop = forwardBookingEvents(source, new RemoteNotifier(ENDPOINT), { store, retryDelayMs: 1000 });
+
+    source.emit(bookingCreated());
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await store.load()).toEqual([]);
+    stop();
+  });
+});
@@ -0,0 +1,145 @@
+import { BookingEvent } from './bookingEvents';
+
+/** The server refused the event itself (4xx), so sending it again can't help. */
+export class NotificationRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationRejectedError';
+  }
+}
+
+/** Hands booking events to the session server, which fans them out to the clinic's notification channels. */
+export class RemoteNotifier {
+  constructor(private readonly endpoint: string) {}
+
+  async send(event: BookingEvent): Promise<void> {
+    const res = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event),
+      // Lets a cancellation made just before the tab closes still go out.
+      keepalive: true
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      const reason = body.reason ?? `Session server responded with ${res.status}.`;
+      throw res.status >= 400 && res.status < 500 && res.status !== 429 ? new NotificationRejectedError(reason) : new Error(reason);
+    }
+  }
+}
+
+/** Events not yet accepted by the session server, oldest first. */
+export interface PendingEventStore {
+  load(): Promise<BookingEvent[]>;
+  save(events: BookingEvent[]): Promise<void>;
+}
+
+export class MemoryPendingEventStore implements PendingEventStore {
+  private events: BookingEvent[] = [];
+
+  async load(): Promise<BookingEvent[]> {
+    return [...this.events];
+  }
+
+  async save(events: BookingEvent[]): Promise<void> {
+    this.events = [...events];
+  }
+}
+
+export class LocalStoragePendingEventStore implements PendingEventStore {
+  constructor(private readonly key: string = 'gcmia.pendingNotifications') {}
+
+  async load(): Promise<BookingEvent[]> {
+    const raw = localStorage.getItem(this.key);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async save(events: BookingEvent[]): Promise<void> {
+    if (events.length) localStorage.setItem(this.key, JSON.stringify(events));
+    else localStorage.removeItem(this.key);
+  }
+}
+
+export function createDefaultPendingEventStore(): PendingEventStore {
+  try {
+    if (typeof localStorage !== 'undefined') return new LocalStoragePendingEventStore();
+  } catch {
+    // Storage access throws in sandboxed iframes with cookies disabled.
+  }
+  return new MemoryPendingEventStore();
+}
+
+export interface ForwardOptions {
+  store?: PendingEventStore;
+  /** Delay before the first retry; doubles after each failure up to maxRetryDelayMs. */
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+}
+
+/**
+ * Forwards every scheduler event. Events wait in `store` until the server accepts them and are retried
+ * with backoff, when the browser comes back online and on the next page load; the server drops repeats
+ * by event id. A failed hand-off is logged, never shown to the patient: the booking itself is saved.
+ */
+export function forwardBookingEvents(
+  source: { onEvent(listener: (event: BookingEvent) => void): () => void },
+  notifier: RemoteNotifier,
+  { store = createDefaultPendingEventStore(), retryDelayMs = 5_000, maxRetryDelayMs = 5 * 60_000 }: ForwardOptions = {}
+): () => void {
+  let queue: Promise<unknown> = Promise.resolve();
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+  let stopped = false;
+
+  // Store updates and sends run one at a time, so an event queued mid-flush is never overwritten.
+  const exclusive = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch(err => console.warn('Could not update pending notifications', err));
+  };
+
+  const flush = () => exclusive(async () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    for (const event of await store.load()) {
+      if (stopped) return;
+      try {
+        await notifier.send(event);
+      } catch (err) {
+        if (!(err instanceof NotificationRejectedError)) {
+          console.warn(`Could not send the ${event.type} notification; retrying`, err);
+          const delay = Math.min(retryDelayMs * 2 ** failures++, maxRetryDelayMs);
+          retryTimer = setTimeout(flush, delay);
+          return;
+        }
+        console.warn(`The ${event.type} notification was rejected`, err);
+      }
+      failures = 0;
+      await store.save((await store.load()).filter(e => e.id !== event.id));
+    }
+  });
+
+  const onOnline = () => {
+    failures = 0;
+    flush();
+  };
+  if (typeof window !== 'undefined') window.addEventListener('online', onOnline);
+
+  const off = source.onEvent(event => {
+    exclusive(async () => store.save([...(await store.load()), event]));
+    flush();
+  });
+  // Whatever an earlier visit couldn't deliver.
+  flush();
+
+  return () => {
+    stopped = true;
+    off();
+    if (retryTimer) clearTimeout(retryTimer);
+    if (typeof window !== 'undefined') window.removeEventListener('online', onOnline);
+  };
+}
@@ -0,0 +1,93 @@
+
+import { CallRecording } from '../types';
+
+/** Call recordings are megabytes each, so they live in IndexedDB rather than next to the transcript. */
+export interface RecordingStore {
+  list(): Promise<CallRecording[]>;
+  get(sessionId: string): Promise<CallRecording | null>;
+  save(recording: CallRecording): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+function newestFirst(a: CallRecording, b: CallRecording): number {
+  return b.startedAt - a.startedAt;
+}
+
+export class MemoryRecordingStore implements RecordingStore {
+  private recordings = new Map<string, CallRecording>();
+
+  async list(): Promise<CallRecording[]> {
+    return [...this.recordings.values()].sort(newestFirst);
+  }
+
+  async get(sessionId: string): Promise<CallRecording | null> {
+    return this.recordings.get(sessionId) ?? null;
+  }
+
+  async save(recording: CallRecording): Promise<void> {
+    this.recordings.set(recording.sessionId, recording);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.recordings.delete(sessionId);
+  }
+}
+
+const DB_NAME = 'gcmia-recordings';
+const DB_VERSION = 1;
+const RECORDINGS = 'recordings';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export class IndexedDbRecordingStore implements RecordingStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  async list(): Promise<CallRecording[]> {
+    const store = await this.store('readonly');
+    return (await request<CallRecording[]>(store.getAll())).sort(newestFirst);
+  }
+
+  async get(sessionId: string): Promise<CallRecording | null> {
+    const store = await this.store('readonly');
+    return (await request<CallRecording | undefined>(store.get(sessionId))) ?? null;
+  }
+
+  async save(recording: CallRecording): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.put(recording));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.delete(sessionId));
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(RECORDINGS, mode).objectStore(RECORDINGS);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains(RECORDINGS)) db.createObjectStore(RECORDINGS, { keyPath: 'sessionId' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+export function createDefaultRecordingStore(): RecordingStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDbRecordingStore() : new MemoryRecordingStore();
+}
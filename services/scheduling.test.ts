@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AppointmentStatus } from '../types';
+import { LocalStorageAppointmentStore } from './appointmentStore';
+import { Scheduler } from './scheduling';
+
+// Tuesday 2030-01-01, 8:00 AM in Manila.
+const now = () => new Date('2030-01-01T00:00:00Z');
+const request = (clientName: string, time: string) => ({ clientName, date: '2030-01-02', time, purpose: 'cleaning' });
+
+describe('Scheduler', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('sees bookings and staff decisions made by another tab before changing anything', async () => {
+    const patientTab = new Scheduler(new LocalStorageAppointmentStore(), now);
+    const staffTab = new Scheduler(new LocalStorageAppointmentStore(), now);
+    // Both tabs have read the (empty) list and cached it.
+    await patientTab.list();
+    await staffTab.list();
+
+    const first = await staffTab.book(request('Juan Dela Cruz', '5:00 PM'));
+    if (!first.ok) throw new Error(first.error.reason);
+    expect((await staffTab.setStatus(first.appointment.id, AppointmentStatus.CONFIRMED)).ok).toBe(true);
+
+    const clash = await patientTab.book(request('Maria Santos', '5:00 PM'));
+    expect(clash.ok ? null : clash.error.code).toBe('SLOT_TAKEN');
+
+    const second = await patientTab.book(request('Maria Santos', '6:00 PM'));
+    expect(second.ok).toBe(true);
+    const stored = await new LocalStorageAppointmentStore().load();
+    expect(stored.map(a => [a.clientName, a.status])).toEqual([
+      ['Juan Dela Cruz', AppointmentStatus.CONFIRMED],
+      ['Maria Santos', AppointmentStatus.PENDING]
+    ]);
+  });
+
+  it('treats the moved appointment\'s own slot as free when suggesting other times', async () => {
+    const scheduler = new Scheduler(new LocalStorageAppointmentStore(), now);
+    const moving = await scheduler.book(request('Juan Dela Cruz', '5:00 PM'));
+    await scheduler.book(request('Maria Santos', '6:00 PM'));
+    if (!moving.ok) throw new Error(moving.error.reason);
+
+    const result = await scheduler.moveAppointment(moving.appointment.id, '2030-01-02', '6:00 PM');
+    if (result.ok) throw new Error('The move should clash with Maria Santos.');
+    expect(result.error.code).toBe('SLOT_TAKEN');
+    expect(result.error.suggestedSlots).toContainEqual({ date: '2030-01-02', time: '5:00 PM' });
+  });
+});
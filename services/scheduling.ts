@@ -0,0 +1,541 @@
+
+import { Appointment, AppointmentStatus, PatientIntake, TimeSlot } from '../types';
+import { AppointmentStore, createDefaultAppointmentStore } from './appointmentStore';
+import { BookingEvent, BookingEventType, createBookingEvent } from './bookingEvents';
+import { ClinicConfig, WEEKDAYS, clinic, parseClockTime } from './clinicConfig';
+
+export interface OpeningHours {
+  open: number; // minutes after midnight
+  close: number;
+}
+
+// Indexed by Date#getDay(), so 0 is Sunday. Derived from clinic.config.ts.
+export const CLINIC_HOURS: (OpeningHours | null)[] = WEEKDAYS.map(day => {
+  const hours = clinic.hours[day];
+  return hours ? { open: parseClockTime(hours.open)!, close: parseClockTime(hours.close)! } : null;
+});
+
+export interface ServiceDuration {
+  id: string;
+  name: string;
+  keywords: string[];
+  minutes: number;
+}
+
+export const SERVICE_DURATIONS: ServiceDuration[] = clinic.services.map(s => ({
+  id: s.id,
+  name: s.title,
+  keywords: s.keywords,
+  minutes: s.durationMinutes
+}));
+
+export const DEFAULT_DURATION_MINUTES = clinic.scheduling.defaultDurationMinutes;
+export const SLOT_INTERVAL_MINUTES = clinic.scheduling.slotIntervalMinutes;
+const SEARCH_HORIZON_DAYS = clinic.scheduling.searchHorizonDays;
+const MAX_SUGGESTIONS = clinic.scheduling.maxSuggestions;
+const REFERENCE_PREFIX = clinic.scheduling.referencePrefix;
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand.
+const REFERENCE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const REFERENCE_LENGTH = 6;
+
+export type SchedulingErrorCode =
+  | 'INVALID_DATE'
+  | 'INVALID_TIME'
+  | 'DATE_IN_PAST'
+  | 'CLINIC_CLOSED'
+  | 'OUTSIDE_HOURS'
+  | 'SLOT_TAKEN'
+  | 'NOT_FOUND'
+  | 'NOT_ALLOWED';
+
+export interface SchedulingError {
+  code: SchedulingErrorCode;
+  reason: string;
+  suggestedSlots: TimeSlot[];
+}
+
+export type BookingResult =
+  | { ok: true; appointment: Appointment }
+  | { ok: false; error: SchedulingError };
+
+export interface DayAvailability {
+  date: string;
+  isOpen: boolean;
+  hours: string;
+  openSlots: TimeSlot[];
+  nextOpenSlots: TimeSlot[];
+}
+
+export type AvailabilityResult =
+  | { ok: true; availability: DayAvailability }
+  | { ok: false; error: SchedulingError };
+
+export interface BookingRequest {
+  clientName: string;
+  date: string;
+  time: string;
+  purpose: string;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function parseDate(value: string): Date | null {
+  const match = /^\s*(\d{4})-(\d{2})-(\d{2})\s*$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+export function formatDate(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
+
+/** Accepts "5:00 PM", "5pm", "5:30 p.m.", "17:00" and "noon". Returns minutes after midnight. */
+export function parseTime(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  if (text === 'noon' || text === 'tanghali') return 12 * 60;
+
+  const twelveHour = /^(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s*m?\.?$/.exec(text);
+  if (twelveHour) {
+    const hour = Number(twelveHour[1]);
+    const minute = Number(twelveHour[2] ?? 0);
+    if (hour < 1 || hour > 12 || minute > 59) return null;
+    const base = hour % 12 + (twelveHour[3] === 'p' ? 12 : 0);
+    return base * 60 + minute;
+  }
+
+  const twentyFourHour = /^(\d{1,2}):(\d{2})$/.exec(text);
+  if (twentyFourHour) {
+    const hour = Number(twentyFourHour[1]);
+    const minute = Number(twentyFourHour[2]);
+    if (hour > 23 || minute > 59) return null;
+    return hour * 60 + minute;
+  }
+  return null;
+}
+
+export function formatTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  const suffix = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${String(minute).padStart(2, '0')} ${suffix}`;
+}
+
+export function matchService(purpose: string): ServiceDuration | null {
+  const text = purpose.toLowerCase();
+  return SERVICE_DURATIONS.find(s => s.keywords.some(k => text.includes(k)) || text.includes(s.name.toLowerCase())) ?? null;
+}
+
+/** The catalog name when the booking matched a service, otherwise what the patient asked for. */
+export function serviceNameOf(appointment: Appointment): string {
+  return SERVICE_DURATIONS.find(s => s.id === appointment.serviceId)?.name ?? appointment.purpose;
+}
+
+export interface ClinicClock {
+  /** YYYY-MM-DD. */
+  date: string;
+  /** Index into CLINIC_HOURS, so 0 is Sunday. */
+  day: number;
+  minutes: number;
+}
+
+/** The clinic's wall clock at that instant, whatever zone the browser is in. */
+export function clinicClock(at: Date, timeZone: string = clinic.location.timeZone): ClinicClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+  const date = `${get('year')}-${get('month')}-${get('day')}`;
+  return { date, day: parseDate(date)!.getDay(), minutes: Number(get('hour')) * 60 + Number(get('minute')) };
+}
+
+export function isClinicOpen(at: Date, config: ClinicConfig = clinic): boolean {
+  const { day, minutes } = clinicClock(at, config.location.timeZone);
+  const hours = config.hours[WEEKDAYS[day]];
+  return hours !== null && minutes >= parseClockTime(hours.open)! && minutes < parseClockTime(hours.close)!;
+}
+
+export function describeHours(): string {
+  return CLINIC_HOURS
+    .map((h, day) => `${DAY_NAMES[day]}: ${h ? `${formatTime(h.open)} - ${formatTime(h.close)}` : 'Closed'}`)
+    .join('; ');
+}
+
+export function isActive(a: Appointment): boolean {
+  return a.status === AppointmentStatus.PENDING || a.status === AppointmentStatus.CONFIRMED;
+}
+
+function overlaps(a: Appointment, date: string, start: number, duration: number): boolean {
+  return isActive(a)
+    && a.date === date
+    && a.startMinutes < start + duration
+    && start < a.startMinutes + a.durationMinutes;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function generateId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `appt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function generateReference(taken: Set<string>): string {
+  for (;;) {
+    let code = '';
+    for (let i = 0; i < REFERENCE_LENGTH; i++) {
+      code += REFERENCE_ALPHABET[Math.floor(Math.random() * REFERENCE_ALPHABET.length)];
+    }
+    const reference = `${REFERENCE_PREFIX}-${code}`;
+    if (!taken.has(reference)) return reference;
+  }
+}
+
+// Staff status changes that patients and coordinators hear about; going back to PENDING is not one.
+const STATUS_EVENTS: Partial<Record<AppointmentStatus, BookingEventType>> = {
+  [AppointmentStatus.CONFIRMED]: 'booking.confirmed',
+  [AppointmentStatus.DECLINED]: 'booking.declined',
+  [AppointmentStatus.CANCELLED]: 'booking.cancelled'
+};
+
+export class Scheduler {
+  private appointments: Appointment[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly listeners = new Set<(appointments: Appointment[]) => void>();
+  private readonly eventListeners = new Set<(event: BookingEvent) => void>();
+
+  constructor(
+    private readonly store: AppointmentStore = createDefaultAppointmentStore(),
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async list(): Promise<Appointment[]> {
+    return [...(await this.load())];
+  }
+
+  book(request: BookingRequest): Promise<BookingResult> {
+    return this.exclusive(async () => {
+      const appointments = await this.latest();
+      const result = this.prepare(appointments, request);
+      if (!result.ok) return result;
+
+      const taken = new Set(appointments.map(a => a.reference).filter((r): r is string => !!r));
+      const appointment: Appointment = { ...result.appointment, reference: generateReference(taken) };
+      await this.persist([...appointments, appointment]);
+      this.emit('booking.created', 'patient', appointment);
+      return { ok: true, appointment };
+    });
+  }
+
+  /** Runs every booking check and returns the appointment book() would create, without saving it. */
+  preview(request: BookingRequest): Promise<BookingResult> {
+    return this.exclusive(async () => this.prepare(await this.latest(), request));
+  }
+
+  reschedule(id: string, clientName: string, date: string, time: string): Promise<BookingResult> {
+    return this.move(id, clientName, date, time);
+  }
+
+  /** Staff-side reschedule; skips the patient-name check. */
+  moveAppointment(id: string, date: string, time: string): Promise<BookingResult> {
+    return this.move(id, null, date, time);
+  }
+
+  /** Staff-side confirm/decline. */
+  setStatus(id: string, status: AppointmentStatus): Promise<BookingResult> {
+    return this.exclusive(async () => {
+      const appointments = await this.latest();
+      const existing = this.findOwned(appointments, id, null);
+      if ('error' in existing) return { ok: false, error: existing.error };
+      if (status !== AppointmentStatus.CANCELLED && status !== AppointmentStatus.DECLINED && !isActive(existing.appointment)) {
+        const error = this.validate(appointments, existing.appointment.date, formatTime(existing.appointment.startMinutes), existing.appointment.durationMinutes, id);
+        if (error) return { ok: false, error };
+      }
+
+      const updated: Appointment = { ...existing.appointment, status };
+      await this.persist(appointments.map(a => (a.id === id ? updated : a)));
+      const type = STATUS_EVENTS[status];
+      if (type && existing.appointment.status !== status) this.emit(type, 'staff', updated);
+      return { ok: true, appointment: updated };
+    });
+  }
+
+  cancel(id: string, clientName: string): Promise<BookingResult> {
+    return this.exclusive(async () => {
+      const appointments = await this.latest();
+      const existing = this.findOwned(appointments, id, clientName);
+      if ('error' in existing) return { ok: false, error: existing.error };
+
+      const updated: Appointment = { ...existing.appointment, status: AppointmentStatus.CANCELLED };
+      await this.persist(appointments.map(a => (a.id === id ? updated : a)));
+      this.emit('booking.cancelled', 'patient', updated);
+      return { ok: true, appointment: updated };
+    });
+  }
+
+  /** Stores (or replaces) the confirmed intake form on a booking. */
+  attachIntake(id: string, intake: PatientIntake): Promise<BookingResult> {
+    return this.exclusive(async () => {
+      const appointments = await this.latest();
+      const existing = this.findOwned(appointments, id, null);
+      if ('error' in existing) return { ok: false, error: existing.error };
+
+      const updated: Appointment = { ...existing.appointment, intake };
+      await this.persist(appointments.map(a => (a.id === id ? updated : a)));
+      return { ok: true, appointment: updated };
+    });
+  }
+
+  /** Upcoming, non-cancelled appointments whose name matches case- and spacing-insensitively. */
+  async findByPatient(clientName: string): Promise<Appointment[]> {
+    const key = normalizeName(clientName);
+    const today = clinicClock(this.now()).date;
+    return (await this.load())
+      .filter(a => a.status !== AppointmentStatus.CANCELLED && a.date >= today && normalizeName(a.clientName) === key)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.startMinutes - b.startMinutes);
+  }
+
+  async availability(dateText: string, purpose = ''): Promise<AvailabilityResult> {
+    const appointments = await this.load();
+    const duration = matchService(purpose)?.minutes ?? DEFAULT_DURATION_MINUTES;
+    const date = parseDate(dateText);
+    if (!date) {
+      return { ok: false, error: this.error(appointments, 'INVALID_DATE', `"${dateText}" is not a valid date. Use YYYY-MM-DD.`, clinicClock(this.now()).date, duration) };
+    }
+    const dateKey = formatDate(date);
+    const hours = CLINIC_HOURS[date.getDay()];
+    const openSlots = hours ? this.slotsOn(appointments, date, duration) : [];
+    return {
+      ok: true,
+      availability: {
+        date: dateKey,
+        isOpen: hours !== null,
+        hours: hours ? `${formatTime(hours.open)} - ${formatTime(hours.close)}` : 'Closed',
+        openSlots,
+        nextOpenSlots: openSlots.length ? [] : this.openSlots(appointments, dateKey, duration, MAX_SUGGESTIONS)
+      }
+    };
+  }
+
+  /** Drops the cache so changes written by another tab are picked up. */
+  reload(): Promise<Appointment[]> {
+    return this.exclusive(async () => {
+      const appointments = await this.latest();
+      this.notify();
+      return [...appointments];
+    });
+  }
+
+  onChange(listener: (appointments: Appointment[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Bookings, reschedules, cancellations and staff decisions made through this scheduler (not other tabs). */
+  onEvent(listener: (event: BookingEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => { this.eventListeners.delete(listener); };
+  }
+
+  async findOpenSlots(fromDate: string, durationMinutes: number, limit = MAX_SUGGESTIONS, preferredMinutes?: number): Promise<TimeSlot[]> {
+    return this.openSlots(await this.load(), fromDate, durationMinutes, limit, preferredMinutes);
+  }
+
+  private prepare(appointments: Appointment[], request: BookingRequest): BookingResult {
+    const service = matchService(request.purpose);
+    const duration = service?.minutes ?? DEFAULT_DURATION_MINUTES;
+
+    const error = this.validate(appointments, request.date, request.time, duration, null);
+    if (error) return { ok: false, error };
+
+    return {
+      ok: true,
+      appointment: {
+        id: generateId(),
+        clientName: request.clientName.trim(),
+        date: formatDate(parseDate(request.date)!),
+        startMinutes: parseTime(request.time)!,
+        durationMinutes: duration,
+        serviceId: service?.id ?? null,
+        purpose: request.purpose,
+        status: AppointmentStatus.PENDING,
+        createdAt: this.now().getTime()
+      }
+    };
+  }
+
+  private move(id: string, clientName: string | null, date: string, time: string): Promise<BookingResult> {
+    return this.exclusive(async () => {
+      const appointments = await this.latest();
+      const existing = this.findOwned(appointments, id, clientName);
+      if ('error' in existing) return { ok: false, error: existing.error };
+
+      const error = this.validate(appointments, date, time, existing.appointment.durationMinutes, id);
+      if (error) return { ok: false, error };
+
+      const updated: Appointment = {
+        ...existing.appointment,
+        date: formatDate(parseDate(date)!),
+        startMinutes: parseTime(time)!,
+        status: AppointmentStatus.PENDING
+      };
+      await this.persist(appointments.map(a => (a.id === id ? updated : a)));
+      this.emit('booking.rescheduled', clientName === null ? 'staff' : 'patient', updated);
+      return { ok: true, appointment: updated };
+    });
+  }
+
+  /** Pass a null clientName to skip the ownership check (staff actions). */
+  private findOwned(appointments: Appointment[], id: string, clientName: string | null): { appointment: Appointment } | { error: SchedulingError } {
+    const appointment = appointments.find(a => a.id === id && a.status !== AppointmentStatus.CANCELLED);
+    if (!appointment) {
+      return { error: { code: 'NOT_FOUND', reason: `No active appointment with id ${id}.`, suggestedSlots: [] } };
+    }
+    if (clientName !== null && normalizeName(appointment.clientName) !== normalizeName(clientName)) {
+      return { error: { code: 'NOT_ALLOWED', reason: 'That appointment is registered under a different name.', suggestedSlots: [] } };
+    }
+    return { appointment };
+  }
+
+  private validate(
+    appointments: Appointment[],
+    dateText: string,
+    timeText: string,
+    duration: number,
+    ignoreId: string | null
+  ): SchedulingError | null {
+    // A moved appointment's current slot is free for the move, both for the checks and the suggestions.
+    const others = appointments.filter(a => a.id !== ignoreId);
+    const date = parseDate(dateText);
+    const today = clinicClock(this.now()).date;
+    if (!date) {
+      return this.error(others, 'INVALID_DATE', `"${dateText}" is not a valid date. Use YYYY-MM-DD.`, today, duration);
+    }
+    const dateKey = formatDate(date);
+    const start = parseTime(timeText);
+    if (start === null) {
+      return this.error(others, 'INVALID_TIME', `"${timeText}" is not a valid time.`, dateKey, duration);
+    }
+
+    if (this.hasStarted(dateKey, start)) {
+      return this.error(others, 'DATE_IN_PAST', `${dateKey} ${formatTime(start)} is already in the past.`, today, duration);
+    }
+
+    const hours = CLINIC_HOURS[date.getDay()];
+    if (!hours) {
+      return this.error(others, 'CLINIC_CLOSED', `The clinic is closed on ${DAY_NAMES[date.getDay()]}s.`, dateKey, duration, start);
+    }
+    if (start < hours.open || start + duration > hours.close) {
+      return this.error(
+        others,
+        'OUTSIDE_HOURS',
+        `A ${duration}-minute visit at ${formatTime(start)} falls outside ${DAY_NAMES[date.getDay()]} hours (${formatTime(hours.open)} - ${formatTime(hours.close)}).`,
+        dateKey,
+        duration,
+        start
+      );
+    }
+    if (others.some(a => overlaps(a, dateKey, start, duration))) {
+      return this.error(others, 'SLOT_TAKEN', `${formatTime(start)} on ${dateKey} is already booked.`, dateKey, duration, start);
+    }
+    return null;
+  }
+
+  private error(
+    appointments: Appointment[],
+    code: SchedulingErrorCode,
+    reason: string,
+    fromDate: string,
+    duration: number,
+    preferredMinutes?: number
+  ): SchedulingError {
+    return { code, reason, suggestedSlots: this.openSlots(appointments, fromDate, duration, MAX_SUGGESTIONS, preferredMinutes) };
+  }
+
+  private openSlots(appointments: Appointment[], fromDate: string, duration: number, limit: number, preferredMinutes?: number): TimeSlot[] {
+    const today = parseDate(clinicClock(this.now()).date)!;
+    const requested = parseDate(fromDate);
+    const cursor = requested && requested > today ? requested : today;
+    const slots: TimeSlot[] = [];
+
+    for (let offset = 0; offset < SEARCH_HORIZON_DAYS && slots.length < limit; offset++) {
+      const day = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + offset);
+      const starts = this.freeStarts(appointments, day, duration);
+      if (offset === 0 && preferredMinutes !== undefined) {
+        starts.sort((a, b) => Math.abs(a - preferredMinutes) - Math.abs(b - preferredMinutes));
+      }
+      for (const start of starts.slice(0, limit - slots.length)) {
+        slots.push({ date: formatDate(day), time: formatTime(start) });
+      }
+    }
+    return slots;
+  }
+
+  private slotsOn(appointments: Appointment[], day: Date, duration: number): TimeSlot[] {
+    return this.freeStarts(appointments, day, duration).map(start => ({ date: formatDate(day), time: formatTime(start) }));
+  }
+
+  private freeStarts(appointments: Appointment[], day: Date, duration: number): number[] {
+    const hours = CLINIC_HOURS[day.getDay()];
+    if (!hours) return [];
+    const dateKey = formatDate(day);
+    const starts: number[] = [];
+    for (let start = hours.open; start + duration <= hours.close; start += SLOT_INTERVAL_MINUTES) {
+      if (this.hasStarted(dateKey, start)) continue;
+      if (appointments.some(a => overlaps(a, dateKey, start, duration))) continue;
+      starts.push(start);
+    }
+    return starts;
+  }
+
+  /** Dates and times are the clinic's wall clock, so "now" is too. */
+  private hasStarted(dateKey: string, start: number): boolean {
+    const now = clinicClock(this.now());
+    return dateKey < now.date || (dateKey === now.date && start <= now.minutes);
+  }
+
+  private async load(): Promise<Appointment[]> {
+    if (!this.appointments) this.appointments = await this.store.load();
+    return this.appointments;
+  }
+
+  /** Changes start from what is stored now, so another tab's edits are neither overwritten nor double-booked. */
+  private async latest(): Promise<Appointment[]> {
+    this.appointments = await this.store.load();
+    return this.appointments;
+  }
+
+  private async persist(appointments: Appointment[]): Promise<void> {
+    await this.store.save(appointments);
+    this.appointments = appointments;
+    this.notify();
+  }
+
+  private notify(): void {
+    const snapshot = [...(this.appointments ?? [])];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private emit(type: BookingEventType, actor: BookingEvent['actor'], appointment: Appointment): void {
+    const event = createBookingEvent(type, actor, appointment, this.now().getTime());
+    this.eventListeners.forEach(listener => listener(event));
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
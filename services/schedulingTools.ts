@@ -0,0 +1,218 @@
+
+import { Type } from '@google/genai';
+import { Appointment } from '../types';
+import { Scheduler, BookingResult, formatTime, serviceNameOf } from './scheduling';
+import { defineTool, optionalString, requireString, ToolDefinition, ToolResponse } from './toolRegistry';
+
+export interface BookAppointmentArgs {
+  clientName: string;
+  appointmentDate: string;
+  appointmentTime: string;
+  purpose: string;
+  /** True only once the patient has heard the read-back and said yes. */
+  patientConfirmed: boolean;
+}
+
+export interface CheckAvailabilityArgs {
+  date: string;
+  purpose?: string;
+}
+
+export interface RescheduleAppointmentArgs {
+  appointmentId: string;
+  clientName: string;
+  newDate: string;
+  newTime: string;
+}
+
+export interface CancelAppointmentArgs {
+  appointmentId: string;
+  clientName: string;
+}
+
+export interface LookupMyAppointmentsArgs {
+  clientName: string;
+}
+
+export interface SchedulingToolEvents {
+  /** A valid booking is waiting for the patient's yes. */
+  onProposed?(appointment: Appointment): void;
+  onBooked?(appointment: Appointment): void;
+  onRescheduled?(appointment: Appointment): void;
+  onCancelled?(appointment: Appointment): void;
+}
+
+export function summarizeAppointment(appointment: Appointment): ToolResponse {
+  return {
+    appointmentId: appointment.id,
+    clientName: appointment.clientName,
+    date: appointment.date,
+    time: formatTime(appointment.startMinutes),
+    durationMinutes: appointment.durationMinutes,
+    reference: appointment.reference ?? null,
+    service: serviceNameOf(appointment),
+    status: appointment.status
+  };
+}
+
+function toResponse(result: BookingResult, confirmation: string, notify?: (appointment: Appointment) => void): ToolResponse {
+  if (!result.ok) return { status: 'error', ...result.error };
+  notify?.(result.appointment);
+  // The summary's own status is the appointment's (PENDING, CONFIRMED...), so it is renamed to keep 'success' intact.
+  const { status, ...summary } = summarizeAppointment(result.appointment);
+  return { status: 'success', confirmation, ...summary, appointmentStatus: status };
+}
+
+function sameBooking(a: Appointment, b: Appointment): boolean {
+  return a.clientName.toLowerCase() === b.clientName.toLowerCase()
+    && a.date === b.date
+    && a.startMinutes === b.startMinutes
+    && a.durationMinutes === b.durationMinutes
+    && serviceNameOf(a) === serviceNameOf(b);
+}
+
+export function createSchedulingTools(scheduler: Scheduler, events: SchedulingToolEvents = {}): ToolDefinition<any>[] {
+  // The last details read back to the patient; a confirmed booking must match them.
+  let proposal: Appointment | null = null;
+
+  const bookAppointment = defineTool<BookAppointmentArgs>({
+    declaration: {
+      name: 'bookAppointment',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Book an appointment in two steps. First call without patientConfirmed: it checks the slot and returns the details to read back. After the patient clearly says yes, call again with patientConfirmed true to submit it; the dental coordinators are notified automatically.',
+        properties: {
+          clientName: { type: Type.STRING, description: 'Full name of the patient.' },
+          appointmentDate: { type: Type.STRING, description: 'Requested date (YYYY-MM-DD).' },
+          appointmentTime: { type: Type.STRING, description: 'Requested time (e.g., 5:00 PM).' },
+          purpose: { type: Type.STRING, description: 'Service needed (e.g., cleaning, extraction).' },
+          patientConfirmed: { type: Type.BOOLEAN, description: 'Set to true only after reading the details back and the patient confirming them.' },
+        },
+        required: ['clientName', 'appointmentDate', 'appointmentTime', 'purpose'],
+      },
+    },
+    parse: raw => ({
+      clientName: requireString(raw, 'clientName'),
+      appointmentDate: requireString(raw, 'appointmentDate'),
+      appointmentTime: requireString(raw, 'appointmentTime'),
+      purpose: requireString(raw, 'purpose'),
+      patientConfirmed: raw.patientConfirmed === true
+    }),
+    handle: async args => {
+      const request = { clientName: args.clientName, date: args.appointmentDate, time: args.appointmentTime, purpose: args.purpose };
+      const preview = await scheduler.preview(request);
+      if (!preview.ok) return { status: 'error', ...preview.error };
+      if (args.patientConfirmed) {
+        if (!proposal || !sameBooking(proposal, preview.appointment)) {
+          return {
+            status: 'error',
+            code: 'NOT_CONFIRMED',
+            reason: 'These details were not read back to the patient yet. Call bookAppointment without patientConfirmed first and ask them to confirm.'
+          };
+        }
+        const result = await scheduler.book(request);
+        if (result.ok) proposal = null;
+        return toResponse(result, 'Booking request received. Give the patient their reference code. The coordinators will confirm it.', events.onBooked);
+      }
+      proposal = preview.appointment;
+      events.onProposed?.(preview.appointment);
+      // No id or reference yet: nothing is saved until the patient confirms.
+      const { appointmentId, reference, status, ...details } = summarizeAppointment(preview.appointment);
+      return {
+        status: 'needs_confirmation',
+        ...details,
+        nextStep: 'Read these details back and ask the patient to confirm. If they say yes, call bookAppointment again with patientConfirmed true.'
+      };
+    }
+  });
+
+  const checkAvailability = defineTool<CheckAvailabilityArgs>({
+    declaration: {
+      name: 'checkAvailability',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'List open appointment slots on a given day, or the next open slots if that day is full or closed.',
+        properties: {
+          date: { type: Type.STRING, description: 'Date to check (YYYY-MM-DD).' },
+          purpose: { type: Type.STRING, description: 'Optional service, used to size the slot (e.g., root canal).' },
+        },
+        required: ['date'],
+      },
+    },
+    parse: raw => ({ date: requireString(raw, 'date'), purpose: optionalString(raw, 'purpose') }),
+    handle: async args => {
+      const result = await scheduler.availability(args.date, args.purpose);
+      return result.ok ? { status: 'success', ...result.availability } : { status: 'error', ...result.error };
+    }
+  });
+
+  const rescheduleAppointment = defineTool<RescheduleAppointmentArgs>({
+    declaration: {
+      name: 'rescheduleAppointment',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Move an existing appointment to a new date and time. Use lookupMyAppointments first to get the appointmentId.',
+        properties: {
+          appointmentId: { type: Type.STRING, description: 'Id of the appointment to move.' },
+          clientName: { type: Type.STRING, description: 'Full name the appointment was booked under.' },
+          newDate: { type: Type.STRING, description: 'New date (YYYY-MM-DD).' },
+          newTime: { type: Type.STRING, description: 'New time (e.g., 5:00 PM).' },
+        },
+        required: ['appointmentId', 'clientName', 'newDate', 'newTime'],
+      },
+    },
+    parse: raw => ({
+      appointmentId: requireString(raw, 'appointmentId'),
+      clientName: requireString(raw, 'clientName'),
+      newDate: requireString(raw, 'newDate'),
+      newTime: requireString(raw, 'newTime')
+    }),
+    handle: async args => toResponse(
+      await scheduler.reschedule(args.appointmentId, args.clientName, args.newDate, args.newTime),
+      'Appointment moved. The coordinators will confirm the new schedule.',
+      events.onRescheduled
+    )
+  });
+
+  const cancelAppointment = defineTool<CancelAppointmentArgs>({
+    declaration: {
+      name: 'cancelAppointment',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Cancel an existing appointment. Confirm with the patient before calling this.',
+        properties: {
+          appointmentId: { type: Type.STRING, description: 'Id of the appointment to cancel.' },
+          clientName: { type: Type.STRING, description: 'Full name the appointment was booked under.' },
+        },
+        required: ['appointmentId', 'clientName'],
+      },
+    },
+    parse: raw => ({ appointmentId: requireString(raw, 'appointmentId'), clientName: requireString(raw, 'clientName') }),
+    handle: async args => toResponse(
+      await scheduler.cancel(args.appointmentId, args.clientName),
+      'Appointment cancelled.',
+      events.onCancelled
+    )
+  });
+
+  const lookupMyAppointments = defineTool<LookupMyAppointmentsArgs>({
+    declaration: {
+      name: 'lookupMyAppointments',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Find the upcoming appointments booked under a patient name.',
+        properties: {
+          clientName: { type: Type.STRING, description: 'Full name of the patient.' },
+        },
+        required: ['clientName'],
+      },
+    },
+    parse: raw => ({ clientName: requireString(raw, 'clientName') }),
+    handle: async args => {
+      const appointments = await scheduler.findByPatient(args.clientName);
+      return { status: 'success', count: appointments.length, appointments: appointments.map(summarizeAppointment) };
+    }
+  });
+
+  return [bookAppointment, checkAvailability, rescheduleAppointment, cancelAppointment, lookupMyAppointments];
+}
@@ -0,0 +1,84 @@
+
+import { LiveCallbacks, LiveConnectConfig, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage } from '@google/genai';
+import { LiveTransport, LiveTransportSession } from './liveTransport';
+
+export type ScriptTrigger = 'open' | 'text' | 'audio' | 'clientContent' | 'toolResponse';
+
+export interface ScriptedTurn {
+  /** Client event that releases this turn. Turns are consumed strictly in order, across reconnects. */
+  trigger: ScriptTrigger;
+  messages: LiveServerMessage[];
+}
+
+export type ScriptedClientEvent =
+  | { type: 'text' | 'audio'; params: LiveSendRealtimeInputParameters }
+  | { type: 'clientContent'; params: LiveSendClientContentParameters }
+  | { type: 'toolResponse'; params: LiveSendToolResponseParameters };
+
+/**
+ * Stand-in for the Live API that replays scripted server messages in response to client events.
+ * Everything the client sends is recorded on `sent` for assertions.
+ */
+export class ScriptedLiveTransport implements LiveTransport {
+  readonly sent: ScriptedClientEvent[] = [];
+  readonly configs: LiveConnectConfig[] = [];
+  private readonly queue: ScriptedTurn[];
+  private active: { callbacks: LiveCallbacks; closed: boolean } | null = null;
+
+  constructor(script: ScriptedTurn[], private readonly delayMs = 0) {
+    this.queue = [...script];
+  }
+
+  get connectCount(): number {
+    return this.configs.length;
+  }
+
+  async connect(options: { config: LiveConnectConfig; callbacks: LiveCallbacks }): Promise<LiveTransportSession> {
+    const connection = { callbacks: options.callbacks, closed: false };
+    this.active = connection;
+    this.configs.push(options.config);
+
+    const deliver = (trigger: ScriptTrigger) => {
+      if (connection.closed || this.queue[0]?.trigger !== trigger) return;
+      const turn = this.queue.shift()!;
+      turn.messages.forEach((message, i) => {
+        setTimeout(() => { if (!connection.closed) connection.callbacks.onmessage(message); }, this.delayMs * (i + 1));
+      });
+    };
+
+    const session: LiveTransportSession = {
+      sendRealtimeInput: (params) => {
+        const type = params.text !== undefined ? 'text' : 'audio';
+        this.sent.push({ type, params });
+        deliver(type);
+      },
+      sendClientContent: (params) => {
+        this.sent.push({ type: 'clientContent', params });
+        deliver('clientContent');
+      },
+      sendToolResponse: (params) => {
+        this.sent.push({ type: 'toolResponse', params });
+        deliver('toolResponse');
+      },
+      close: () => this.closeConnection(connection, 1000, 'client closed')
+    };
+
+    setTimeout(() => {
+      if (connection.closed) return;
+      connection.callbacks.onopen?.();
+      deliver('open');
+    }, this.delayMs);
+    return session;
+  }
+
+  /** Simulates the server dropping the socket, e.g. a network loss. */
+  drop(code = 1006, reason = 'connection lost'): void {
+    if (this.active) this.closeConnection(this.active, code, reason);
+  }
+
+  private closeConnection(connection: { callbacks: LiveCallbacks; closed: boolean }, code: number, reason: string): void {
+    if (connection.closed) return;
+    connection.closed = true;
+    connection.callbacks.onclose?.({ code, reason } as CloseEvent);
+  }
+}
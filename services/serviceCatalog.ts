@@ -0,0 +1,85 @@
+
+import { Type } from '@google/genai';
+import { DentalService, PriceRange } from '../types';
+import { ClinicService } from './clinicConfig';
+import { defineTool, requireString, ToolDefinition, ToolResponse } from './toolRegistry';
+
+export interface GetServiceInfoArgs {
+  service: string;
+}
+
+export function formatPriceRange(price: PriceRange): string {
+  const amount = (value: number) =>
+    value.toLocaleString('en-PH', { style: 'currency', currency: price.currency, maximumFractionDigits: 0 });
+  const range = price.min === price.max ? amount(price.min) : `${amount(price.min)} - ${amount(price.max)}`;
+  return price.unit ? `${range} ${price.unit}` : range;
+}
+
+/** Matches an id, a title, or any keyword the patient might use ("linis", "root canal"). */
+export function findService(services: ClinicService[], query: string): ClinicService | null {
+  const text = query.trim().toLowerCase();
+  if (!text) return null;
+  return services.find(s => s.id === text || s.title.toLowerCase() === text)
+    ?? services.find(s => text.includes(s.title.toLowerCase()) || s.keywords.some(k => text.includes(k)))
+    ?? null;
+}
+
+function summarizeService(service: DentalService): ToolResponse {
+  return {
+    serviceId: service.id,
+    title: service.title,
+    price: formatPriceRange(service.price),
+    durationMinutes: service.durationMinutes
+  };
+}
+
+export function createServiceTools(services: ClinicService[], pricingNote: string): ToolDefinition<any>[] {
+  const listServices = defineTool<Record<string, never>>({
+    declaration: {
+      name: 'listServices',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'List every service the clinic offers with its price range and typical duration.',
+        properties: {},
+      },
+    },
+    parse: () => ({}),
+    handle: async () => ({ status: 'success', pricingNote, services: services.map(summarizeService) })
+  });
+
+  const getServiceInfo = defineTool<GetServiceInfoArgs>({
+    declaration: {
+      name: 'getServiceInfo',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Get the price range, duration, preparation and aftercare notes for one service. Quote prices only from this tool.',
+        properties: {
+          service: { type: Type.STRING, description: 'Service name or what the patient called it (e.g., cleaning, bunot, braces).' },
+        },
+        required: ['service'],
+      },
+    },
+    parse: raw => ({ service: requireString(raw, 'service') }),
+    handle: async args => {
+      const service = findService(services, args.service);
+      if (!service) {
+        return {
+          status: 'error',
+          code: 'NOT_FOUND',
+          reason: `The clinic has no service matching "${args.service}".`,
+          availableServices: services.map(s => s.title)
+        };
+      }
+      return {
+        status: 'success',
+        ...summarizeService(service),
+        description: service.description,
+        preparation: service.preparation,
+        aftercare: service.aftercare,
+        pricingNote
+      };
+    }
+  });
+
+  return [listServices, getServiceInfo];
+}
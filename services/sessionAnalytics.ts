@@ -0,0 +1,109 @@
+
+import { clinic } from './clinicConfig';
+import { SessionMode } from './liveSession';
+import { SessionMetrics } from './metricsStore';
+
+export interface FunnelStep {
+  label: string;
+  count: number;
+  /** Share of all sessions in the range, 0-1. */
+  rate: number;
+}
+
+export interface LatencyStats {
+  averageMs: number;
+  p90Ms: number;
+  samples: number;
+}
+
+export interface RankedCount {
+  label: string;
+  count: number;
+}
+
+export interface AnalyticsSummary {
+  sessions: number;
+  byMode: Record<SessionMode, number>;
+  averageDurationMs: number | null;
+  funnel: FunnelStep[];
+  /** Voice is measured to the first audio of the reply; text to the reply arriving. */
+  latency: Record<SessionMode, LatencyStats | null>;
+  /** Share of sessions that failed to connect or dropped for good. */
+  failureRate: number;
+  /** Share of sessions that showed the patient any error. */
+  errorRate: number;
+  /** Share of tool calls that returned an error. */
+  toolErrorRate: number;
+  interruptionsPerSession: number;
+  reconnectsPerSession: number;
+  popularServices: RankedCount[];
+  commonErrors: RankedCount[];
+}
+
+const AVAILABILITY_TOOLS = ['checkAvailability', 'bookAppointment'];
+const MAX_RANKED = 5;
+
+function share(count: number, total: number): number {
+  return total ? count / total : 0;
+}
+
+function latencyStats(samples: number[]): LatencyStats | null {
+  if (!samples.length) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    averageMs: Math.round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length),
+    p90Ms: sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.9) - 1)],
+    samples: sorted.length
+  };
+}
+
+function rank(values: string[]): RankedCount[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, MAX_RANKED);
+}
+
+/** Sessions started at or after `since` (all when omitted), rolled up for the staff analytics panel. */
+export function summarizeSessions(all: SessionMetrics[], since = 0): AnalyticsSummary {
+  const sessions = all.filter(s => s.startedAt >= since);
+  const total = sessions.length;
+  const count = (test: (s: SessionMetrics) => boolean) => sessions.filter(test).length;
+  const step = (label: string, test: (s: SessionMetrics) => boolean): FunnelStep => {
+    const n = count(test);
+    return { label, count: n, rate: share(n, total) };
+  };
+
+  const ended = sessions.filter(s => s.endedAt !== null && s.connectedAt !== null);
+  const totalToolCalls = sessions.reduce((sum, s) => sum + Object.values(s.toolCalls).reduce((a, b) => a + b, 0), 0);
+  const serviceName = (id: string) => clinic.services.find(s => s.id === id)?.title ?? id;
+
+  return {
+    sessions: total,
+    byMode: { voice: count(s => s.mode === 'voice'), text: count(s => s.mode === 'text') },
+    averageDurationMs: ended.length
+      ? Math.round(ended.reduce((sum, s) => sum + (s.endedAt! - s.connectedAt!), 0) / ended.length)
+      : null,
+    funnel: [
+      step('Started', () => true),
+      step('Connected', s => s.connectedAt !== null),
+      step('Patient spoke', s => s.userTurns > 0),
+      step('Checked a slot', s => s.bookingProposed || s.booked || AVAILABILITY_TOOLS.some(name => s.toolCalls[name])),
+      step('Booking proposed', s => s.bookingProposed || s.booked),
+      step('Booked', s => s.booked)
+    ],
+    latency: {
+      voice: latencyStats(sessions.filter(s => s.mode === 'voice').flatMap(s => s.latenciesMs)),
+      text: latencyStats(sessions.filter(s => s.mode === 'text').flatMap(s => s.latenciesMs))
+    },
+    failureRate: share(count(s => s.outcome === 'failed'), total),
+    errorRate: share(count(s => s.errors.length > 0), total),
+    toolErrorRate: share(sessions.reduce((sum, s) => sum + s.toolErrors, 0), totalToolCalls),
+    interruptionsPerSession: share(sessions.reduce((sum, s) => sum + s.interruptions, 0), total),
+    reconnectsPerSession: share(sessions.reduce((sum, s) => sum + s.reconnects, 0), total),
+    popularServices: rank(sessions.flatMap(s => s.services.map(serviceName))),
+    commonErrors: rank(sessions.flatMap(s => s.errors))
+  };
+}
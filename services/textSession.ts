@@ -0,0 +1,133 @@
+
+import { FunctionCall, FunctionResponse } from '@google/genai';
+import { ConnectionStatus, TranscriptBooking, TranscriptionEntry, TranscriptToolCall } from '../types';
+import { TypedEmitter } from '../utils/typedEmitter';
+import { ConversationBackend } from './conversationBackend';
+import { AssistantSession, LiveSessionEvents, generateSessionId, toBooking } from './liveSession';
+import { ToolRegistry } from './toolRegistry';
+
+export interface TextSessionOptions {
+  backend: ConversationBackend;
+  tools: ToolRegistry;
+  /** Shown as the assistant's first message. Plain text, unlike the voice greeting prompt. */
+  greeting?: string;
+}
+
+/**
+ * Text-only conversation with the same events as LiveSession, so the transcript, tools and history
+ * work unchanged. Never touches the microphone or speakers.
+ */
+export class TextSession extends TypedEmitter<LiveSessionEvents> implements AssistantSession {
+  readonly mode = 'text';
+  private status = ConnectionStatus.DISCONNECTED;
+  private sessionId = '';
+  private turnIndex = 1;
+  private history: TranscriptionEntry[] = [];
+  // Messages are answered one at a time so replies never interleave.
+  private queue: Promise<void> = Promise.resolve();
+  // Bumped by stop() so a reply that arrives afterwards is dropped.
+  private generation = 0;
+
+  constructor(private readonly options: TextSessionOptions) {
+    super();
+  }
+
+  get id(): string {
+    return this.sessionId;
+  }
+
+  async start(): Promise<void> {
+    if (this.status === ConnectionStatus.CONNECTED) return;
+    this.generation++;
+    this.sessionId = generateSessionId();
+    this.turnIndex = 1;
+    this.history = [];
+    this.setStatus(ConnectionStatus.CONNECTING);
+    this.setStatus(ConnectionStatus.CONNECTED);
+    if (this.options.greeting) this.push('assistant', this.options.greeting, [], this.turnIndex++);
+  }
+
+  stop(): void {
+    this.generation++;
+    this.setStatus(ConnectionStatus.DISCONNECTED);
+  }
+
+  sendText(text: string): void {
+    const message = text.trim();
+    if (!message || this.status !== ConnectionStatus.CONNECTED) return;
+    const generation = this.generation;
+    const turn = this.turnIndex++;
+    const sentAt = Date.now();
+    this.push('user', message, [], turn);
+    this.queue = this.queue.then(() => {
+      // Read once the previous reply is in, and without messages typed after this one.
+      const history = this.history.filter(entry => this.turnOf(entry) < turn);
+      return this.answer(message, history, turn, generation, sentAt);
+    });
+  }
+
+  setInputMode(): void {}
+
+  setTalking(): void {}
+
+  getAnalyser(): AnalyserNode | null {
+    return null;
+  }
+
+  private async answer(message: string, history: TranscriptionEntry[], turn: number, generation: number, sentAt: number): Promise<void> {
+    const toolCalls: TranscriptToolCall[] = [];
+    const runTool = async (call: FunctionCall): Promise<FunctionResponse> => {
+      this.emit('toolCall', { state: 'pending', calls: [call] });
+      const response = await this.options.tools.dispatch(call);
+      toolCalls.push({ name: call.name ?? '', args: call.args ?? {}, response: response.response ?? {} });
+      this.emit('toolCall', { state: 'done', calls: [call], responses: [response] });
+      return response;
+    };
+
+    this.emit('speaking', { source: 'output', speaking: true });
+    try {
+      const reply = await this.options.backend.reply({
+        history,
+        message,
+        runTool
+      });
+      if (generation !== this.generation) return;
+      this.emit('responseLatency', { ms: Date.now() - sentAt });
+      this.push('assistant', reply || '...', toolCalls, turn);
+      this.emit('turnComplete', undefined);
+    } catch (err: any) {
+      if (generation !== this.generation) return;
+      console.error(err);
+      this.emit('error', { message: err?.message || 'Could not get a reply. Please try again.', cause: err });
+    } finally {
+      this.emit('speaking', { source: 'output', speaking: false });
+    }
+  }
+
+  private turnOf(entry: TranscriptionEntry): number {
+    return Number(entry.turnId.slice(entry.turnId.lastIndexOf(':') + 1));
+  }
+
+  private push(role: TranscriptionEntry['role'], text: string, toolCalls: TranscriptToolCall[], turn: number): void {
+    const entry: TranscriptionEntry = {
+      sessionId: this.sessionId,
+      turnId: `${this.sessionId}:${turn}`,
+      role,
+      text,
+      timestamp: Date.now()
+    };
+    if (toolCalls.length) {
+      entry.toolCalls = toolCalls;
+      const bookings = toolCalls.map(toBooking).filter((b): b is TranscriptBooking => b !== null);
+      if (bookings.length) entry.bookings = bookings;
+    }
+    this.history.push(entry);
+    this.emit('transcript', entry);
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.emit('status', status);
+  }
+}
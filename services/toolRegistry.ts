@@ -0,0 +1,71 @@
+
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+
+export type ToolResponse = Record<string, unknown>;
+
+export interface ToolDefinition<TArgs> {
+  declaration: FunctionDeclaration;
+  /** Turns the model's loosely-typed arguments into TArgs, throwing ToolArgumentError when they don't fit. */
+  parse(raw: Record<string, unknown>): TArgs;
+  handle(args: TArgs): Promise<ToolResponse>;
+}
+
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+export function defineTool<TArgs>(tool: ToolDefinition<TArgs>): ToolDefinition<TArgs> {
+  return tool;
+}
+
+export function requireString(raw: Record<string, unknown>, key: string): string {
+  const value = raw[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ToolArgumentError(`Missing required argument "${key}".`);
+  }
+  return value.trim();
+}
+
+export function optionalString(raw: Record<string, unknown>, key: string): string | undefined {
+  const value = raw[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, ToolDefinition<any>>();
+
+  register<TArgs>(tool: ToolDefinition<TArgs>): this {
+    const name = tool.declaration.name;
+    if (!name) throw new Error('Tool declarations must have a name.');
+    if (this.tools.has(name)) throw new Error(`Tool "${name}" is already registered.`);
+    this.tools.set(name, tool);
+    return this;
+  }
+
+  get declarations(): FunctionDeclaration[] {
+    return [...this.tools.values()].map(t => t.declaration);
+  }
+
+  async dispatch(call: FunctionCall): Promise<FunctionResponse> {
+    const tool = call.name ? this.tools.get(call.name) : undefined;
+    let response: ToolResponse;
+    if (!tool) {
+      response = { status: 'error', code: 'UNKNOWN_TOOL', reason: `No tool named "${call.name}".` };
+    } else {
+      try {
+        response = await tool.handle(tool.parse(call.args ?? {}));
+      } catch (err) {
+        if (err instanceof ToolArgumentError) {
+          response = { status: 'error', code: 'INVALID_ARGUMENTS', reason: err.message };
+        } else {
+          console.error(err);
+          response = { status: 'error', code: 'INTERNAL', reason: 'The clinic system is unavailable right now.' };
+        }
+      }
+    }
+    return { id: call.id, name: call.name, response };
+  }
+}
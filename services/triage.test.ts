@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Urgency } from '../types';
+import { clinic, resolveClinicConfig } from './clinicConfig';
+import { TriageArgs, assessUrgency, createTriageTools } from './triage';
+
+// Friday 2030-01-04, 5:00 PM in Manila. The shipped clinic is closed on Fridays.
+const friday = new Date('2030-01-04T09:00:00Z');
+const openOnFridays = resolveClinicConfig({ hours: { friday: { open: '16:00', close: '19:00' } } });
+
+interface SignCase {
+  reason: string;
+  urgency: Exclude<Urgency, 'routine'>;
+  flags: Omit<TriageArgs, 'symptoms'>;
+  text: string;
+}
+
+const SIGN_CASES: SignCase[] = [
+  { reason: 'Trouble breathing or swallowing', urgency: 'emergency', flags: { breathingOrSwallowingDifficulty: true }, text: 'It is hard to swallow' },
+  { reason: 'Swelling spreading toward the eye, neck or under the tongue', urgency: 'emergency', flags: { swellingSpreading: true }, text: 'My cheek is swollen up to my eye' },
+  { reason: 'Bleeding that will not stop', urgency: 'emergency', flags: { bleedingUncontrolled: true }, text: "The socket is bleeding and won't stop" },
+  { reason: 'Injury to a tooth, the face or the jaw', urgency: 'emergency', flags: { injury: true }, text: 'A tooth got knocked out playing basketball' },
+  { reason: 'Fever with swelling, a sign of a spreading infection', urgency: 'emergency', flags: { fever: true, swelling: true }, text: 'Namamaga ang gilagid ko at may lagnat' },
+  { reason: 'Severe pain', urgency: 'urgent', flags: { painLevel: 8 }, text: 'An unbearable toothache' },
+  { reason: 'Swelling', urgency: 'urgent', flags: { swelling: true }, text: 'My gum is swollen' },
+  { reason: 'Bleeding', urgency: 'urgent', flags: { bleeding: true }, text: 'My gums bleed when I brush' },
+  { reason: 'Fever', urgency: 'urgent', flags: { fever: true }, text: 'I have a slight fever' }
+];
+
+describe('assessUrgency', () => {
+  it.each(SIGN_CASES)('finds "$reason" from the flags', ({ reason, urgency, flags }) => {
+    const assessment = assessUrgency({ symptoms: 'Something is wrong with my tooth', ...flags }, clinic, friday);
+    expect(assessment.reasons).toContain(reason);
+    expect(assessment.urgency).toBe(urgency);
+  });
+
+  it.each(SIGN_CASES)('finds "$reason" in the symptoms when no flag is set', ({ reason, urgency, text }) => {
+    const assessment = assessUrgency({ symptoms: text }, clinic, friday);
+    expect(assessment.reasons).toContain(reason);
+    expect(assessment.urgency).toBe(urgency);
+  });
+
+  it('calls it an emergency when an emergency sign comes with urgent ones', () => {
+    const assessment = assessUrgency({ symptoms: 'A tooth was knocked out and it is bleeding', painLevel: 9 }, clinic, friday);
+    expect(assessment.urgency).toBe('emergency');
+    expect(assessment.reasons).toEqual(['Injury to a tooth, the face or the jaw', 'Severe pain', 'Bleeding']);
+    expect(assessment.guidance[0]).toBe(`Go to the nearest hospital emergency room or call ${clinic.emergency.hotline} now.`);
+  });
+
+  it('is routine without any sign', () => {
+    const assessment = assessUrgency({ symptoms: 'I would like my teeth cleaned', painLevel: 2 }, clinic, friday);
+    expect(assessment).toMatchObject({ urgency: 'routine', reasons: [], guidance: [] });
+  });
+
+  it('checks the opening hours of the clinic it is given', () => {
+    expect(assessUrgency({ symptoms: 'Toothache' }, clinic, friday).clinicOpen).toBe(false);
+    expect(assessUrgency({ symptoms: 'Toothache' }, openOnFridays, friday).clinicOpen).toBe(true);
+  });
+});
+
+describe('assessUrgency tool', () => {
+  const run = (config = clinic) => createTriageTools(config, {}, () => friday)[0].handle({ symptoms: 'My gum is swollen' });
+
+  it('offers a slot today or a callback while the clinic is open', async () => {
+    const response = await run(openOnFridays);
+    expect(response).toMatchObject({ urgency: 'urgent', clinicOpen: true });
+    expect(response.nextStep).toContain(`give the clinic number ${openOnFridays.emergency.phone}`);
+    expect(response).not.toHaveProperty('afterHours');
+  });
+
+  it('gives the after-hours advice while the clinic is closed', async () => {
+    const response = await run();
+    expect(response).toMatchObject({ urgency: 'urgent', clinicOpen: false, afterHours: clinic.emergency.afterHours });
+    expect(response.nextStep).toMatch(/^The clinic is closed\./);
+  });
+});
@@ -0,0 +1,189 @@
+
+import { Type } from '@google/genai';
+import { TriageAssessment, Urgency } from '../types';
+import { ClinicConfig } from './clinicConfig';
+import { isClinicOpen } from './scheduling';
+import { defineTool, requireString, ToolDefinition } from './toolRegistry';
+
+export interface TriageArgs {
+  symptoms: string;
+  /** 0-10 as the patient rates it. */
+  painLevel?: number;
+  swelling?: boolean;
+  /** Toward the eye, the neck or under the tongue. */
+  swellingSpreading?: boolean;
+  bleeding?: boolean;
+  /** Still bleeding after 30 minutes of firm pressure. */
+  bleedingUncontrolled?: boolean;
+  fever?: boolean;
+  breathingOrSwallowingDifficulty?: boolean;
+  /** Knocked-out or broken tooth, or a blow to the face or jaw. */
+  injury?: boolean;
+}
+
+type Sign = 'breathing' | 'spreadingSwelling' | 'uncontrolledBleeding' | 'injury' | 'feverWithSwelling' | 'severePain' | 'swelling' | 'bleeding' | 'fever';
+
+interface SignRule {
+  urgency: Exclude<Urgency, 'routine'>;
+  reason: string;
+  present(args: TriageArgs, text: string): boolean;
+}
+
+// Symptom words in English and Filipino, so the symptom text still counts when the model leaves a flag unset.
+const SWELLING = /\b(swell|swelling|swollen|maga|namamaga|namaga)\b/;
+const BLEEDING = /\b(bleed|bleeding|blood|dugo|dumudugo|nagdudugo)\b/;
+const FEVER = /\b(fever|lagnat|nilalagnat|sinat)\b/;
+
+// Every sign found is listed as a reason; a single emergency sign makes the whole case an emergency.
+const SIGNS: Record<Sign, SignRule> = {
+  breathing: {
+    urgency: 'emergency',
+    reason: 'Trouble breathing or swallowing',
+    present: (a, t) => !!a.breathingOrSwallowingDifficulty || /(hard|trouble|difficulty|can'?t|cannot) (to )?(breathe|breathing|swallow|swallowing)|hirap (huminga|lumunok)/.test(t)
+  },
+  spreadingSwelling: {
+    urgency: 'emergency',
+    reason: 'Swelling spreading toward the eye, neck or under the tongue',
+    present: (a, t) => !!a.swellingSpreading || (SWELLING.test(t) && /\b(eye|neck|tongue|mata|leeg|dila)\b/.test(t))
+  },
+  uncontrolledBleeding: {
+    urgency: 'emergency',
+    reason: 'Bleeding that will not stop',
+    present: (a, t) => !!a.bleedingUncontrolled || (BLEEDING.test(t) && /(won'?t|will not|doesn'?t|does not|not) stop|hindi (tumitigil|huminto|maampat)|ayaw tumigil/.test(t))
+  },
+  injury: {
+    urgency: 'emergency',
+    reason: 'Injury to a tooth, the face or the jaw',
+    present: (a, t) => !!a.injury || /knocked out|broken jaw|\b(accident|aksidente|nabagok|natamaan|nabungi)\b/.test(t)
+  },
+  feverWithSwelling: {
+    urgency: 'emergency',
+    reason: 'Fever with swelling, a sign of a spreading infection',
+    present: (a, t) => (!!a.fever || FEVER.test(t)) && (!!a.swelling || SWELLING.test(t))
+  },
+  severePain: {
+    urgency: 'urgent',
+    reason: 'Severe pain',
+    present: (a, t) => (a.painLevel ?? 0) >= 7 || /\b(severe|unbearable|excruciating|sobrang sakit|hindi (ko )?(na )?matiis|can'?t sleep)\b/.test(t)
+  },
+  swelling: {
+    urgency: 'urgent',
+    reason: 'Swelling',
+    present: (a, t) => !!a.swelling || SWELLING.test(t)
+  },
+  bleeding: {
+    urgency: 'urgent',
+    reason: 'Bleeding',
+    present: (a, t) => !!a.bleeding || BLEEDING.test(t)
+  },
+  fever: {
+    urgency: 'urgent',
+    reason: 'Fever',
+    present: (a, t) => !!a.fever || FEVER.test(t)
+  }
+};
+
+const FIRST_AID: Partial<Record<Sign, string>> = {
+  uncontrolledBleeding: 'Bite firmly on clean gauze or a damp tea bag and keep the pressure on while you get help.',
+  bleeding: 'Bite firmly on clean gauze or a damp tea bag for 30 minutes. Do not rinse, spit or use a straw.',
+  injury: 'If a tooth was knocked out, hold it by the crown, keep it in milk and get to a dentist or hospital within 30 minutes.',
+  swelling: 'Hold a cold compress on the cheek, 15 minutes on and 15 minutes off, and keep your head raised.',
+  severePain: 'Take your usual pain reliever as directed on the label. Avoid aspirin if you are bleeding.',
+  fever: 'Drink plenty of water and keep track of your temperature.'
+};
+
+/** Rule-based urgency from the model's flags and the symptom text. The assistant never diagnoses; this only decides how fast to act. */
+export function assessUrgency(args: TriageArgs, config: ClinicConfig, now: Date = new Date()): TriageAssessment {
+  const text = args.symptoms.toLowerCase();
+  const found = (Object.keys(SIGNS) as Sign[]).filter(sign => SIGNS[sign].present(args, text));
+  const urgency: Urgency = found.some(sign => SIGNS[sign].urgency === 'emergency')
+    ? 'emergency'
+    : found.length ? 'urgent' : 'routine';
+
+  const guidance = found.map(sign => FIRST_AID[sign]).filter((step, i, all): step is string => !!step && all.indexOf(step) === i);
+  if (urgency === 'emergency') guidance.unshift(`Go to the nearest hospital emergency room or call ${config.emergency.hotline} now.`);
+
+  return {
+    urgency,
+    reasons: found.map(sign => SIGNS[sign].reason),
+    guidance,
+    symptoms: args.symptoms,
+    clinicOpen: isClinicOpen(now, config),
+    assessedAt: now.getTime()
+  };
+}
+
+function nextStep(assessment: TriageAssessment, config: ClinicConfig): string {
+  if (assessment.urgency === 'emergency') {
+    return `Calmly tell the patient to go to the nearest hospital emergency room or call ${config.emergency.hotline} now, and read the guidance. Do not book a routine appointment. Offer a callback from the clinic with requestHumanHandoff.`;
+  }
+  if (assessment.urgency === 'urgent') {
+    return assessment.clinicOpen
+      ? `Read the guidance, give the clinic number ${config.emergency.phone}, and offer the earliest slot today (checkAvailability) or a callback (requestHumanHandoff).`
+      : 'The clinic is closed. Read the guidance and the after-hours advice, then offer a callback when the clinic opens (requestHumanHandoff) or the first available slot.';
+  }
+  return 'Nothing urgent was reported. Reassure the patient and offer a regular check-up.';
+}
+
+function optionalBoolean(raw: Record<string, unknown>, key: string): boolean | undefined {
+  return typeof raw[key] === 'boolean' ? raw[key] as boolean : undefined;
+}
+
+export function createTriageTools(
+  config: ClinicConfig,
+  events: { onAssessed?: (assessment: TriageAssessment) => void } = {},
+  now: () => Date = () => new Date()
+): ToolDefinition<any>[] {
+  const assessUrgencyTool = defineTool<TriageArgs>({
+    declaration: {
+      name: 'assessUrgency',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Classify how urgent a dental problem is and get the emergency contacts and first-aid guidance to read out. Call it as soon as the patient mentions pain, swelling, bleeding, fever, an injury, or trouble breathing or swallowing.',
+        properties: {
+          symptoms: { type: Type.STRING, description: "The patient's symptoms in their own words, including how long and whether it follows an extraction." },
+          painLevel: { type: Type.INTEGER, description: 'Pain from 0 (none) to 10 (worst), if the patient rated it.' },
+          swelling: { type: Type.BOOLEAN, description: 'Any swelling of the gum, cheek or face.' },
+          swellingSpreading: { type: Type.BOOLEAN, description: 'Swelling spreading toward the eye, neck or under the tongue.' },
+          bleeding: { type: Type.BOOLEAN, description: 'Bleeding from the mouth, e.g. after an extraction.' },
+          bleedingUncontrolled: { type: Type.BOOLEAN, description: 'Bleeding that has not stopped after 30 minutes of firm pressure.' },
+          fever: { type: Type.BOOLEAN, description: 'Fever or chills.' },
+          breathingOrSwallowingDifficulty: { type: Type.BOOLEAN, description: 'Trouble breathing or swallowing.' },
+          injury: { type: Type.BOOLEAN, description: 'Knocked-out or broken tooth, or a blow to the face or jaw.' },
+        },
+        required: ['symptoms'],
+      },
+    },
+    parse: raw => {
+      const pain = raw.painLevel;
+      return {
+        symptoms: requireString(raw, 'symptoms'),
+        painLevel: typeof pain === 'number' && pain >= 0 && pain <= 10 ? pain : undefined,
+        swelling: optionalBoolean(raw, 'swelling'),
+        swellingSpreading: optionalBoolean(raw, 'swellingSpreading'),
+        bleeding: optionalBoolean(raw, 'bleeding'),
+        bleedingUncontrolled: optionalBoolean(raw, 'bleedingUncontrolled'),
+        fever: optionalBoolean(raw, 'fever'),
+        breathingOrSwallowingDifficulty: optionalBoolean(raw, 'breathingOrSwallowingDifficulty'),
+        injury: optionalBoolean(raw, 'injury')
+      };
+    },
+    handle: async args => {
+      const assessment = assessUrgency(args, config, now());
+      events.onAssessed?.(assessment);
+      return {
+        status: 'success',
+        urgency: assessment.urgency,
+        reasons: assessment.reasons,
+        guidance: assessment.guidance,
+        clinicOpen: assessment.clinicOpen,
+        clinicPhone: config.emergency.phone,
+        emergencyHotline: config.emergency.hotline,
+        ...(!assessment.clinicOpen && { afterHours: config.emergency.afterHours }),
+        nextStep: nextStep(assessment, config)
+      };
+    }
+  });
+
+  return [assessUrgencyTool];
+}
@@ -0,0 +1,157 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { AppointmentStatus } from '../types';
+import { formatDate } from '../services/scheduling';
+import { FakeAudioLog, installFakeWebAudio } from './fakeWebAudio';
+import {
+  MockLiveServer,
+  ScriptStep,
+  callTool,
+  heard,
+  interrupted,
+  speech,
+  startMockLiveServer,
+  toolResponseFor,
+  transcribe,
+  turnComplete,
+  userSaid
+} from './mockLiveServer';
+
+const GREETING = 'Hello! I am Mia from G.C Mia Dental Clinic. How can I help?';
+
+// The greeting prompt is the first text the app sends once the socket opens.
+const greet = (...reply: ScriptStep['reply']): ScriptStep => ({ when: message => typeof message.realtimeInput?.text === 'string', reply });
+
+/** A Monday at least two days out, when the clinic is open 4 to 7 PM. */
+function nextOpenMonday(): string {
+  const day = new Date();
+  day.setDate(day.getDate() + 2);
+  while (day.getDay() !== 1) day.setDate(day.getDate() + 1);
+  return formatDate(day);
+}
+
+let server: MockLiveServer | null = null;
+let audio: FakeAudioLog;
+
+async function launch(script: ScriptStep[]) {
+  server = await startMockLiveServer(script);
+  // App reads these when it is first imported, so each test gets a fresh module graph.
+  process.env.LIVE_BASE_URL = server.url;
+  vi.resetModules();
+  const { default: Root } = await import('../Root');
+  const { scheduler } = await import('../services/appServices');
+  render(<Root />);
+  fireEvent.click(screen.getByRole('button', { name: /start consultation/i }));
+  return { scheduler };
+}
+
+function type(text: string) {
+  const input = screen.getByPlaceholderText('Type a message...');
+  fireEvent.change(input, { target: { value: text } });
+  fireEvent.keyPress(input, { key: 'Enter', code: 'Enter', charCode: 13 });
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  localStorage.setItem('gcmia.language', 'english');
+  audio = installFakeWebAudio();
+  vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
+    if (String(input).endsWith('/live-token')) {
+      return new Response(JSON.stringify({ mode: 'token', token: 'auth_tokens/test', expiresAt: Date.now() + 60_000 }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    // Booking notifications.
+    return new Response(null, { status: 202 });
+  }));
+});
+
+afterEach(async () => {
+  cleanup();
+  await server?.close();
+  server = null;
+  delete process.env.LIVE_BASE_URL;
+  vi.unstubAllGlobals();
+});
+
+describe('App against a scripted Live server', () => {
+  it('greets, books through tool calls and only saves after the patient confirms', async () => {
+    const date = nextOpenMonday();
+    const booking = { clientName: 'Ana Santos', appointmentDate: date, appointmentTime: '5:00 PM', purpose: 'cleaning' };
+    const { scheduler } = await launch([
+      greet(speech(), transcribe(GREETING), turnComplete()),
+      { when: userSaid('cleaning'), reply: [callTool('bookAppointment', booking)] },
+      { when: toolResponseFor('bookAppointment'), reply: [transcribe('Ana Santos, cleaning, 5:00 PM. Shall I book it?'), turnComplete()] },
+      { when: userSaid('details are correct'), reply: [callTool('bookAppointment', { ...booking, patientConfirmed: true })] },
+      { when: toolResponseFor('bookAppointment'), reply: [transcribe('Booked! Your reference code is on screen.'), turnComplete()] }
+    ]);
+
+    expect(await screen.findByText(GREETING)).toBeTruthy();
+    expect(audio.played.length).toBeGreaterThan(0);
+
+    type(`I'd like a cleaning on ${date} at 5 PM, my name is Ana Santos`);
+    expect(await screen.findByText('Please Confirm Your Booking')).toBeTruthy();
+    expect(await screen.findByText(/Shall I book it\?/)).toBeTruthy();
+    expect(await scheduler.list()).toHaveLength(0);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Yes, Book It' }));
+    expect(await screen.findByText('Appointment Requested')).toBeTruthy();
+    await screen.findByText('Booked! Your reference code is on screen.');
+    await server!.finished;
+
+    const [saved] = await scheduler.list();
+    expect(saved).toMatchObject({ clientName: 'Ana Santos', date, startMinutes: 17 * 60, status: AppointmentStatus.PENDING });
+    expect(screen.getByText(saved.reference!)).toBeTruthy();
+
+    const responses = server!.received
+      .filter(message => message.toolResponse)
+      .map(message => message.toolResponse.functionResponses[0].response.status);
+    expect(responses).toEqual(['needs_confirmation', 'success']);
+  });
+
+  it('stops playback when the server reports an interruption and keeps the transcript', async () => {
+    await launch([
+      greet(speech(2000), transcribe('Hello! I am Mia, your')),
+      { afterMs: 200, reply: [interrupted(), heard('What are your hours?')] },
+      { afterMs: 100, reply: [speech(), transcribe(' We are open Monday to Thursday, 4 to 7 PM.'), turnComplete()] }
+    ]);
+
+    expect(await screen.findByText('What are your hours?')).toBeTruthy();
+    expect(await screen.findByText(/Monday to Thursday, 4 to 7 PM/)).toBeTruthy();
+    expect(audio.played.length).toBe(2);
+    expect(audio.stopped).toContain(audio.played[0]);
+    expect(audio.stopped).not.toContain(audio.played[1]);
+  });
+
+  it('streams live captions while Mia speaks and hands the finished turn to the transcript log', async () => {
+    const reply = 'Hello! I am Mia, how can I help?';
+    await launch([
+      greet(speech(), transcribe('Hello! I am Mia,')),
+      { afterMs: 50, reply: [transcribe(' how can I help?')] },
+      { when: userSaid('thanks'), reply: [turnComplete()] }
+    ]);
+    const hiddenFromScreenReaders = (el: HTMLElement) => !!el.closest('[aria-hidden="true"]');
+
+    // Before turnComplete the text is only in the captions, which screen readers skip.
+    await waitFor(() => expect(screen.getAllByText(reply).length).toBeGreaterThan(0));
+    expect(screen.getAllByText(reply).every(hiddenFromScreenReaders)).toBe(true);
+
+    type('thanks');
+    await waitFor(() => expect(screen.getAllByText(reply)).toHaveLength(1));
+    const entry = screen.getByText(reply);
+    expect(hiddenFromScreenReaders(entry)).toBe(false);
+    expect(screen.getByRole('log').contains(entry)).toBe(true);
+  });
+
+  it('sends the setup with the booking tools and the transcription settings', async () => {
+    await launch([greet(transcribe(GREETING), turnComplete())]);
+    await screen.findByText(GREETING);
+
+    const setup = server!.received[0].setup;
+    const tools = setup.tools[0].functionDeclarations.map((declaration: { name: string }) => declaration.name);
+    expect(tools).toEqual(expect.arrayContaining(['bookAppointment', 'checkAvailability', 'assessUrgency', 'requestHumanHandoff']));
+    expect(setup.inputAudioTranscription).toEqual({});
+    expect(setup.outputAudioTranscription).toEqual({});
+  });
+});
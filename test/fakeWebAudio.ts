@@ -0,0 +1,128 @@
+
+import { vi } from 'vitest';
+
+/** What the app played and stopped, for assertions. */
+export interface FakeAudioLog {
+  played: FakeBufferSource[];
+  stopped: FakeBufferSource[];
+}
+
+class FakeNode {
+  connect(): void {}
+  disconnect(): void {}
+}
+
+class FakeAnalyser extends FakeNode {
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+  get frequencyBinCount(): number {
+    return this.fftSize / 2;
+  }
+  getByteTimeDomainData(data: Uint8Array): void {
+    data.fill(128);
+  }
+  getByteFrequencyData(data: Uint8Array): void {
+    data.fill(0);
+  }
+}
+
+export class FakeAudioBuffer {
+  private readonly channels: Float32Array[];
+
+  constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration(): number {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number): Float32Array {
+    return this.channels[channel];
+  }
+}
+
+export class FakeBufferSource extends FakeNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly log: FakeAudioLog) {
+    super();
+  }
+
+  start(): void {
+    this.log.played.push(this);
+    this.timer = setTimeout(() => this.end(), (this.buffer?.duration ?? 0) * 1000);
+  }
+
+  stop(): void {
+    this.log.stopped.push(this);
+    this.end();
+  }
+
+  private end(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const onended = this.onended;
+    this.onended = null;
+    onended?.();
+  }
+}
+
+class FakeWorkletNode extends FakeNode {
+  port = { onmessage: null as ((e: MessageEvent) => void) | null, postMessage: () => {} };
+}
+
+/**
+ * Installs just enough of Web Audio and getUserMedia for BrowserAudioPipeline to run under jsdom.
+ * The mic stays silent; model audio "plays" for its real duration so speaking state behaves as in a browser.
+ */
+export function installFakeWebAudio(): FakeAudioLog {
+  const log: FakeAudioLog = { played: [], stopped: [] };
+  const startedAt = performance.now();
+
+  class FakeAudioContext {
+    readonly sampleRate: number;
+    readonly destination = new FakeNode();
+    readonly audioWorklet = { addModule: async () => {} };
+    state = 'running';
+
+    constructor(options: { sampleRate?: number } = {}) {
+      this.sampleRate = options.sampleRate ?? 48000;
+    }
+
+    get currentTime(): number {
+      return (performance.now() - startedAt) / 1000;
+    }
+
+    async resume(): Promise<void> {}
+    async close(): Promise<void> {
+      this.state = 'closed';
+    }
+    createAnalyser() {
+      return new FakeAnalyser();
+    }
+    createBuffer(channels: number, length: number, sampleRate: number) {
+      return new FakeAudioBuffer(channels, length, sampleRate);
+    }
+    createBufferSource() {
+      return new FakeBufferSource(log);
+    }
+    createMediaStreamSource() {
+      return new FakeNode();
+    }
+  }
+
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.stubGlobal('AudioWorkletNode', FakeWorkletNode);
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: { getUserMedia: async () => ({ getTracks: () => [{ stop: () => {} }] }) }
+  });
+  // jsdom has no Blob URLs (the worklet loader makes one) and no canvas (the visualizer draws on one).
+  URL.createObjectURL = () => 'blob:fake';
+  URL.revokeObjectURL = () => {};
+  HTMLCanvasElement.prototype.getContext = (() => null) as typeof HTMLCanvasElement.prototype.getContext;
+  return log;
+}
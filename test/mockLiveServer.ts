@@ -0,0 +1,109 @@
+
+import { AddressInfo } from 'node:net';
+import { LiveServerMessage } from '@google/genai';
+import { WebSocket, WebSocketServer } from 'ws';
+
+/** A message from the app as it arrives on the socket: `setup`, `realtimeInput`, `clientContent` or `toolResponse`. */
+export type LiveClientMessage = Record<string, any>;
+
+export interface ScriptStep {
+  /** Waits for a client message this matches; without it the replies go out right after the previous step. */
+  when?: (message: LiveClientMessage) => boolean;
+  /** Pause before replying, e.g. to let audio start playing before an interruption. */
+  afterMs?: number;
+  reply: LiveServerMessage[];
+}
+
+export interface MockLiveServer {
+  /** Pass as the Live base URL; the SDK appends the /ws/... path. */
+  url: string;
+  /** Everything the app sent, setup included, in order. */
+  received: LiveClientMessage[];
+  /** Resolves once every step of the script has been sent. */
+  finished: Promise<void>;
+  close(): Promise<void>;
+}
+
+export const userSaid = (pattern: string | RegExp) => (message: LiveClientMessage): boolean => {
+  const text = message.realtimeInput?.text;
+  return typeof text === 'string' && (typeof pattern === 'string' ? text.includes(pattern) : pattern.test(text));
+};
+
+export const toolResponseFor = (name: string) => (message: LiveClientMessage): boolean =>
+  !!message.toolResponse?.functionResponses?.some((response: { name?: string }) => response.name === name);
+
+export const transcribe = (text: string): LiveServerMessage => ({ serverContent: { outputTranscription: { text } } } as LiveServerMessage);
+
+export const heard = (text: string): LiveServerMessage => ({ serverContent: { inputTranscription: { text } } } as LiveServerMessage);
+
+/** Model audio: `ms` of a quiet 24 kHz tone as base64 PCM16, enough for playback to start. */
+export const speech = (ms = 200): LiveServerMessage => {
+  const samples = new Int16Array(Math.round(24 * ms));
+  samples.forEach((_, i) => { samples[i] = Math.round(Math.sin(i / 8) * 3000); });
+  const data = Buffer.from(samples.buffer).toString('base64');
+  return { serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data } }] } } } as LiveServerMessage;
+};
+
+export const callTool = (name: string, args: Record<string, unknown>): LiveServerMessage =>
+  ({ toolCall: { functionCalls: [{ id: `call-${name}-${Math.random().toString(36).slice(2, 8)}`, name, args }] } } as LiveServerMessage);
+
+export const interrupted = (): LiveServerMessage => ({ serverContent: { interrupted: true } } as LiveServerMessage);
+
+export const turnComplete = (): LiveServerMessage => ({ serverContent: { turnComplete: true } } as LiveServerMessage);
+
+/**
+ * A local stand-in for the Gemini Live socket that plays back a fixed script, so the whole app can
+ * be driven end to end without a model. Steps run in order across reconnects; each waits for the
+ * client message it names, then sends its replies.
+ */
+export async function startMockLiveServer(script: ScriptStep[]): Promise<MockLiveServer> {
+  const wss = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+  await new Promise<void>(resolve => wss.once('listening', () => resolve()));
+  const received: LiveClientMessage[] = [];
+  let step = 0;
+  let markFinished = () => {};
+  const finished = new Promise<void>(resolve => { markFinished = resolve; });
+  // Replies go out one step at a time so a step's pause never reorders them.
+  let outgoing = Promise.resolve();
+
+  const send = (socket: WebSocket, { afterMs, reply }: ScriptStep) => {
+    outgoing = outgoing.then(async () => {
+      if (afterMs) await new Promise(resolve => setTimeout(resolve, afterMs));
+      reply.forEach(message => socket.send(JSON.stringify(message)));
+    });
+  };
+
+  const advance = (socket: WebSocket) => {
+    while (step < script.length && !script[step].when) send(socket, script[step++]);
+    if (step === script.length) outgoing.then(markFinished);
+  };
+
+  wss.on('connection', socket => {
+    socket.on('message', raw => {
+      const message = JSON.parse(raw.toString()) as LiveClientMessage;
+      received.push(message);
+      if (message.setup) {
+        socket.send(JSON.stringify({ setupComplete: {} }));
+        advance(socket);
+        return;
+      }
+      const current = script[step];
+      if (current?.when?.(message)) {
+        step++;
+        send(socket, current);
+        advance(socket);
+      }
+    });
+  });
+
+  const { port } = wss.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    received,
+    finished,
+    close: () => new Promise<void>(resolve => {
+      wss.clients.forEach(client => client.terminate());
+      wss.close(() => resolve());
+    })
+  };
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent } from '@testing-library/react';
+
+const CHAT_ENDPOINT = 'https://clinic.example/api/chat';
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+// The widget configures module-wide clinic data, so every test needs a fresh module graph.
+async function loadWidget() {
+  vi.resetModules();
+  return (await import('../widget/index')).MiaWidget;
+}
+
+function shadowOf(el: HTMLElement): ShadowRoot {
+  const root = el.firstElementChild?.shadowRoot;
+  if (!root) throw new Error('The widget did not attach a shadow root.');
+  return root;
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  // The session server is down, so text chat falls back to the rule-based responder.
+  fetchMock = vi.fn(async () => new Response(JSON.stringify({ error: 'UNAVAILABLE' }), { status: 503 }));
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  document.body.innerHTML = '';
+  vi.unstubAllGlobals();
+});
+
+describe('Embeddable widget', () => {
+  it('renders the configured clinic inside a shadow root and chats through the given endpoint', async () => {
+    const MiaWidget = await loadWidget();
+    const el = document.createElement('div');
+    document.body.appendChild(el);
+    const handle = MiaWidget.mount(el, {
+      chatEndpoint: CHAT_ENDPOINT,
+      clinic: { name: 'Bright Smile Dental', assistant: { name: 'Ana' } },
+      language: 'english',
+      accentColor: '#0d9488'
+    });
+    const shadow = shadowOf(el);
+
+    const launcher = await vi.waitFor(() => {
+      const button = shadow.querySelector('.launcher');
+      if (!button) throw new Error('Launcher not rendered yet');
+      return button;
+    }, { timeout: 10_000 });
+    expect(launcher.textContent).toBe('Talk to Ana');
+    expect(document.querySelector('.launcher')).toBeNull();
+    expect((el.firstElementChild as HTMLElement).style.getPropertyValue('--mia-accent')).toBe('#0d9488');
+
+    handle.open();
+    await vi.waitFor(() => expect(shadow.querySelector('.panel h2')?.textContent).toBe('Ana'));
+    expect(shadow.querySelector('.panel-header p')?.textContent).toBe('Bright Smile Dental');
+
+    const input = shadow.querySelector('input[type="text"]') as HTMLInputElement;
+    fireEvent.change(input, { target: { value: 'What are your hours?' } });
+    fireEvent.submit(shadow.querySelector('form')!);
+
+    await vi.waitFor(() => {
+      const replies = [...shadow.querySelectorAll('.bubble.assistant')].map(b => b.textContent);
+      expect(replies.some(text => text?.startsWith("We're open"))).toBe(true);
+    });
+    expect(shadow.querySelector('.bubble.user')?.textContent).toBe('What are your hours?');
+    const chatCall = fetchMock.mock.calls.find(([url]) => String(url) === CHAT_ENDPOINT);
+    // The server prompts for the page's clinic, the same one voice uses.
+    expect(JSON.parse(chatCall![1].body).clinic).toEqual({ name: 'Bright Smile Dental', assistant: { name: 'Ana' } });
+
+    handle.unmount();
+    expect(el.childElementCount).toBe(0);
+  });
+
+  it('rejects invalid clinic overrides and a second, different clinic on the same page', async () => {
+    const MiaWidget = await loadWidget();
+    const el = document.createElement('div');
+    expect(() => MiaWidget.mount(el, { clinic: { scheduling: { slotIntervalMinutes: 0 } } }))
+      .toThrow(/scheduling\.slotIntervalMinutes must be a positive integer/);
+
+    const handle = MiaWidget.mount(el, { clinic: { assistant: { name: 'Ana' } } });
+    expect(() => MiaWidget.mount(el, { clinic: { assistant: { name: 'Bea' } } })).toThrow(/already mounted/);
+    handle.unmount();
+  });
+
+  it('logs a malformed clinic script on <mia-assistant> instead of throwing', async () => {
+    await loadWidget();
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const el = document.createElement('mia-assistant');
+    el.innerHTML = '<script type="application/json">{ "name": "Bright Smile", }</script>';
+
+    expect(() => document.body.appendChild(el)).not.toThrow();
+    expect(errorSpy).toHaveBeenCalledWith('Could not start the Mia widget', expect.objectContaining({ name: 'ClinicConfigError' }));
+    expect(el.querySelector('div')).toBeNull();
+    errorSpy.mockRestore();
+  });
+});
@@ -1,20 +1,158 @@
 
+export interface TranscriptToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  response: Record<string, unknown>;
+}
+
+export interface TranscriptBooking {
+  appointmentId: string;
+  /** The tool that produced it, e.g. bookAppointment or cancelAppointment. */
+  tool: string;
+  date?: string;
+  time?: string;
+}
+
 export interface TranscriptionEntry {
+  sessionId: string;
+  /** Shared by the user and assistant entries of one exchange. */
+  turnId: string;
   role: 'user' | 'assistant';
   text: string;
   timestamp: number;
+  toolCalls?: TranscriptToolCall[];
+  bookings?: TranscriptBooking[];
+}
+
+export interface ConversationSession {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  entryCount: number;
+  bookingCount: number;
+  /** First thing the patient said, for the history list. */
+  preview: string;
+  /** The patient asked for a person and a callback was queued. */
+  flagged?: boolean;
+}
+
+/** Where a transcript turn starts in the call recording. */
+export interface RecordingMark {
+  turnId: string;
+  role: 'user' | 'assistant';
+  offsetMs: number;
+}
+
+/** A consented voice call as a stereo WAV: the patient's mic on the left channel, Mia on the right. */
+export interface CallRecording {
+  sessionId: string;
+  startedAt: number;
+  durationMs: number;
+  marks: RecordingMark[];
+  audio: Blob;
 }
 
 export enum ConnectionStatus {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
 
+export interface PriceRange {
+  min: number;
+  max: number;
+  /** ISO 4217 code, e.g. PHP. */
+  currency: string;
+  /** What the range covers, e.g. "per tooth" or "full treatment". */
+  unit?: string;
+}
+
 export interface DentalService {
   id: string;
   title: string;
   description: string;
   icon: string;
+  price: PriceRange;
+  /** Typical chair time, also used to size booking slots. */
+  durationMinutes: number;
+  preparation: string[];
+  aftercare: string[];
+}
+
+export enum AppointmentStatus {
+  PENDING = 'PENDING',
+  CONFIRMED = 'CONFIRMED',
+  DECLINED = 'DECLINED',
+  CANCELLED = 'CANCELLED'
+}
+
+export interface Appointment {
+  id: string;
+  /** Short code the patient keeps, e.g. GCM-7K3Q9P. Missing on bookings made before codes were issued. */
+  reference?: string;
+  clientName: string;
+  date: string; // YYYY-MM-DD, clinic local time
+  startMinutes: number; // minutes after midnight
+  durationMinutes: number;
+  serviceId: string | null;
+  purpose: string;
+  status: AppointmentStatus;
+  createdAt: number;
+  /** Pre-visit questionnaire, present once the patient has confirmed it. */
+  intake?: PatientIntake;
+}
+
+export type PatientType = 'new' | 'returning';
+
+export interface PatientIntake {
+  contactNumber: string;
+  age: number;
+  patientType: PatientType;
+  /** Empty when the patient has none. */
+  medicalConditions: string[];
+  allergies: string[];
+  confirmedAt: number;
+}
+
+export interface TimeSlot {
+  date: string;
+  time: string;
+}
+
+export type Urgency = 'emergency' | 'urgent' | 'routine';
+
+export interface TriageAssessment {
+  urgency: Urgency;
+  /** The warning signs found, e.g. "Swelling spreading toward the eye or neck". */
+  reasons: string[];
+  /** First-aid steps for what was reported. */
+  guidance: string[];
+  symptoms: string;
+  /** Decides between the clinic line and the after-hours guidance. */
+  clinicOpen: boolean;
+  assessedAt: number;
+}
+
+export enum CallbackStatus {
+  OPEN = 'OPEN',
+  DONE = 'DONE'
+}
+
+export interface CallbackRequest {
+  id: string;
+  /** Null when the request was made before anything was said. */
+  sessionId: string | null;
+  patientName: string | null;
+  contactNumber: string;
+  reason: string;
+  /** From the latest triage in the conversation, if any. */
+  urgency: Urgency | null;
+  preferredTime: string | null;
+  status: CallbackStatus;
+  /** The conversation up to the request, so staff can call back without the patient repeating themselves. */
+  transcript: TranscriptionEntry[];
+  createdAt: number;
+  resolvedAt: number | null;
 }
@@ -0,0 +1,84 @@
+
+import { describe, expect, it } from 'vitest';
+import { decode, decodeAudioData, encode, encodePcm16, writeWavHeader } from './audioUtils';
+import { FakeAudioBuffer } from '../test/fakeWebAudio';
+
+// decodeAudioData only needs createBuffer from the context.
+const ctx = { createBuffer: (channels: number, length: number, rate: number) => new FakeAudioBuffer(channels, length, rate) } as unknown as AudioContext;
+
+function pcmOf(blob: { data: string }): Int16Array {
+  const bytes = decode(blob.data);
+  return new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2);
+}
+
+describe('encode / decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('produces standard base64', () => {
+    expect(encode(new TextEncoder().encode('Mia'))).toBe('TWlh');
+    expect(encode(new Uint8Array(0))).toBe('');
+  });
+});
+
+describe('encodePcm16', () => {
+  it('encodes only the viewed part of a larger buffer', () => {
+    const backing = Int16Array.from([1, 2, 3, 4]);
+    const blob = encodePcm16(backing.subarray(1, 3), 24000);
+    expect(Array.from(pcmOf(blob))).toEqual([2, 3]);
+    expect(blob.mimeType).toBe('audio/pcm;rate=24000');
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('scales PCM16 to -1..1', async () => {
+    const bytes = new Uint8Array(Int16Array.from([0, 16384, -32768, 32767]).buffer);
+    const buffer = await decodeAudioData(bytes, ctx, 24000, 1);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+
+  it('reads a view at an odd offset into a larger buffer', async () => {
+    const backing = new Uint8Array(7);
+    const view = new DataView(backing.buffer);
+    view.setInt16(1, 16384, true);
+    view.setInt16(3, -16384, true);
+    const buffer = await decodeAudioData(backing.subarray(1, 5), ctx, 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -0.5]);
+  });
+
+  it('splits interleaved channels', async () => {
+    const bytes = new Uint8Array(Int16Array.from([16384, -16384, 8192, -8192]).buffer);
+    const buffer = await decodeAudioData(bytes, ctx, 24000, 2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, -0.25]);
+  });
+
+  it('ignores a trailing odd byte', async () => {
+    const bytes = new Uint8Array([0, 64, 7]);
+    const buffer = await decodeAudioData(bytes, ctx, 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5]);
+  });
+
+  it('round-trips what encodePcm16 encodes', async () => {
+    const buffer = await decodeAudioData(decode(encodePcm16(Int16Array.from([0, 8192, -16384, 24576])).data), ctx, 16000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.25, -0.5, 0.75]);
+  });
+});
+
+describe('writeWavHeader', () => {
+  it('describes 16-bit PCM with the given channels, rate and length', () => {
+    const view = new DataView(new ArrayBuffer(44));
+    writeWavHeader(view, 2, 24000, 2);
+    const tag = (offset: number) => String.fromCharCode(...[0, 1, 2, 3].map(i => view.getUint8(offset + i)));
+    expect([tag(0), tag(8), tag(12), tag(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint32(4, true)).toBe(44);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(96000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(8);
+  });
+});
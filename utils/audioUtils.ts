@@ -24,27 +24,46 @@ export async function decodeAudioData(
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  // A DataView over just this slice: `data` may be a view at an odd offset into a larger buffer,
+  // which an Int16Array can't be built on, and the bytes are little-endian whatever the platform.
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const frameCount = Math.floor(data.byteLength / 2 / numChannels);
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
     const channelData = buffer.getChannelData(channel);
     for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+      channelData[i] = view.getInt16((i * numChannels + channel) * 2, true) / 32768.0;
     }
   }
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+export function encodePcm16(int16: Int16Array, sampleRate = 16000): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+/** Writes the 44-byte header of a 16-bit PCM WAV holding `frameCount` frames. */
+export function writeWavHeader(view: DataView, channelCount: number, sampleRate: number, frameCount: number): void {
+  const blockAlign = channelCount * 2;
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + frameCount * blockAlign, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, frameCount * blockAlign, true);
+}
@@ -0,0 +1,161 @@
+
+import { Appointment, AppointmentStatus } from '../types';
+import { clinic } from '../services/clinicConfig';
+import { summarizeHours } from '../services/clinicPrompt';
+import { Translate } from '../services/i18n';
+import { formatTime, parseDate, serviceNameOf } from '../services/scheduling';
+import { escapeHtml } from './transcriptExport';
+
+const REMINDER = '-P1D';
+const ICS_STATUS: Record<AppointmentStatus, string> = {
+  [AppointmentStatus.PENDING]: 'TENTATIVE',
+  [AppointmentStatus.CONFIRMED]: 'CONFIRMED',
+  [AppointmentStatus.DECLINED]: 'CANCELLED',
+  [AppointmentStatus.CANCELLED]: 'CANCELLED'
+};
+
+/** How far the zone's wall clock is ahead of UTC at that instant, in ms. */
+function zoneOffset(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(utcMs));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - utcMs;
+}
+
+/** Clinic wall-clock time ("2025-06-14", 17:00) to a UTC timestamp, whatever zone the browser is in. */
+export function clinicTimeToUtc(date: string, minutes: number, timeZone: string = clinic.location.timeZone): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, day, 0, minutes);
+  // Second pass corrects the guess when a DST change falls between the wall time and the true instant.
+  return wall - zoneOffset(wall - zoneOffset(wall, timeZone), timeZone);
+}
+
+function icsDateTime(utcMs: number): string {
+  return new Date(utcMs).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** RFC 5545 TEXT escaping. */
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line at 75 octets (RFC 5545 section 3.1) without splitting a UTF-8 character. */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward their 75.
+    if (size + bytes > (chunks.length ? 74 : 75)) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+export function icsFilename(appointment: Appointment): string {
+  return `${(appointment.reference ?? 'appointment').toLowerCase()}-${appointment.date}.ics`;
+}
+
+/** A one-event calendar file with a reminder the day before. */
+export function exportAppointmentIcs(appointment: Appointment, now: Date = new Date()): string {
+  const start = clinicTimeToUtc(appointment.date, appointment.startMinutes);
+  const end = start + appointment.durationMinutes * 60_000;
+  const service = serviceNameOf(appointment);
+  const description = [
+    appointment.reference ? `Reference: ${appointment.reference}` : null,
+    `Patient: ${appointment.clientName}`,
+    `Service: ${service}`,
+    appointment.status === AppointmentStatus.PENDING ? 'Requested. The clinic will contact you to confirm.' : `Status: ${appointment.status}`
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${icsText(clinic.name)}//${clinic.assistant.name} Assistant//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@${clinic.scheduling.referencePrefix.toLowerCase()}.mia-assistant`,
+    `DTSTAMP:${icsDateTime(now.getTime())}`,
+    `DTSTART:${icsDateTime(start)}`,
+    `DTEND:${icsDateTime(end)}`,
+    `SUMMARY:${icsText(`${service} - ${clinic.name}`)}`,
+    `DESCRIPTION:${icsText(description)}`,
+    `LOCATION:${icsText(`${clinic.name}, ${clinic.location.city}, ${clinic.location.province}`)}`,
+    `STATUS:${ICS_STATUS[appointment.status]}`,
+    'SEQUENCE:0',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `TRIGGER:${REMINDER}`,
+    `DESCRIPTION:${icsText(`Dental appointment tomorrow at ${formatTime(appointment.startMinutes)}`)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** Self-contained page the patient can print or save as PDF. Labels follow the chosen UI language. */
+export function exportBookingSummaryHtml(appointment: Appointment, t: Translate, lang: string): string {
+  const service = serviceNameOf(appointment);
+  const preparation = clinic.services.find(s => s.id === appointment.serviceId)?.preparation ?? [];
+  const longDate = parseDate(appointment.date)!.toLocaleDateString(lang, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  const rows: [string, string][] = [
+    [t('summaryPatient'), appointment.clientName],
+    [t('summaryService'), service],
+    [t('summaryDate'), longDate],
+    [t('summaryTime'), `${formatTime(appointment.startMinutes)} (${t('minutes', { count: appointment.durationMinutes })})`],
+    [t('summaryStatus'), appointment.status === AppointmentStatus.PENDING ? t('statusPending') : appointment.status],
+    [t('summaryLocation'), `${clinic.name}, ${clinic.location.city}, ${clinic.location.province}`],
+    [t('summaryHours'), summarizeHours(clinic)]
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(`${clinic.name} ${appointment.reference ?? ''}`)}</title>
+<style>
+  body { font-family: Inter, Arial, sans-serif; color: #0f172a; margin: 40px; font-size: 13px; }
+  h1 { font-size: 18px; margin: 0; }
+  .sub { color: #64748b; margin: 4px 0 24px; }
+  .ref { border: 2px dashed #2563eb; border-radius: 12px; padding: 16px; text-align: center; margin-bottom: 24px; }
+  .ref span { display: block; color: #64748b; font-size: 11px; text-transform: uppercase; letter-spacing: 0.1em; }
+  .ref strong { font-size: 28px; letter-spacing: 0.15em; color: #1d4ed8; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+  th { text-align: left; color: #64748b; font-weight: 600; width: 30%; }
+  th, td { padding: 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  h2 { font-size: 13px; margin: 0 0 8px; }
+  .note { color: #64748b; font-size: 11px; margin-top: 24px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(clinic.name)}</h1>
+<div class="sub">${escapeHtml(t('bookingSummaryTitle'))}</div>
+${appointment.reference ? `<div class="ref"><span>${escapeHtml(t('referenceCode'))}</span><strong>${escapeHtml(appointment.reference)}</strong></div>` : ''}
+<table>
+${rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+${preparation.length ? `<h2>${escapeHtml(t('beforeYourVisit'))}</h2>\n<ul>${preparation.map(note => `<li>${escapeHtml(note)}</li>`).join('')}</ul>` : ''}
+<p class="note">${escapeHtml(t('bookingKeepReference'))}</p>
+</body>
+</html>
+`;
+}
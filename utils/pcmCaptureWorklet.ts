@@ -0,0 +1,95 @@
+
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture-processor';
+
+export interface PcmCaptureMessage {
+  /** Little-endian PCM16 at the target rate; transferred, not copied. */
+  pcm: ArrayBuffer;
+  /** Peak absolute amplitude of the raw input covered by this chunk, 0..1. */
+  peak: number;
+  /** RMS of the resampled chunk, 0..1. */
+  rms: number;
+  /** Zero crossings per resampled sample, 0..1. */
+  zcr: number;
+}
+
+/**
+ * Runs on the audio rendering thread. Resamples whatever rate the context actually
+ * runs at down (or up) to the target rate, converts to clamped PCM16 and posts
+ * fixed-size chunks back to the main thread along with the level features the VAD needs.
+ *
+ * Kept as a string so it can be loaded from a Blob URL without a separate bundler entry.
+ */
+const source = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    this.targetRate = opts.targetSampleRate || 16000;
+    this.chunkSize = opts.chunkSize || 1024;
+    this.step = sampleRate / this.targetRate;
+    // One-pole low-pass ahead of decimation so content above the target Nyquist doesn't alias.
+    this.alpha = this.step > 1 ? 1 - Math.exp(-2 * Math.PI * (this.targetRate * 0.45) / sampleRate) : 1;
+    this.filtered = 0;
+    this.last = 0;
+    this.phase = 0;
+    this.peak = 0;
+    this.sumSquares = 0;
+    this.crossings = 0;
+    this.previous = 0;
+    this.out = new Int16Array(this.chunkSize);
+    this.outIndex = 0;
+  }
+
+  push(value) {
+    const clamped = value < -1 ? -1 : value > 1 ? 1 : value;
+    this.out[this.outIndex++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    this.sumSquares += clamped * clamped;
+    if ((clamped >= 0) !== (this.previous >= 0)) this.crossings++;
+    this.previous = clamped;
+    if (this.outIndex === this.chunkSize) {
+      const pcm = this.out.buffer;
+      const rms = Math.sqrt(this.sumSquares / this.chunkSize);
+      const zcr = this.crossings / this.chunkSize;
+      this.port.postMessage({ pcm, peak: this.peak, rms, zcr }, [pcm]);
+      this.out = new Int16Array(this.chunkSize);
+      this.outIndex = 0;
+      this.peak = 0;
+      this.sumSquares = 0;
+      this.crossings = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      const raw = channel[i];
+      const abs = raw < 0 ? -raw : raw;
+      if (abs > this.peak) this.peak = abs;
+      this.filtered += this.alpha * (raw - this.filtered);
+      const x = this.filtered;
+      while (this.phase < 1) {
+        this.push(this.last + (x - this.last) * this.phase);
+        this.phase += this.step;
+      }
+      this.phase -= 1;
+      this.last = x;
+    }
+    return true;
+  }
+}
+registerProcessor('${PCM_CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export async function loadPcmCaptureWorklet(ctx: BaseAudioContext): Promise<void> {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,112 @@
+
+import { ConversationSession, TranscriptionEntry } from '../types';
+import { clinic } from '../services/clinicConfig';
+
+const CLINIC_NAME = clinic.name;
+
+function speaker(entry: TranscriptionEntry): string {
+  return entry.role === 'user' ? 'Patient' : clinic.assistant.name;
+}
+
+function formatStamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-PH', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('en-PH', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function transcriptFilename(session: ConversationSession, extension: string): string {
+  const stamp = new Date(session.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  return `mia-transcript-${stamp}.${extension}`;
+}
+
+export function exportTranscriptJson(session: ConversationSession, entries: TranscriptionEntry[]): string {
+  return JSON.stringify({ session, entries }, null, 2);
+}
+
+export function exportTranscriptText(session: ConversationSession, entries: TranscriptionEntry[]): string {
+  const lines = [
+    `${CLINIC_NAME} - Conversation Transcript`,
+    `Session: ${session.id}`,
+    `Started: ${formatStamp(session.startedAt)}`,
+    `Ended: ${session.endedAt ? formatStamp(session.endedAt) : 'In progress'}`,
+    ''
+  ];
+  for (const entry of entries) {
+    lines.push(`[${formatClock(entry.timestamp)}] ${speaker(entry)}: ${entry.text}`);
+    for (const booking of entry.bookings ?? []) {
+      lines.push(`    -> ${booking.tool}: ${booking.appointmentId}${booking.date ? ` (${booking.date} ${booking.time ?? ''})` : ''}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Self-contained page with print styles, so "Print > Save as PDF" gives a clean document. */
+export function exportTranscriptHtml(session: ConversationSession, entries: TranscriptionEntry[]): string {
+  const rows = entries.map(entry => {
+    const bookings = (entry.bookings ?? [])
+      .map(b => `<div class="booking">${escapeHtml(b.tool)} &middot; ${escapeHtml(b.appointmentId)}${b.date ? ` &middot; ${escapeHtml(b.date)} ${escapeHtml(b.time ?? '')}` : ''}</div>`)
+      .join('');
+    return `<tr class="${entry.role}"><td class="time">${escapeHtml(formatClock(entry.timestamp))}</td><td class="who">${speaker(entry)}</td><td>${escapeHtml(entry.text)}${bookings}</td></tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(`${CLINIC_NAME} transcript ${formatStamp(session.startedAt)}`)}</title>
+<style>
+  body { font-family: Inter, Arial, sans-serif; color: #0f172a; margin: 40px; font-size: 12px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  .meta { color: #64748b; margin-bottom: 24px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  .time { color: #94a3b8; white-space: nowrap; width: 1%; }
+  .who { font-weight: 700; white-space: nowrap; width: 1%; }
+  .user .who { color: #2563eb; }
+  .assistant .who { color: #059669; }
+  .booking { margin-top: 4px; color: #059669; font-size: 11px; }
+  @media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${CLINIC_NAME} &middot; Conversation Transcript</h1>
+<div class="meta">Session ${escapeHtml(session.id)} &middot; ${escapeHtml(formatStamp(session.startedAt))}${session.endedAt ? ` to ${escapeHtml(formatClock(session.endedAt))}` : ''} &middot; ${entries.length} turns</div>
+<table>
+${rows}
+</table>
+</body>
+</html>
+`;
+}
+
+export function downloadFile(filename: string, content: string | Blob, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function printHtml(html: string): void {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+}
@@ -0,0 +1,113 @@
+
+export interface AudioFrame {
+  /** Peak absolute amplitude, 0..1. */
+  peak: number;
+  /** Root-mean-square amplitude, 0..1. */
+  rms: number;
+  /** Zero crossings per sample, 0..1. */
+  zcr: number;
+  durationMs: number;
+}
+
+export interface VadConfig {
+  /** Speech must be this many times louder than the tracked noise floor. */
+  snrRatio: number;
+  /** Absolute RMS below which nothing counts as speech, however quiet the room. */
+  minEnergy: number;
+  /** Voiced speech at 16 kHz sits roughly in this band; hiss is above it, hum below. */
+  minZcr: number;
+  maxZcr: number;
+  /** Continuous speech needed before reporting an onset. */
+  attackMs: number;
+  /** How long to keep reporting speech after the last speech frame. */
+  hangoverMs: number;
+  initialNoiseFloor: number;
+  /** Per-frame smoothing when the floor rises (slow) or falls (fast). */
+  floorRise: number;
+  floorFall: number;
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  snrRatio: 3,
+  minEnergy: 0.01,
+  minZcr: 0.01,
+  maxZcr: 0.4,
+  attackMs: 90,
+  hangoverMs: 450,
+  initialNoiseFloor: 0.005,
+  floorRise: 0.02,
+  floorFall: 0.3
+};
+
+export interface VadResult {
+  speaking: boolean;
+  changed: boolean;
+  /** Milliseconds since the current speech onset, 0 while silent. */
+  speechMs: number;
+}
+
+/** Energy and zero-crossing voice activity detector with hangover and an adaptive noise floor. */
+export class VoiceActivityDetector {
+  private readonly config: VadConfig;
+  private noiseFloor: number;
+  private speaking = false;
+  private candidateMs = 0;
+  private silenceMs = 0;
+  private speechMs = 0;
+
+  constructor(config: Partial<VadConfig> = {}) {
+    this.config = { ...DEFAULT_VAD_CONFIG, ...config };
+    this.noiseFloor = this.config.initialNoiseFloor;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /** How long after the last speech frame the end of speech is reported. */
+  get hangoverMs(): number {
+    return this.config.hangoverMs;
+  }
+
+  get currentNoiseFloor(): number {
+    return this.noiseFloor;
+  }
+
+  process(frame: AudioFrame): VadResult {
+    const { snrRatio, minEnergy, minZcr, maxZcr, attackMs, hangoverMs } = this.config;
+    const threshold = Math.max(minEnergy, this.noiseFloor * snrRatio);
+    const isSpeechFrame = frame.rms > threshold && frame.zcr >= minZcr && frame.zcr <= maxZcr;
+    const wasSpeaking = this.speaking;
+
+    if (isSpeechFrame) {
+      // Creep upwards even during "speech" so a fan switching on is eventually absorbed into the floor.
+      this.noiseFloor += (frame.rms - this.noiseFloor) * this.config.floorRise * 0.05;
+      this.silenceMs = 0;
+      this.candidateMs += frame.durationMs;
+      if (!this.speaking && this.candidateMs >= attackMs) this.speaking = true;
+    } else {
+      this.candidateMs = 0;
+      this.adaptNoiseFloor(frame.rms);
+      if (this.speaking) {
+        this.silenceMs += frame.durationMs;
+        if (this.silenceMs >= hangoverMs) this.speaking = false;
+      }
+    }
+
+    this.speechMs = this.speaking ? this.speechMs + frame.durationMs : 0;
+    return { speaking: this.speaking, changed: this.speaking !== wasSpeaking, speechMs: this.speechMs };
+  }
+
+  reset(): void {
+    this.noiseFloor = this.config.initialNoiseFloor;
+    this.speaking = false;
+    this.candidateMs = 0;
+    this.silenceMs = 0;
+    this.speechMs = 0;
+  }
+
+  private adaptNoiseFloor(rms: number): void {
+    const rate = rms < this.noiseFloor ? this.config.floorFall : this.config.floorRise;
+    this.noiseFloor += (rms - this.noiseFloor) * rate;
+  }
+}
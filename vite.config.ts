@@ -10,8 +10,17 @@ export default defineConfig(({ mode }) => {
   return {
     plugins: [react()],
     define: {
-      // This globally replaces process.env.API_KEY in your code with the actual key value
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      // Never define the Gemini key here: anything in `define` ends up in the public bundle.
+      // The browser gets short-lived tokens from the session server instead (npm run server).
+      'process.env.SESSION_ENDPOINT': JSON.stringify(env.SESSION_ENDPOINT || ''),
+      'process.env.CHAT_ENDPOINT': JSON.stringify(env.CHAT_ENDPOINT || ''),
+      'process.env.NOTIFY_ENDPOINT': JSON.stringify(env.NOTIFY_ENDPOINT || ''),
+      'process.env.LIVE_BASE_URL': JSON.stringify(env.LIVE_BASE_URL || ''),
+    },
+    server: {
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 8787}`,
+      },
     },
   };
 });
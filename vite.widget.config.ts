@@ -0,0 +1,32 @@
+
+import { defineConfig, loadEnv } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Library build of the embeddable widget (widget/index.tsx) for the clinic's existing website.
+// `npm run build:widget` writes dist/widget/mia-widget.js plus the lazily loaded app chunk.
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '');
+
+  return {
+    plugins: [react()],
+    define: {
+      // Library mode leaves process.env alone, and React reads NODE_ENV at runtime.
+      'process.env.NODE_ENV': JSON.stringify(mode === 'production' ? 'production' : 'development'),
+      // Defaults only: the host page passes the session server's absolute URLs to MiaWidget.mount.
+      'process.env.SESSION_ENDPOINT': JSON.stringify(env.SESSION_ENDPOINT || ''),
+      'process.env.CHAT_ENDPOINT': JSON.stringify(env.CHAT_ENDPOINT || ''),
+      'process.env.NOTIFY_ENDPOINT': JSON.stringify(env.NOTIFY_ENDPOINT || ''),
+      'process.env.LIVE_BASE_URL': JSON.stringify(''),
+    },
+    build: {
+      outDir: 'dist/widget',
+      emptyOutDir: true,
+      lib: {
+        entry: 'widget/index.tsx',
+        // ES only: the app chunk is split off so the clinic config is applied before it evaluates.
+        formats: ['es'],
+        fileName: () => 'mia-widget.js',
+      },
+    },
+  };
+});
@@ -0,0 +1,15 @@
+
+import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+
+// Kept apart from vite.config.ts, whose `define` would bake the endpoints into the code under test.
+export default defineConfig({
+  plugins: [react()],
+  test: {
+    environment: 'jsdom',
+    include: ['**/*.test.{ts,tsx}'],
+    exclude: ['node_modules/**', 'dist/**'],
+    restoreMocks: true,
+    testTimeout: 15000,
+  },
+});
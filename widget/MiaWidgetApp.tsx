@@ -0,0 +1,247 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ConnectionStatus, Urgency } from '../types';
+import { clinic } from '../services/clinicConfig';
+import { Language, LANGUAGES, MessageKey, createTranslator, languageProfile } from '../services/i18n';
+import { formatTime, serviceNameOf } from '../services/scheduling';
+import { useAssistant } from '../hooks/useAssistant';
+import { I18nContext } from '../hooks/useI18n';
+import { exportAppointmentIcs, icsFilename } from '../utils/bookingExport';
+import { downloadFile } from '../utils/transcriptExport';
+import VoiceVisualizer from '../components/VoiceVisualizer';
+import type { WidgetPosition } from './index';
+
+interface MiaWidgetAppProps {
+  initialLanguage?: Language;
+  position: WidgetPosition;
+  /** The canvas visualiser can't read the --mia-accent custom property. */
+  accentColor: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Font Awesome and Tailwind live in the host page's <head> and can't reach into the shadow root.
+const ICONS = {
+  chat: 'M20 2H4a2 2 0 0 0-2 2v18l4-4h14a2 2 0 0 0 2-2V4a2 2 0 0 0-2-2z',
+  close: 'M19 6.41 17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z',
+  mic: 'M12 14a3 3 0 0 0 3-3V5a3 3 0 0 0-6 0v6a3 3 0 0 0 3 3zm5.3-3a5.3 5.3 0 0 1-10.6 0H5a7 7 0 0 0 6 6.92V21h2v-3.08A7 7 0 0 0 19 11h-1.7z',
+  stop: 'M6 6h12v12H6z',
+  send: 'M2.01 21 23 12 2.01 3 2 10l15 2-15 2z',
+  headset: 'M12 1a9 9 0 0 0-9 9v7a3 3 0 0 0 3 3h3v-8H5v-2a7 7 0 0 1 14 0v2h-4v8h3a3 3 0 0 0 3-3v-7a9 9 0 0 0-9-9z',
+  calendar: 'M19 4h-1V2h-2v2H8V2H6v2H5a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6a2 2 0 0 0-2-2zm0 16H5V10h14v10z',
+  phone: 'M6.62 10.79a15.05 15.05 0 0 0 6.59 6.59l2.2-2.2a1 1 0 0 1 1.02-.24c1.12.37 2.32.57 3.57.57a1 1 0 0 1 1 1V20a1 1 0 0 1-1 1A17 17 0 0 1 3 4a1 1 0 0 1 1-1h3.5a1 1 0 0 1 1 1c0 1.25.2 2.45.57 3.57a1 1 0 0 1-.25 1.02l-2.2 2.2z'
+};
+
+const Icon: React.FC<{ name: keyof typeof ICONS }> = ({ name }) => (
+  <svg viewBox="0 0 24 24" aria-hidden="true" className="icon"><path d={ICONS[name]} /></svg>
+);
+
+const TRIAGE_TITLES: Record<Urgency, MessageKey> = {
+  emergency: 'triageEmergency',
+  urgent: 'triageUrgent',
+  routine: 'triageRoutine'
+};
+
+function telHref(phone: string): string {
+  return `tel:${phone.replace(/[^\d+]/g, '')}`;
+}
+
+/** The patient view squeezed into a launcher and a panel, for the clinic's own website. No call recording here. */
+const MiaWidgetApp: React.FC<MiaWidgetAppProps> = ({ initialLanguage, position, accentColor, open, onOpenChange }) => {
+  // Not useLanguagePreference: the widget must not rewrite the host page's <html lang>.
+  const [language, setLanguage] = useState<Language>(initialLanguage ?? clinic.assistant.defaultLanguage);
+  const t = useMemo(() => createTranslator(language), [language]);
+  const i18n = useMemo(() => ({ language, setLanguage, t }), [language, t]);
+  const [textInput, setTextInput] = useState('');
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  const {
+    status,
+    transcriptions,
+    captions,
+    isAiSpeaking,
+    isProcessingTool,
+    errorMsg,
+    getAnalyser,
+    stop,
+    isLive,
+    isTextMode,
+    bookingCard,
+    dismissBooking,
+    triage,
+    dismissTriage,
+    callback,
+    dismissCallback,
+    startConversation,
+    send
+  } = useAssistant(language);
+
+  useEffect(() => {
+    // scrollIntoView would scroll the host page too.
+    const transcript = transcriptRef.current;
+    if (transcript) transcript.scrollTop = transcript.scrollHeight;
+  }, [transcriptions, captions, bookingCard, triage, callback]);
+
+  const busy = status === ConnectionStatus.CONNECTING || status === ConnectionStatus.RECONNECTING;
+  const name = clinic.assistant.name;
+
+  const handleSend = (customText?: string) => {
+    const message = customText || textInput.trim();
+    if (!message) return;
+    send(message);
+    if (!customText) setTextInput('');
+  };
+
+  if (!open) {
+    return (
+      <button className={`launcher ${position}`} onClick={() => onOpenChange(true)} aria-label={t('openAssistant', { name })}>
+        <Icon name="chat" />
+        <span>{t('talkTo', { name })}</span>
+      </button>
+    );
+  }
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <section className={`panel ${position}`} role="dialog" aria-label={t('talkTo', { name })} lang={languageProfile(language).htmlLang}>
+        <header className="panel-header">
+          <div>
+            <h2>{name}</h2>
+            <p>{clinic.name}</p>
+          </div>
+          <select
+            value={language}
+            onChange={e => setLanguage(e.target.value as Language)}
+            disabled={isLive}
+            aria-label={t('language')}
+            title={isLive ? t('languageLocked') : undefined}
+          >
+            {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+          </select>
+          <button className="icon-button" onClick={() => onOpenChange(false)} aria-label={t('closeAssistant')}>
+            <Icon name="close" />
+          </button>
+        </header>
+
+        <div ref={transcriptRef} className="transcript" role="log" aria-live="polite">
+          {transcriptions.length === 0 && <p className="empty">{t('talkSubtitle')}</p>}
+          {transcriptions.map((entry, i) => (
+            <div key={i} className={`bubble ${entry.role}`}>{entry.text}</div>
+          ))}
+          {/* Live captions; the log announces the finished turn, not every partial. */}
+          {captions.user && <div className="bubble user partial" aria-hidden="true">{captions.user}</div>}
+          {captions.assistant && <div className="bubble assistant partial" aria-hidden="true">{captions.assistant}</div>}
+
+          {triage && (
+            <div className={`card triage ${triage.urgency}`} role="alert">
+              <div className="card-title">
+                <strong>{t(TRIAGE_TITLES[triage.urgency])}</strong>
+                <button className="icon-button" onClick={dismissTriage} aria-label={t('closeAssistant')}><Icon name="close" /></button>
+              </div>
+              {triage.guidance.length > 0 && (
+                <ul>{triage.guidance.map(step => <li key={step}>{step}</li>)}</ul>
+              )}
+              {!triage.clinicOpen && triage.urgency !== 'routine' && (
+                <p><strong>{t('triageAfterHours')}</strong> {clinic.emergency.afterHours}</p>
+              )}
+              {triage.urgency !== 'routine' && (
+                <div className="card-actions">
+                  <a className="action" href={telHref(clinic.emergency.phone)}><Icon name="phone" />{t('triageCallClinic')}</a>
+                  {triage.urgency === 'emergency' && (
+                    <a className="action secondary" href={telHref(clinic.emergency.hotline)}><Icon name="phone" />{t('triageHotline')}</a>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {bookingCard && (
+            <div className={`card booking ${bookingCard.stage}`}>
+              <div className="card-title">
+                <strong>{bookingCard.stage === 'proposed' ? t('bookingConfirmTitle') : t('appointmentRequested')}</strong>
+                <button className="icon-button" onClick={dismissBooking} aria-label={t('closeAssistant')}><Icon name="close" /></button>
+              </div>
+              <dl>
+                <dt>{t('summaryService')}</dt><dd>{serviceNameOf(bookingCard.appointment)}</dd>
+                <dt>{t('summaryDate')}</dt><dd>{bookingCard.appointment.date}</dd>
+                <dt>{t('summaryTime')}</dt><dd>{formatTime(bookingCard.appointment.startMinutes)}</dd>
+                {bookingCard.stage === 'booked' && bookingCard.appointment.reference && (
+                  <><dt>{t('referenceCode')}</dt><dd className="reference">{bookingCard.appointment.reference}</dd></>
+                )}
+              </dl>
+              <div className="card-actions">
+                {bookingCard.stage === 'proposed' && isLive && (
+                  <button className="action" onClick={() => handleSend(t('bookingConfirmMessage'))}>{t('bookingConfirmAction')}</button>
+                )}
+                {bookingCard.stage === 'booked' && (
+                  <button
+                    className="action secondary"
+                    onClick={() => downloadFile(icsFilename(bookingCard.appointment), exportAppointmentIcs(bookingCard.appointment), 'text/calendar')}
+                  >
+                    <Icon name="calendar" />{t('addToCalendar')}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {callback && (
+            <div className="card callback">
+              <div className="card-title">
+                <strong>{t('callbackTitle')}</strong>
+                <button className="icon-button" onClick={dismissCallback} aria-label={t('closeAssistant')}><Icon name="close" /></button>
+              </div>
+              <p>{t('callbackQueued', { number: callback.contactNumber })}</p>
+            </div>
+          )}
+        </div>
+
+        {(errorMsg || status === ConnectionStatus.RECONNECTING || isProcessingTool) && (
+          <div className={`status ${errorMsg ? 'error' : ''}`} role="status">
+            {errorMsg ?? (status === ConnectionStatus.RECONNECTING ? t('reconnecting', { name }) : t('processingBooking'))}
+            {errorMsg && !isTextMode && !isLive && (
+              <button className="link" onClick={() => startConversation('text')}>{t('continueInTextChat')}</button>
+            )}
+          </div>
+        )}
+
+        <footer className="panel-footer">
+          <div className="controls">
+            <button
+              className={`mic ${isLive && !isTextMode ? 'live' : ''}`}
+              onClick={() => (isLive ? stop() : startConversation('voice'))}
+              disabled={status === ConnectionStatus.CONNECTING}
+              aria-label={isLive ? t(isTextMode ? 'endChat' : 'endConversation') : t('startConsultation')}
+              title={isLive ? t(isTextMode ? 'endChat' : 'endConversation') : t('startConsultation')}
+            >
+              <Icon name={isLive ? 'stop' : 'mic'} />
+            </button>
+            {status === ConnectionStatus.CONNECTED && !isTextMode && (
+              <VoiceVisualizer isActive={isAiSpeaking} color={accentColor} getAnalyser={() => getAnalyser('output')} barCount={12} width={96} height={28} />
+            )}
+            {!callback && (
+              <button className="link" onClick={() => handleSend(t('talkToPersonMessage'))} disabled={busy}>
+                <Icon name="headset" />{t('talkToPerson')}
+              </button>
+            )}
+          </div>
+          <form className="composer" onSubmit={e => { e.preventDefault(); handleSend(); }}>
+            <input
+              type="text"
+              value={textInput}
+              onChange={e => setTextInput(e.target.value)}
+              placeholder={t('typeMessage')}
+              aria-label={t('typeMessage')}
+              disabled={busy}
+            />
+            <button type="submit" className="send" disabled={busy || !textInput.trim()} aria-label={t('sendMessage')}>
+              <Icon name="send" />
+            </button>
+          </form>
+        </footer>
+      </section>
+    </I18nContext.Provider>
+  );
+};
+
+export default MiaWidgetApp;
@@ -0,0 +1,157 @@
+
+import { createRoot } from 'react-dom/client';
+import { ClinicConfigError, ClinicConfigOverrides, configureClinic } from '../services/clinicConfig';
+import { configureEndpoints } from '../services/endpoints';
+import { Language, isLanguage } from '../services/i18n';
+import { DEFAULT_ACCENT, WIDGET_STYLES } from './widgetStyles';
+
+export type WidgetPosition = 'bottom-right' | 'bottom-left';
+
+export interface MiaWidgetConfig {
+  /** Absolute URLs on the clinic's session server; its ALLOWED_ORIGINS must list the host site. */
+  sessionEndpoint?: string;
+  chatEndpoint?: string;
+  notifyEndpoint?: string;
+  /** Merged over clinic.config.ts and validated, e.g. `{ assistant: { name: 'Ana' } }`. */
+  clinic?: ClinicConfigOverrides;
+  language?: Language;
+  position?: WidgetPosition;
+  /** Any CSS color for the launcher, buttons and patient bubbles. */
+  accentColor?: string;
+  /** Opens the panel straight away instead of showing only the launcher. */
+  open?: boolean;
+}
+
+export interface MiaWidgetHandle {
+  open(): void;
+  close(): void;
+  unmount(): void;
+}
+
+// clinic and the scheduling constants derived from it are module-wide, so one page gets one clinic.
+let configuredWith: string | null = null;
+
+function applyConfig(config: MiaWidgetConfig): void {
+  const key = JSON.stringify([config.clinic ?? {}, config.sessionEndpoint, config.chatEndpoint, config.notifyEndpoint]);
+  if (configuredWith === key) return;
+  if (configuredWith !== null) throw new Error('MiaWidget is already mounted with a different clinic or endpoints on this page.');
+  if (config.clinic) configureClinic(config.clinic);
+  configureEndpoints({ session: config.sessionEndpoint, chat: config.chatEndpoint, notify: config.notifyEndpoint });
+  configuredWith = key;
+}
+
+/**
+ * Renders the assistant into a shadow root inside `el`, so the host page's CSS and ours never meet.
+ * Throws ClinicConfigError right away when the clinic overrides are invalid.
+ */
+function mount(el: HTMLElement, config: MiaWidgetConfig = {}): MiaWidgetHandle {
+  applyConfig(config);
+
+  const host = document.createElement('div');
+  el.appendChild(host);
+  const shadow = host.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = WIDGET_STYLES;
+  const container = document.createElement('div');
+  shadow.append(style, container);
+  if (config.accentColor) host.style.setProperty('--mia-accent', config.accentColor);
+
+  const root = createRoot(container);
+  let open = config.open ?? false;
+  let unmounted = false;
+  let render: (() => void) | null = null;
+
+  // Loaded only now: the app's modules read the clinic config as they are imported.
+  import('./MiaWidgetApp').then(({ default: MiaWidgetApp }) => {
+    if (unmounted) return;
+    render = () => root.render(
+      <MiaWidgetApp
+        initialLanguage={config.language}
+        position={config.position ?? 'bottom-right'}
+        accentColor={config.accentColor ?? DEFAULT_ACCENT}
+        open={open}
+        onOpenChange={setOpen}
+      />
+    );
+    render();
+  }).catch(err => console.error('Could not load the Mia widget', err));
+
+  function setOpen(next: boolean) {
+    open = next;
+    render?.();
+  }
+
+  return {
+    open: () => setOpen(true),
+    close: () => setOpen(false),
+    unmount: () => {
+      unmounted = true;
+      root.unmount();
+      host.remove();
+    }
+  };
+}
+
+function parseClinicOverrides(json: string): ClinicConfigOverrides {
+  try {
+    return JSON.parse(json);
+  } catch (err) {
+    throw new ClinicConfigError([`<mia-assistant> clinic script is not valid JSON: ${(err as Error).message}`]);
+  }
+}
+
+/**
+ * `<mia-assistant session-endpoint="https://..." language="english"></mia-assistant>`.
+ * Clinic overrides go in a child `<script type="application/json">`, read once on connect.
+ * A bad script or invalid overrides are logged and nothing is rendered.
+ */
+class MiaAssistantElement extends HTMLElement {
+  private handle: MiaWidgetHandle | null = null;
+
+  connectedCallback() {
+    if (this.handle) return;
+    const json = this.querySelector('script[type="application/json"]')?.textContent;
+    const language = this.getAttribute('language');
+    const position = this.getAttribute('position');
+    try {
+      this.handle = mount(this, {
+        sessionEndpoint: this.getAttribute('session-endpoint') ?? undefined,
+        chatEndpoint: this.getAttribute('chat-endpoint') ?? undefined,
+        notifyEndpoint: this.getAttribute('notify-endpoint') ?? undefined,
+        clinic: json ? parseClinicOverrides(json) : undefined,
+        language: isLanguage(language) ? language : undefined,
+        position: position === 'bottom-left' ? 'bottom-left' : 'bottom-right',
+        accentColor: this.getAttribute('accent-color') ?? undefined,
+        open: this.hasAttribute('open')
+      });
+    } catch (err) {
+      console.error('Could not start the Mia widget', err);
+    }
+  }
+
+  disconnectedCallback() {
+    this.handle?.unmount();
+    this.handle = null;
+  }
+
+  open() {
+    this.handle?.open();
+  }
+
+  close() {
+    this.handle?.close();
+  }
+}
+
+if (!customElements.get('mia-assistant')) customElements.define('mia-assistant', MiaAssistantElement);
+
+export const MiaWidget = { mount };
+
+declare global {
+  interface Window {
+    MiaWidget?: typeof MiaWidget;
+  }
+}
+
+// For plain <script> tags on the host page that run after the module has loaded.
+window.MiaWidget = MiaWidget;
@@ -0,0 +1,180 @@
+
+export const DEFAULT_ACCENT = '#2563eb';
+
+/** Injected into the widget's shadow root; nothing here can leak into, or be overridden by, the host page. */
+export const WIDGET_STYLES = `
+:host {
+  all: initial;
+  --mia-accent: ${DEFAULT_ACCENT};
+  --mia-text: #0f172a;
+  --mia-muted: #64748b;
+  --mia-border: #e2e8f0;
+  --mia-surface: #f8fafc;
+}
+
+* { box-sizing: border-box; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; }
+
+.icon { width: 1.1em; height: 1.1em; fill: currentColor; flex-shrink: 0; }
+
+button, select, input { font: inherit; color: inherit; }
+button { cursor: pointer; border: none; background: none; }
+button:disabled { cursor: not-allowed; opacity: 0.5; }
+:focus-visible { outline: 3px solid var(--mia-accent); outline-offset: 2px; }
+
+.bottom-right { right: 20px; }
+.bottom-left { left: 20px; }
+
+.launcher {
+  position: fixed;
+  bottom: 20px;
+  z-index: 2147483000;
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 14px 20px;
+  border-radius: 999px;
+  background: var(--mia-accent);
+  color: #fff;
+  font-size: 14px;
+  font-weight: 700;
+  box-shadow: 0 10px 30px rgba(15, 23, 42, 0.25);
+}
+
+.panel {
+  position: fixed;
+  bottom: 20px;
+  z-index: 2147483000;
+  width: min(380px, calc(100vw - 40px));
+  height: min(600px, calc(100vh - 40px));
+  display: flex;
+  flex-direction: column;
+  overflow: hidden;
+  border-radius: 24px;
+  background: #fff;
+  color: var(--mia-text);
+  font-size: 13px;
+  box-shadow: 0 20px 50px rgba(15, 23, 42, 0.25);
+}
+
+.panel-header {
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 14px 16px;
+  background: var(--mia-accent);
+  color: #fff;
+}
+.panel-header > div { flex: 1; min-width: 0; }
+.panel-header h2 { margin: 0; font-size: 16px; }
+.panel-header p { margin: 2px 0 0; font-size: 11px; opacity: 0.85; }
+.panel-header select {
+  border: 1px solid rgba(255, 255, 255, 0.5);
+  border-radius: 8px;
+  padding: 4px 6px;
+  background: transparent;
+  font-size: 11px;
+}
+.panel-header option { color: var(--mia-text); }
+
+.icon-button { display: inline-flex; padding: 6px; border-radius: 999px; }
+.icon-button:hover { background: rgba(0, 0, 0, 0.08); }
+
+.transcript {
+  flex: 1;
+  overflow-y: auto;
+  padding: 16px;
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  background: var(--mia-surface);
+}
+.empty { margin: auto; text-align: center; color: var(--mia-muted); }
+
+.bubble {
+  max-width: 85%;
+  padding: 10px 14px;
+  border-radius: 16px;
+  line-height: 1.5;
+  white-space: pre-wrap;
+}
+.bubble.user { align-self: flex-end; background: var(--mia-accent); color: #fff; border-top-right-radius: 4px; }
+.bubble.assistant { align-self: flex-start; background: #fff; border: 1px solid var(--mia-border); border-top-left-radius: 4px; }
+.bubble.partial { font-style: italic; opacity: 0.75; }
+
+.card { padding: 12px 14px; border-radius: 16px; border: 1px solid; }
+.card p, .card ul { margin: 8px 0 0; }
+.card ul { padding-left: 18px; }
+.card-title { display: flex; align-items: center; justify-content: space-between; gap: 8px; }
+.card dl { display: grid; grid-template-columns: auto 1fr; gap: 4px 12px; margin: 10px 0 0; }
+.card dt { color: var(--mia-muted); font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; }
+.card dd { margin: 0; font-weight: 600; }
+.card .reference { font-size: 16px; letter-spacing: 0.15em; user-select: all; }
+.card-actions { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 10px; }
+.card-actions:empty { display: none; }
+
+.booking.proposed { background: #fffbeb; border-color: #fde68a; color: #78350f; }
+.booking.booked { background: #ecfdf5; border-color: #a7f3d0; color: #064e3b; }
+.triage.emergency { background: #fff1f2; border-color: #fecdd3; color: #881337; }
+.triage.urgent { background: #fffbeb; border-color: #fde68a; color: #78350f; }
+.triage.routine { background: #f0f9ff; border-color: #bae6fd; color: #0c4a6e; }
+.callback { background: #eef2ff; border-color: #c7d2fe; color: #312e81; }
+
+.action {
+  display: inline-flex;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 12px;
+  border-radius: 10px;
+  font-size: 12px;
+  font-weight: 700;
+  text-decoration: none;
+}
+.action, .action .icon { color: #fff; }
+.card .action { background: var(--mia-accent); }
+.card .action.secondary { background: #fff; color: inherit; border: 1px solid currentColor; }
+.card .action.secondary .icon { color: inherit; }
+
+.status { padding: 8px 16px; font-size: 12px; background: #fffbeb; color: #92400e; }
+.status.error { background: #fff1f2; color: #be123c; }
+.status .link { margin-left: 8px; text-decoration: underline; }
+
+.panel-footer { padding: 12px 16px 16px; border-top: 1px solid var(--mia-border); display: flex; flex-direction: column; gap: 10px; }
+.controls { display: flex; align-items: center; gap: 10px; }
+.mic {
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  width: 40px;
+  height: 40px;
+  border-radius: 999px;
+  background: var(--mia-accent);
+  color: #fff;
+}
+.mic.live { background: #e11d48; }
+.link { display: inline-flex; align-items: center; gap: 6px; margin-left: auto; color: var(--mia-muted); font-size: 12px; font-weight: 600; }
+.link:hover { color: var(--mia-accent); }
+
+.composer { display: flex; gap: 8px; }
+.composer input {
+  flex: 1;
+  min-width: 0;
+  padding: 10px 14px;
+  border: 1px solid var(--mia-border);
+  border-radius: 12px;
+  background: var(--mia-surface);
+}
+.send {
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  width: 40px;
+  border-radius: 12px;
+  background: var(--mia-accent);
+  color: #fff;
+}
+
+@media (prefers-reduced-motion: no-preference) {
+  .launcher, .mic, .send, .icon-button { transition: transform 0.15s ease, background 0.15s ease; }
+  .launcher:hover { transform: translateY(-2px); }
+}
+`;